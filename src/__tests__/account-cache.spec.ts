@@ -0,0 +1,211 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AccountInfo, Connection, GetMultipleAccountsConfig, PublicKey } from "@solana/web3.js";
+import { AccountCache } from "../account-cache";
+
+const ACCOUNT = new PublicKey("7xS2gz2bTp3fwCC7knJvUWTEU9Tycczu6VhJYKgi1wdz");
+
+type AccountChangeCallback = (account: AccountInfo<Buffer>, context: { slot: number }) => void;
+
+const accountInfo = (data: string): AccountInfo<Buffer> => ({
+  data: Buffer.from(data),
+  executable: false,
+  lamports: 1_000_000,
+  owner: PublicKey.default,
+  rentEpoch: 0,
+});
+
+const dataOf = (account: AccountInfo<Buffer> | null) => account?.data.toString() ?? null;
+
+/**
+ * A connection that counts the accounts it reads. Every account holds `chain.data` at `chain.slot` (missing while
+ * it's null), read when the request is sent. Responses wait for `gate` when it's set, like a slow endpoint
+ */
+function createFakeConnection() {
+  const chain = { slot: 1, data: null as string | null };
+  const stats = { reads: 0, requests: 0, minContextSlots: [] as (number | undefined)[] };
+  const listeners = new Map<number, { pubkey: PublicKey; callback: AccountChangeCallback }>();
+  const control = { gate: null as Promise<void> | null };
+
+  const connection = {
+    getMultipleAccountsInfoAndContext: async (pubkeys: PublicKey[], config: GetMultipleAccountsConfig) => {
+      const { slot, data } = chain;
+
+      stats.reads += pubkeys.length;
+      stats.requests++;
+      stats.minContextSlots.push(config.minContextSlot);
+      await control.gate;
+
+      return { context: { slot }, value: pubkeys.map(() => (data === null ? null : accountInfo(data))) };
+    },
+    onAccountChange: (pubkey: PublicKey, callback: AccountChangeCallback) => {
+      const id = listeners.size + 1;
+
+      listeners.set(id, { pubkey, callback });
+      return id;
+    },
+    removeAccountChangeListener: async (id: number) => {
+      listeners.delete(id);
+    },
+  } as unknown as Connection;
+
+  // Sends an account update to the subscriptions of `pubkey`
+  const update = (pubkey: PublicKey, data: string, slot: number) =>
+    [...listeners.values()]
+      .filter((listener) => listener.pubkey.equals(pubkey))
+      .forEach(({ callback }) => callback(accountInfo(data), { slot }));
+
+  return { connection, chain, stats, listeners, control, update };
+}
+
+// A promise and the function resolving it
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+
+  return { promise, resolve };
+}
+
+describe("AccountCache", () => {
+  it("fetches every read by default", async () => {
+    const { connection, stats } = createFakeConnection();
+    const cache = new AccountCache(connection);
+
+    await cache.getAccountInfo(ACCOUNT);
+    await cache.getAccountInfo(ACCOUNT);
+
+    assert.equal(stats.reads, 2);
+  });
+
+  it("serves repeat reads within maxAgeMs from the cache", async () => {
+    const { connection, stats } = createFakeConnection();
+    const cache = new AccountCache(connection, { maxAgeMs: 60_000 });
+
+    await cache.getAccountInfo(ACCOUNT);
+    await cache.getMultipleAccountsInfo([ACCOUNT, ACCOUNT]);
+
+    assert.equal(stats.reads, 1);
+  });
+
+  it("fetches cached accounts read before minSlot again, from at least minSlot", async () => {
+    const { connection, chain, stats } = createFakeConnection();
+    const cache = new AccountCache(connection, { maxAgeMs: 60_000 });
+
+    chain.slot = 10;
+    chain.data = "v1";
+    await cache.getAccountInfo(ACCOUNT);
+
+    chain.slot = 12;
+    chain.data = "v2";
+
+    // Read at slot 10, recent enough
+    assert.equal(dataOf(await cache.getAccountInfo(ACCOUNT, { minSlot: 10 })), "v1");
+    assert.equal(stats.requests, 1);
+
+    assert.equal(dataOf(await cache.getAccountInfo(ACCOUNT, { minSlot: 11 })), "v2");
+    assert.equal(cache.getSlot(ACCOUNT), 12);
+    assert.deepEqual(stats.minContextSlots, [undefined, 11]);
+  });
+
+  it("doesn't overwrite an entry with a response from an older slot", async () => {
+    const { connection, chain, control, update } = createFakeConnection();
+    const cache = new AccountCache(connection, { subscribe: true });
+
+    chain.slot = 10;
+    chain.data = "v1";
+    await cache.getAccountInfo(ACCOUNT);
+
+    // A slow read of slot 11 is overtaken by the update of slot 12
+    const slowResponse = deferred();
+
+    control.gate = slowResponse.promise;
+    chain.slot = 11;
+    const slowRead = cache.getMultipleAccountsInfo([ACCOUNT], { minSlot: 11 });
+
+    update(ACCOUNT, "v3", 12);
+    slowResponse.resolve();
+
+    assert.equal(dataOf((await slowRead)[0]), "v3");
+    assert.equal(cache.getSlot(ACCOUNT), 12);
+
+    // Nor with accounts read elsewhere
+    cache.setAccounts([ACCOUNT], [accountInfo("v0")], 5);
+    assert.equal(dataOf(await cache.getAccountInfo(ACCOUNT)), "v3");
+  });
+
+  it("keeps subscribed accounts up to date without fetching them again", async () => {
+    const { connection, chain, stats, listeners, update } = createFakeConnection();
+    // Nothing is served from the cache unless it's subscribed
+    const cache = new AccountCache(connection, { subscribe: true });
+
+    chain.slot = 10;
+    chain.data = "v1";
+    await cache.getAccountInfo(ACCOUNT);
+    update(ACCOUNT, "v2", 11);
+
+    assert.equal(dataOf(await cache.getAccountInfo(ACCOUNT)), "v2");
+    assert.equal(cache.getSlot(ACCOUNT), 11);
+    assert.equal(stats.requests, 1);
+    assert.equal(listeners.size, 1);
+
+    await cache.close();
+
+    assert.equal(listeners.size, 0);
+  });
+
+  it("shares fetches in flight with reads of the same accounts", async () => {
+    const { connection, chain, stats, control } = createFakeConnection();
+    const cache = new AccountCache(connection);
+    const response = deferred();
+
+    chain.data = "v1";
+    control.gate = response.promise;
+
+    // e.g. a long's custody and collateral custody
+    const reads = Promise.all([cache.getAccountInfo(ACCOUNT), cache.getAccountInfo(ACCOUNT)]);
+
+    response.resolve();
+
+    assert.deepEqual((await reads).map(dataOf), ["v1", "v1"]);
+    assert.equal(stats.requests, 1);
+
+    // Once done, the next read fetches again
+    await cache.getAccountInfo(ACCOUNT);
+
+    assert.equal(stats.requests, 2);
+  });
+
+  it("doesn't share fetches in flight sent with a lower minSlot", async () => {
+    const { connection, stats, control } = createFakeConnection();
+    const cache = new AccountCache(connection);
+    const response = deferred();
+
+    control.gate = response.promise;
+
+    const reads = Promise.all([
+      cache.getAccountInfo(ACCOUNT),
+      cache.getAccountInfo(ACCOUNT, { minSlot: 5 }),
+      cache.getAccountInfo(ACCOUNT, { minSlot: 3 }),
+    ]);
+
+    response.resolve();
+    await reads;
+
+    // The last read shares the fetch from slot 5
+    assert.deepEqual(stats.minContextSlots, [undefined, 5]);
+  });
+
+  it("rejects every read sharing a failed fetch", async () => {
+    const { connection } = createFakeConnection();
+    const cache = new AccountCache(connection);
+
+    connection.getMultipleAccountsInfoAndContext = async () => {
+      throw new Error("fetch failed");
+    };
+
+    await assert.rejects(
+      Promise.all([cache.getAccountInfo(ACCOUNT), cache.getAccountInfo(ACCOUNT)]),
+      /fetch failed/,
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AccountInfo, Connection, GetMultipleAccountsConfig, Keypair, PublicKey } from "@solana/web3.js";
+import { getMultipleAccountsAtSlot } from "../account-loader";
+
+/**
+ * A connection answering its nth `getMultipleAccountsInfo` request at `slots[n]` (the last one once they run
+ * out), or at `minContextSlot` if it's later. Every account holds its own public key, or is missing if it's in
+ * `missing`
+ */
+function createFakeConnection(slots: number[], missing: PublicKey[] = []) {
+  const requests: { size: number; minContextSlot?: number }[] = [];
+
+  const connection = {
+    getMultipleAccountsInfoAndContext: async (pubkeys: PublicKey[], config: GetMultipleAccountsConfig) => {
+      const slot = Math.max(slots[Math.min(requests.length, slots.length - 1)], config.minContextSlot ?? 0);
+
+      requests.push({ size: pubkeys.length, minContextSlot: config.minContextSlot });
+
+      return {
+        context: { slot },
+        value: pubkeys.map((pubkey) =>
+          missing.some((key) => key.equals(pubkey))
+            ? null
+            : { data: pubkey.toBuffer(), executable: false, lamports: 1, owner: PublicKey.default, rentEpoch: 0 },
+        ),
+      };
+    },
+    getSlot: async () => 42,
+  } as unknown as Connection;
+
+  return { connection, requests };
+}
+
+const pubkeys = Array.from({ length: 250 }, () => Keypair.generate().publicKey);
+
+// The public keys the accounts hold, null for missing accounts
+const keysOf = (accounts: (AccountInfo<Buffer> | null)[]) =>
+  accounts.map((account) => (account ? new PublicKey(account.data).toBase58() : null));
+
+describe("getMultipleAccountsAtSlot", () => {
+  it("reads up to 100 accounts in a single request", async () => {
+    const { connection, requests } = createFakeConnection([10], [pubkeys[1]]);
+    const { slot, accounts } = await getMultipleAccountsAtSlot(connection, pubkeys.slice(0, 100));
+
+    assert.equal(slot, 10);
+    assert.deepEqual(requests, [{ size: 100, minContextSlot: undefined }]);
+    assert.deepEqual(keysOf(accounts), [
+      pubkeys[0].toBase58(),
+      null,
+      ...pubkeys.slice(2, 100).map((pubkey) => pubkey.toBase58()),
+    ]);
+  });
+
+  it("reads the later chunks from the first chunk's slot or later", async () => {
+    const { connection, requests } = createFakeConnection([10]);
+    const { slot, accounts } = await getMultipleAccountsAtSlot(connection, pubkeys);
+
+    assert.equal(slot, 10);
+    assert.deepEqual(
+      requests.map(({ size, minContextSlot }) => [size, minContextSlot]),
+      [
+        [100, undefined],
+        [100, 10],
+        [50, 10],
+      ],
+    );
+    assert.deepEqual(keysOf(accounts), pubkeys.map((pubkey) => pubkey.toBase58()));
+  });
+
+  it("reads every chunk again from the latest slot when the chunks were read at different slots", async () => {
+    // The second chunk is served by a node that's ahead
+    const { connection, requests } = createFakeConnection([10, 12, 12, 12]);
+    const { slot, accounts } = await getMultipleAccountsAtSlot(connection, pubkeys);
+
+    assert.equal(slot, 12);
+    assert.deepEqual(
+      requests.map(({ minContextSlot }) => minContextSlot),
+      [undefined, 10, 12, 12, 12, 12],
+    );
+    assert.equal(accounts.length, pubkeys.length);
+  });
+
+  it("throws when the chunks are still read at different slots after maxAttempts", async () => {
+    // Every request lands a slot later than the previous one
+    const { connection, requests } = createFakeConnection(Array.from({ length: 10 }, (_, i) => 10 + i));
+
+    await assert.rejects(
+      getMultipleAccountsAtSlot(connection, pubkeys, { maxAttempts: 2 }),
+      /Could not read 250 accounts at a single slot after 2 attempts/,
+    );
+    assert.equal(requests.length, 6);
+  });
+
+  it("returns the current slot when no accounts are requested", async () => {
+    const { connection, requests } = createFakeConnection([10]);
+
+    assert.deepEqual(await getMultipleAccountsAtSlot(connection, []), { slot: 42, accounts: [] });
+    assert.equal(requests.length, 0);
+  });
+});
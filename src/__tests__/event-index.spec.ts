@@ -0,0 +1,258 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BN } from "@coral-xyz/anchor";
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  PublicKey,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { EventIndex } from "../event-index";
+import { DecodedEvent, getEventKey } from "../events";
+import { loadEventFixtures, toTransactionResponse } from "./helpers";
+
+const POSITION = new PublicKey("5RUuGzjQB7PZ9dYh1UAAJw1c2mBTsNfGx1cYDxVyXJsE");
+
+// A connection serving a position PDA's signature history (newest first) and its transactions, which have no
+// events unless they're in `transactions`
+function createFakeConnection(
+  history: ConfirmedSignatureInfo[],
+  transactions: Record<string, VersionedTransactionResponse> = {},
+) {
+  const fetchedSignatures: string[] = [];
+
+  const connection = {
+    getSignaturesForAddress: async (
+      _address: PublicKey,
+      { before, until, limit }: { before?: string; until?: string; limit: number },
+    ) => {
+      const start = before ? history.findIndex(({ signature }) => signature === before) + 1 : 0;
+      const end = until ? history.findIndex(({ signature }) => signature === until) : history.length;
+
+      return history.slice(start, end).slice(0, limit);
+    },
+    getTransactions: async (signatures: string[]) => {
+      fetchedSignatures.push(...signatures);
+      return signatures.map((signature) => transactions[signature] ?? { meta: null });
+    },
+    getTransaction: async (signature: string) => {
+      fetchedSignatures.push(signature);
+      return transactions[signature] ?? { meta: null };
+    },
+    // The node doesn't have the block times of the slots missing them
+    getBlockTime: async () => null,
+  } as unknown as Connection;
+
+  return { connection, fetchedSignatures };
+}
+
+// Signature `sig-n` at block time `1000 + n * 100`, newest first
+const makeHistory = (count: number): ConfirmedSignatureInfo[] =>
+  Array.from({ length: count }, (_, i) => count - 1 - i).map((n) => ({
+    signature: `sig-${n}`,
+    slot: n,
+    blockTime: 1000 + n * 100,
+    err: null,
+    memo: null,
+  }));
+
+describe("EventIndex.indexPosition", () => {
+  it("backfills history older than the first run's fromBlockTime", async () => {
+    const history = makeHistory(10);
+    const { connection, fetchedSignatures } = createFakeConnection(history);
+    const index = new EventIndex(connection, ":memory:");
+
+    try {
+      assert.equal(await index.indexPosition(POSITION, { fromBlockTime: 1700 }), 3);
+      assert.deepEqual(fetchedSignatures.splice(0), ["sig-7", "sig-8", "sig-9"]);
+      assert.deepEqual(index.getIndexedRange(POSITION), {
+        lastSignature: "sig-9",
+        oldestSignature: "sig-7",
+        oldestBlockTime: 1700,
+        complete: false,
+      });
+
+      // An earlier range only fetches the signatures older than the indexed ones
+      assert.equal(await index.indexPosition(POSITION, { fromBlockTime: 1400 }), 3);
+      assert.deepEqual(fetchedSignatures.splice(0).sort(), ["sig-4", "sig-5", "sig-6"]);
+      assert.equal(index.getIndexedRange(POSITION)?.oldestSignature, "sig-4");
+
+      // The range is already indexed
+      assert.equal(await index.indexPosition(POSITION, { fromBlockTime: 1500 }), 0);
+
+      // No `fromBlockTime` backfills to the PDA's first signature
+      assert.equal(await index.indexPosition(POSITION), 4);
+      assert.deepEqual(fetchedSignatures.splice(0).sort(), ["sig-0", "sig-1", "sig-2", "sig-3"]);
+      assert.deepEqual(index.getIndexedRange(POSITION), {
+        lastSignature: "sig-9",
+        oldestSignature: "sig-0",
+        oldestBlockTime: 1000,
+        complete: true,
+      });
+
+      assert.equal(await index.indexPosition(POSITION, { fromBlockTime: 0 }), 0);
+      assert.deepEqual(fetchedSignatures, []);
+    } finally {
+      index.close();
+    }
+  });
+
+  it("only fetches the signatures added since the last run", async () => {
+    const history = makeHistory(5);
+    const { connection, fetchedSignatures } = createFakeConnection(history);
+    const index = new EventIndex(connection, ":memory:");
+
+    try {
+      assert.equal(await index.indexPosition(POSITION), 5);
+      assert.equal(index.getIndexedRange(POSITION)?.complete, true);
+
+      history.unshift(...makeHistory(7).slice(0, 2));
+      fetchedSignatures.splice(0);
+
+      assert.equal(await index.indexPosition(POSITION, { fromBlockTime: 0 }), 2);
+      assert.deepEqual(fetchedSignatures, ["sig-5", "sig-6"]);
+      assert.equal(index.getLastIndexedSignature(POSITION), "sig-6");
+    } finally {
+      index.close();
+    }
+  });
+});
+
+describe("EventIndex.getEvents", () => {
+  const recordedEvents = loadEventFixtures("recorded-sol-long-events.json");
+  const { positionKey, sizeUsdDelta } = recordedEvents[0].event.data as { positionKey: PublicKey; sizeUsdDelta: BN };
+
+  // `sig-n` emits the recorded event n. Slot 5 holds `sig-5` to `sig-8` and slot 26 `sig-26` and `sig-27`, every
+  // transaction of a slot has its block time
+  const slotOf = (n: number) => (n >= 5 && n <= 8 ? 5 : n === 27 ? 26 : n);
+  const signatureInfo = (n: number): ConfirmedSignatureInfo => ({
+    signature: `sig-${n}`,
+    slot: slotOf(n),
+    blockTime: 1000 + slotOf(n) * 100,
+    err: null,
+    memo: null,
+  });
+  const emittedEvent = (n: number, instructionIndex = 0, innerInstructionIndex = 0): DecodedEvent => ({
+    ...recordedEvents[n],
+    signature: `sig-${n}`,
+    slot: slotOf(n),
+    blockTime: 1000 + slotOf(n) * 100,
+    instructionIndex,
+    innerInstructionIndex,
+  });
+
+  const eventsBySignature = new Map(
+    Array.from({ length: 30 }, (_, n) => [`sig-${n}`, [emittedEvent(n, 1, 0)]]),
+  );
+  // `sig-12` also emits the recorded event 30 from an earlier instruction, and `sig-30` is added to slot 29 later
+  eventsBySignature
+    .get("sig-12")
+    ?.push({ ...emittedEvent(30, 0, 3), signature: "sig-12", slot: 12, blockTime: 2200 });
+  eventsBySignature.set("sig-30", [
+    { ...emittedEvent(31, 2, 1), signature: "sig-30", slot: 29, blockTime: 3900 },
+  ]);
+  const allEvents = [...eventsBySignature.values()].flat();
+
+  const transactions = Object.fromEntries(
+    Array.from(eventsBySignature, ([signature, events]) => [signature, toTransactionResponse(events)]),
+  );
+  const expectedOrder = [
+    ...Array.from({ length: 30 }, (_, n) =>
+      n === 12 ? ["sig-12:0:3", "sig-12:1:0"] : [`sig-${n}:1:0`],
+    ).flat(),
+    "sig-30:2:1",
+  ];
+
+  const getEventKeys = (events: DecodedEvent[]) => events.map(getEventKey);
+
+  // `BN` and `PublicKey` values as their JSON strings
+  const toJson = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+  it("reads back stored events in the order they were emitted", async () => {
+    const history = Array.from({ length: 30 }, (_, i) => signatureInfo(29 - i));
+    const index = new EventIndex(createFakeConnection(history, transactions).connection, ":memory:");
+
+    try {
+      // The backfill's batches of 20 split slot 5 between `sig-8` and `sig-7`
+      assert.equal(await index.indexPosition(positionKey, { fromBlockTime: 3800 }), 2);
+      assert.equal(await index.indexPosition(positionKey), 28);
+
+      // A new transaction in the last indexed slot
+      history.unshift({ ...signatureInfo(30), slot: 29, blockTime: 3900 });
+      assert.equal(await index.indexPosition(positionKey), 1);
+
+      const events = index.getEvents();
+
+      assert.deepEqual(getEventKeys(events), expectedOrder);
+      assert.deepEqual(
+        toJson(events),
+        toJson(expectedOrder.map((key) => allEvents.find((evt) => getEventKey(evt) === key))),
+      );
+    } finally {
+      index.close();
+    }
+  });
+
+  it("revives BN and PublicKey fields", async () => {
+    const history = [signatureInfo(0)];
+    const index = new EventIndex(createFakeConnection(history, transactions).connection, ":memory:");
+
+    try {
+      await index.indexPosition(positionKey);
+
+      const [{ event }] = index.getEvents();
+
+      assert.equal(event.name, "InstantIncreasePositionEvent");
+      assert.ok("positionKey" in event.data && event.data.positionKey instanceof PublicKey);
+      assert.ok(event.data.positionKey.equals(positionKey));
+      assert.ok("sizeUsdDelta" in event.data && event.data.sizeUsdDelta instanceof BN);
+      assert.ok(event.data.sizeUsdDelta.eq(sizeUsdDelta));
+    } finally {
+      index.close();
+    }
+  });
+
+  it("filters by position and block time", async () => {
+    const history = Array.from({ length: 30 }, (_, i) => signatureInfo(29 - i));
+    const index = new EventIndex(createFakeConnection(history, transactions).connection, ":memory:");
+
+    try {
+      await index.indexPosition(positionKey);
+
+      assert.deepEqual(index.getEvents({ positionKeys: [PublicKey.default] }), []);
+      assert.equal(index.getEvents({ positionKeys: [positionKey.toBase58()] }).length, 31);
+      // Block times 1500 (slot 5) to 1900
+      assert.deepEqual(getEventKeys(index.getEvents({ fromBlockTime: 1500, toBlockTime: 1900 })), [
+        "sig-5:1:0",
+        "sig-6:1:0",
+        "sig-7:1:0",
+        "sig-8:1:0",
+        "sig-9:1:0",
+      ]);
+    } finally {
+      index.close();
+    }
+  });
+
+  it("only returns events without a block time when asked to", async () => {
+    const history = [signatureInfo(1), { ...signatureInfo(0), blockTime: null }];
+    const withoutBlockTime = {
+      ...transactions,
+      "sig-0": toTransactionResponse([{ ...emittedEvent(0, 1, 0), blockTime: null }]),
+    };
+    const index = new EventIndex(createFakeConnection(history, withoutBlockTime).connection, ":memory:");
+
+    try {
+      await index.indexPosition(positionKey);
+
+      assert.deepEqual(getEventKeys(index.getEvents({ fromBlockTime: 1000 })), ["sig-1:1:0"]);
+      assert.deepEqual(
+        getEventKeys(index.getEvents({ fromBlockTime: 1000, includeMissingBlockTime: true })),
+        ["sig-0:1:0", "sig-1:1:0"],
+      );
+      assert.equal(index.getEvents({ includeMissingBlockTime: true })[0].blockTime, null);
+    } finally {
+      index.close();
+    }
+  });
+});
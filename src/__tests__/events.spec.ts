@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CUSTODY_PUBKEY, JLP_POOL_ACCOUNT_PUBKEY } from "../constants";
+import { DecodedEvent, decodeTransactionEvents, getEventKey, sortEvents } from "../events";
+import { loadEventFixtures, toDecodedEvent, toTransactionResponse } from "./helpers";
+
+const OWNER = "CZKPYBkGXg1G6W8EXLxHDLRwsYtMz8TBk1qfPgCMzxG1";
+
+// A pool swap emitted by `instructionIndex` and `innerInstructionIndex` of transaction `signature`. Every
+// transaction lands in the same second so only the slot and the indexes order them
+const swapEvent = (
+  signature: string,
+  slot: number,
+  instructionIndex: number,
+  innerInstructionIndex: number,
+) =>
+  toDecodedEvent({
+    name: "PoolSwapEvent",
+    signature,
+    slot,
+    blockTime: 1_700_000_000,
+    instructionIndex,
+    innerInstructionIndex,
+    data: {
+      receivingCustodyKey: CUSTODY_PUBKEY.SOL,
+      dispensingCustodyKey: CUSTODY_PUBKEY.USDC,
+      poolKey: JLP_POOL_ACCOUNT_PUBKEY.toBase58(),
+      amountIn: "1000000000",
+      amountOut: "150000000",
+      swapUsdAmount: "150000000",
+      amountOutAfterFees: "149850000",
+      feeBps: "10",
+      ownerKey: OWNER,
+      receivingAccountKey: OWNER,
+    },
+  });
+
+const keys = (events: DecodedEvent[]) => events.map(getEventKey);
+
+// `BN` and `PublicKey` values as their JSON strings, so decoded and fixture events can be compared
+const toJson = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+describe("sortEvents", () => {
+  it("orders events by slot before the order they're passed in", () => {
+    const events = [swapEvent("c", 302, 0, 0), swapEvent("a", 300, 0, 0), swapEvent("b", 301, 0, 0)];
+
+    assert.deepEqual(keys(sortEvents(events)), ["a:0:0", "b:0:0", "c:0:0"]);
+  });
+
+  it("keeps the passed order of transactions in the same slot", () => {
+    // `b`'s events come first, even though `a` has lower instruction indexes
+    const events = [
+      swapEvent("b", 300, 2, 1),
+      swapEvent("a", 300, 0, 0),
+      swapEvent("b", 300, 1, 0),
+      swapEvent("a", 300, 1, 0),
+    ];
+
+    assert.deepEqual(keys(sortEvents(events)), ["b:1:0", "b:2:1", "a:0:0", "a:1:0"]);
+  });
+
+  it("orders a transaction's events by instruction and then inner instruction index", () => {
+    const events = [
+      swapEvent("a", 300, 3, 0),
+      swapEvent("a", 300, 1, 4),
+      swapEvent("a", 300, 3, 2),
+      swapEvent("a", 300, 1, 1),
+    ];
+
+    assert.deepEqual(keys(sortEvents(events)), ["a:1:1", "a:1:4", "a:3:0", "a:3:2"]);
+  });
+
+  it("drops events fetched twice", () => {
+    const first = swapEvent("a", 300, 0, 0);
+    const events = [first, swapEvent("b", 301, 0, 0), swapEvent("a", 300, 0, 0)];
+    const sorted = sortEvents(events);
+
+    assert.deepEqual(keys(sorted), ["a:0:0", "b:0:0"]);
+    assert.equal(sorted[0], first);
+  });
+});
+
+describe("decodeTransactionEvents", () => {
+  const recordedEvents = loadEventFixtures("recorded-sol-long-events.json");
+
+  it("decodes the events emitted as self-CPIs", () => {
+    recordedEvents.forEach((evt) => {
+      assert.deepEqual(toJson(decodeTransactionEvents(toTransactionResponse([evt]))), toJson([evt]));
+    });
+  });
+
+  it("returns a transaction's events by instruction and inner instruction index, skipping other programs", () => {
+    const [increase, tpsl] = recordedEvents;
+    const events = [
+      { ...tpsl, signature: increase.signature, instructionIndex: 2, innerInstructionIndex: 3 },
+      { ...increase, instructionIndex: 1, innerInstructionIndex: 2 },
+    ];
+    const tx = toTransactionResponse(events);
+
+    // The System Program calls filling the inner instructions before each event aren't events
+    assert.deepEqual(
+      tx.meta?.innerInstructions?.map(({ instructions }) => instructions.length),
+      [4, 3],
+    );
+    assert.deepEqual(keys(decodeTransactionEvents(tx)), [
+      `${increase.signature}:1:2`,
+      `${increase.signature}:2:3`,
+    ]);
+  });
+
+  it("returns no events for failed transactions", () => {
+    const tx = toTransactionResponse([recordedEvents[0]]);
+
+    assert.deepEqual(
+      decodeTransactionEvents({ ...tx, meta: { ...tx.meta!, err: { InstructionError: [0, "Custom"] } } }),
+      [],
+    );
+  });
+});
@@ -0,0 +1,235 @@
+import { BN, BorshCoder, Idl, eventDiscriminator, utils } from "@coral-xyz/anchor";
+import { Message, PublicKey, SystemProgram, VersionedTransactionResponse } from "@solana/web3.js";
+import { readFileSync } from "fs";
+import path from "path";
+import { JUPITER_PERPETUALS_PROGRAM_ID } from "../constants";
+import { DecodedEvent, PerpetualsEvent } from "../events";
+import { IDL } from "../idl/jupiter-perpetuals-idl";
+import { Custody, Position } from "../types";
+
+// An event as stored in the fixtures: integers as decimal strings and public keys as base58 strings
+export interface EventFixture {
+  name: string;
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  instructionIndex?: number;
+  innerInstructionIndex?: number;
+  data: Record<string, unknown>;
+}
+
+type IdlFieldType = string | { option: IdlFieldType };
+
+const idlEvents = IDL.events as unknown as {
+  name: string;
+  fields: { name: string; type: IdlFieldType }[];
+}[];
+
+const toFieldValue = (type: IdlFieldType, value: unknown): unknown => {
+  if (value === null) return null;
+  if (typeof type === "object") return toFieldValue(type.option, value);
+  if (type === "publicKey") return new PublicKey(value as string);
+  if (type === "u64" || type === "i64" || type === "u128") return new BN(value as string);
+
+  return value;
+};
+
+// Converts a fixture to the event `decodeTransactionEvents` would return, using the IDL's field types
+export function toDecodedEvent(fixture: EventFixture): DecodedEvent {
+  const idlEvent = idlEvents.find(({ name }) => name === fixture.name);
+
+  if (!idlEvent) throw new Error(`Unknown event ${fixture.name}`);
+
+  const data = Object.fromEntries(
+    idlEvent.fields.map(({ name, type }) => {
+      if (!(name in fixture.data)) {
+        throw new Error(`${fixture.name} fixture is missing ${name}`);
+      }
+
+      return [name, toFieldValue(type, fixture.data[name])];
+    }),
+  );
+
+  return {
+    event: { name: fixture.name, data } as PerpetualsEvent,
+    signature: fixture.signature,
+    slot: fixture.slot,
+    blockTime: fixture.blockTime,
+    instructionIndex: fixture.instructionIndex ?? 0,
+    innerInstructionIndex: fixture.innerInstructionIndex ?? 0,
+    feeInLamports: 5000,
+  };
+}
+
+// Reads a JSON array of `EventFixture` from `src/__tests__/fixtures`
+export function loadEventFixtures(fileName: string): DecodedEvent[] {
+  const fixtures = JSON.parse(
+    readFileSync(path.join(__dirname, "fixtures", fileName), "utf8"),
+  ) as EventFixture[];
+
+  return fixtures.map(toDecodedEvent);
+}
+
+// The events' fields as types, so they can be encoded with the types coder
+const eventTypesCoder = new BorshCoder({
+  ...IDL,
+  types: [
+    ...IDL.types,
+    ...idlEvents.map(({ name, fields }) => ({ name, type: { kind: "struct", fields } })),
+  ],
+} as unknown as Idl);
+
+// Anchor's `EVENT_IX_TAG` as emitted on-chain
+const EVENT_IX_TAG = Buffer.from("e445a52e51cb9a1d", "hex");
+
+// The base58 data of the self-CPI `emit_cpi!` emits `event` with: the event tag, the discriminator and the fields
+export const encodeEventCpiData = (event: PerpetualsEvent) =>
+  utils.bytes.bs58.encode(
+    Buffer.concat([
+      EVENT_IX_TAG,
+      eventDiscriminator(event.name),
+      eventTypesCoder.types.encode(event.name, event.data),
+    ]),
+  );
+
+/**
+ * A legacy `getTransaction` response emitting `events` (all from the same transaction) from their instruction
+ * and inner instruction indexes. Inner instructions before an event are System Program calls
+ */
+export function toTransactionResponse(events: DecodedEvent[]): VersionedTransactionResponse {
+  const [{ signature, slot, blockTime }] = events;
+  const message = new Message({
+    header: { numRequiredSignatures: 1, numReadonlySignedAccounts: 0, numReadonlyUnsignedAccounts: 2 },
+    accountKeys: [
+      PublicKey.default.toBase58(),
+      SystemProgram.programId.toBase58(),
+      JUPITER_PERPETUALS_PROGRAM_ID.toBase58(),
+    ],
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [],
+  });
+  const innerInstructions = new Map<number, { programIdIndex: number; accounts: number[]; data: string }[]>();
+
+  events.forEach((evt) => {
+    const instructions = innerInstructions.get(evt.instructionIndex) ?? [];
+
+    while (instructions.length <= evt.innerInstructionIndex) {
+      instructions.push({ programIdIndex: 1, accounts: [], data: "" });
+    }
+
+    instructions[evt.innerInstructionIndex] = {
+      programIdIndex: 2,
+      accounts: [],
+      data: encodeEventCpiData(evt.event),
+    };
+    innerInstructions.set(evt.instructionIndex, instructions);
+  });
+
+  return {
+    slot,
+    blockTime,
+    version: "legacy",
+    transaction: { message, signatures: [signature] },
+    meta: {
+      err: null,
+      fee: 5000,
+      innerInstructions: Array.from(innerInstructions, ([index, instructions]) => ({ index, instructions })),
+      loadedAddresses: { writable: [], readonly: [] },
+      preBalances: [],
+      postBalances: [],
+    },
+  } as unknown as VersionedTransactionResponse;
+}
+
+// USD with 6 decimals, e.g. `usd("26478.24")` or `usd("-197.92")`
+export const usd = (value: string) => {
+  const [integer, fraction = ""] = value.replace("-", "").split(".");
+  const amount = new BN(integer).mul(new BN(1_000_000)).add(new BN(fraction.padEnd(6, "0")));
+
+  return value.startsWith("-") ? amount.neg() : amount;
+};
+
+export interface CustodyParams {
+  increasePositionBps?: number;
+  decreasePositionBps?: number;
+  // In BPS, e.g. 5_000_000 for 500x
+  maxLeverage?: number;
+  // USD with 6 decimals
+  tradeImpactFeeScalar?: BN;
+  cumulativeInterestRate?: BN;
+  lastUpdate?: number;
+  isStable?: boolean;
+  decimals?: number;
+}
+
+/**
+ * Builds a custody with the fields the fee and liquidation math reads. The borrow rate is flat (no assets
+ * owned), so borrow fees only come from `cumulativeInterestRate`
+ */
+export function makeCustody({
+  increasePositionBps = 6,
+  decreasePositionBps = 6,
+  maxLeverage = 5_000_000,
+  tradeImpactFeeScalar = usd("1250000000"),
+  cumulativeInterestRate = new BN(0),
+  lastUpdate = 0,
+  isStable = false,
+  decimals = 9,
+}: CustodyParams = {}): Custody {
+  return {
+    decimals,
+    isStable,
+    increasePositionBps: new BN(increasePositionBps),
+    decreasePositionBps: new BN(decreasePositionBps),
+    pricing: {
+      tradeImpactFeeScalar,
+      buffer: new BN(0),
+      swapSpread: new BN(0),
+      maxLeverage: new BN(maxLeverage),
+      maxGlobalLongSizes: new BN(0),
+      maxGlobalShortSizes: new BN(0),
+    },
+    assets: {
+      feesReserves: new BN(0),
+      owned: new BN(0),
+      locked: new BN(0),
+      guaranteedUsd: new BN(0),
+      globalShortSizes: new BN(0),
+      globalShortAveragePrices: new BN(0),
+    },
+    fundingRateState: {
+      cumulativeInterestRate,
+      lastUpdate: new BN(lastUpdate),
+      hourlyFundingDbps: new BN(0),
+    },
+    jumpRateState: {
+      minRateBps: new BN(0),
+      maxRateBps: new BN(0),
+      targetRateBps: new BN(0),
+      targetUtilizationRate: new BN(0),
+    },
+  } as unknown as Custody;
+}
+
+export function makePosition({
+  side,
+  sizeUsd,
+  collateralUsd,
+  price,
+  cumulativeInterestSnapshot = new BN(0),
+}: {
+  side: "long" | "short";
+  sizeUsd: BN;
+  collateralUsd: BN;
+  price: BN;
+  cumulativeInterestSnapshot?: BN;
+}): Position {
+  return {
+    side: side === "long" ? { long: {} } : { short: {} },
+    sizeUsd,
+    collateralUsd,
+    price,
+    cumulativeInterestSnapshot,
+    realisedPnlUsd: new BN(0),
+  } as unknown as Position;
+}
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getLiquidationReport } from "../liquidation-report";
+import { groupEventsIntoTrades } from "../trades";
+import { loadEventFixtures, makeCustody, usd } from "./helpers";
+
+// The most recent trade of the recorded SOL long was liquidated. Its custody is its own collateral custody, with
+// 500x max leverage, a 6 BPS close fee and a 1 BPS price impact fee for trades up to $125,000
+const { completedTrades } = groupEventsIntoTrades(loadEventFixtures("recorded-sol-long-events.json"));
+const [liquidated, instantClose] = completedTrades;
+const custodies = { [liquidated.positionCustody.toBase58()]: makeCustody() };
+
+const toStrings = (values: Record<string, { toString(): string }>) =>
+  Object.fromEntries(Object.entries(values).map(([key, value]) => [key, value.toString()]));
+
+describe("getLiquidationReport", () => {
+  const report = getLiquidationReport(liquidated, custodies);
+
+  it("rebuilds the position before the liquidation from its fills", () => {
+    assert.ok(report);
+    assert.equal(report.fill, liquidated.fills[1]);
+    assert.deepEqual(
+      toStrings({
+        sizeUsd: report.sizeUsd,
+        // $284.68 of collateral less the $18.53 open fee
+        collateralUsd: report.collateralUsd,
+        entryPrice: report.entryPrice,
+        oraclePrice: report.oraclePrice,
+      }),
+      toStrings({
+        sizeUsd: usd("26478.24"),
+        collateralUsd: usd("266.15"),
+        entryPrice: usd("149.06"),
+        oraclePrice: usd("147.94"),
+      }),
+    );
+  });
+
+  it("splits the liquidation's $19.87 fee into the close, price impact and borrow fees", () => {
+    assert.ok(report);
+    assert.deepEqual(
+      toStrings({
+        closeFeeUsd: report.closeFeeUsd,
+        priceImpactFeeUsd: report.priceImpactFeeUsd,
+        borrowFeeUsd: report.borrowFeeUsd,
+        liquidationFeeUsd: report.liquidationFeeUsd,
+        pnlUsd: report.pnlUsd,
+        transferAmountUsd: report.transferAmountUsd,
+      }),
+      toStrings({
+        // 6 BPS and 1 BPS of $26,478.24, the rest was borrow fees
+        closeFeeUsd: usd("15.886944"),
+        priceImpactFeeUsd: usd("2.647824"),
+        borrowFeeUsd: usd("1.335232"),
+        liquidationFeeUsd: usd("48.35"),
+        pnlUsd: usd("-197.92"),
+        transferAmountUsd: usd("0"),
+      }),
+    );
+  });
+
+  it("computes the liquidation price from the position and the fees charged", () => {
+    assert.ok(report);
+    // Max loss = $26,478.24 / 500 + $19.87, $149.06 - ($266.15 - $72.82648) * $149.06 / $26,478.24
+    assert.equal(report.maxLossUsd.toString(), usd("72.82648").toString());
+    assert.equal(report.liquidationPrice.toString(), usd("147.97168").toString());
+    assert.ok(report.liquidationPrice.gte(report.oraclePrice));
+  });
+
+  it("measures the distance to the liquidation price after each earlier fill", () => {
+    assert.ok(report);
+    assert.equal(report.fillDistances.length, 1);
+
+    const [{ fill, ...distance }] = report.fillDistances;
+
+    assert.equal(fill, liquidated.fills[0]);
+    // Without borrow fees right after the increase: max loss = $52.95648 + $15.886944 + $2.647824 = $71.491248
+    assert.deepEqual(
+      toStrings(distance),
+      toStrings({
+        markPrice: usd("149.06"),
+        sizeUsd: usd("26478.24"),
+        collateralUsd: usd("266.15"),
+        entryPrice: usd("149.06"),
+        liquidationPrice: usd("147.964164"),
+        distanceUsd: usd("1.095836"),
+        distanceBps: 73,
+      }),
+    );
+  });
+
+  it("returns null for trades that weren't liquidated", () => {
+    assert.equal(getLiquidationReport(instantClose, custodies), null);
+  });
+
+  it("throws without the trade's custody", () => {
+    assert.throws(() => getLiquidationReport(liquidated, {}), /Missing custody/);
+  });
+});
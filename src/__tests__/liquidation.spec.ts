@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BN } from "@coral-xyz/anchor";
+import { computeLiquidationPrice, getLiquidationPrice } from "../liquidation";
+import { makeCustody, makePosition, usd } from "./helpers";
+
+const NOW = new BN(1_744_500_000);
+
+// 500x max leverage, 6 BPS close fee and a 1 BPS price impact fee for a $10,000 trade
+const custody = makeCustody({
+  maxLeverage: 5_000_000,
+  decreasePositionBps: 6,
+  lastUpdate: NOW.toNumber(),
+});
+
+describe("computeLiquidationPrice", () => {
+  // Close fee $6 + price impact fee $1, max loss = $10,000 / 500 + $7 = $27
+  it("computes a long's liquidation price below its entry price", () => {
+    const position = makePosition({
+      side: "long",
+      sizeUsd: usd("10000"),
+      collateralUsd: usd("1000"),
+      price: usd("100"),
+    });
+    const result = computeLiquidationPrice(position, custody, custody, NOW);
+
+    assert.ok(result);
+    assert.ok(result.fees.closeBaseFeeUsd.eq(usd("6")));
+    assert.ok(result.fees.priceImpactFeeUsd.eq(usd("1")));
+    assert.ok(result.fees.borrowFeeUsd.isZero());
+    assert.ok(result.maxLossUsd.eq(usd("27")));
+    // $100 - ($1,000 - $27) * $100 / $10,000
+    assert.equal(result.liquidationPrice.toString(), usd("90.27").toString());
+  });
+
+  it("computes a short's liquidation price above its entry price with borrow fees from the collateral custody", () => {
+    // 0.1% of the size accrued since the position's snapshot on the USDC custody
+    const collateralCustody = makeCustody({
+      isStable: true,
+      decimals: 6,
+      cumulativeInterestRate: new BN(1_001_000),
+      lastUpdate: NOW.toNumber(),
+    });
+    const position = makePosition({
+      side: "short",
+      sizeUsd: usd("10000"),
+      collateralUsd: usd("1000"),
+      price: usd("100"),
+      cumulativeInterestSnapshot: new BN(1_000),
+    });
+    const result = computeLiquidationPrice(position, custody, collateralCustody, NOW);
+
+    assert.ok(result);
+    assert.ok(result.fees.borrowFeeUsd.eq(usd("10")));
+    assert.ok(result.fees.totalFeeUsd.eq(usd("17")));
+    // $100 + ($1,000 - $37) * $100 / $10,000
+    assert.equal(result.liquidationPrice.toString(), usd("109.63").toString());
+  });
+
+  it("puts the liquidation price on the other side of the entry price when the fees exceed the margin", () => {
+    const inputs = { sizeUsd: usd("10000"), collateralUsd: usd("15"), price: usd("100") };
+    const long = computeLiquidationPrice(
+      makePosition({ side: "long", ...inputs }),
+      custody,
+      custody,
+      NOW,
+    );
+    const short = computeLiquidationPrice(
+      makePosition({ side: "short", ...inputs }),
+      custody,
+      custody,
+      NOW,
+    );
+
+    // Max loss $27 > margin $15, so the price can move $12 * $100 / $10,000 = $0.12 against the fees
+    assert.equal(long?.liquidationPrice.toString(), usd("100.12").toString());
+    assert.equal(short?.liquidationPrice.toString(), usd("99.88").toString());
+  });
+
+  it("returns null for closed positions and clamps negative prices to zero", () => {
+    const closed = makePosition({
+      side: "long",
+      sizeUsd: new BN(0),
+      collateralUsd: new BN(0),
+      price: usd("100"),
+    });
+    const overCollateralized = makePosition({
+      side: "long",
+      sizeUsd: usd("1000"),
+      collateralUsd: usd("2000"),
+      price: usd("100"),
+    });
+
+    assert.equal(computeLiquidationPrice(closed, custody, custody, NOW), null);
+    assert.ok(
+      computeLiquidationPrice(overCollateralized, custody, custody, NOW)?.liquidationPrice.isZero(),
+    );
+  });
+});
+
+describe("getLiquidationPrice with a recorded liquidation", () => {
+  // The SOL long liquidated at $147.94 in `recorded-sol-long-events.json`: opened with $284.68 of collateral minus
+  // the $18.53 open fee at $149.06, and charged $19.87 of close and borrow fees when liquidated. The custody's
+  // max leverage isn't part of the recording, 500x is assumed
+  it("puts the liquidation price between the entry price and the price it was liquidated at", () => {
+    const { liquidationPrice } = getLiquidationPrice(
+      {
+        side: "long",
+        sizeUsd: usd("26478.24"),
+        collateralUsd: usd("284.68").sub(usd("18.53")),
+        entryPrice: usd("149.06"),
+      },
+      makeCustody({ maxLeverage: 5_000_000 }),
+      usd("19.87"),
+    );
+
+    // $149.06 - ($266.15 - $52.956480 - $19.87) * $149.06 / $26,478.24
+    assert.equal(liquidationPrice.toString(), usd("147.97168").toString());
+    assert.ok(liquidationPrice.gte(usd("147.94")));
+    assert.ok(liquidationPrice.lt(usd("149.06")));
+  });
+});
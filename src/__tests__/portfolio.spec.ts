@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BN } from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import type { PositionWithInfo } from "../client";
+import { CUSTODY_PUBKEY } from "../constants";
+import { computeLiquidationPrice } from "../liquidation";
+import { computePortfolioSnapshot } from "../portfolio";
+import { MarkPrice } from "../types";
+import { makeCustody, makePosition, usd } from "./helpers";
+
+const NOW = new BN(1_744_500_000);
+const WALLET = new PublicKey("CZKPYBkGXg1G6W8EXLxHDLRwsYtMz8TBk1qfPgCMzxG1");
+
+// 500x max leverage, 6 BPS close fees and 1 BPS price impact fees up to $125,000. Borrow fees of 0.1% of the size
+// accrued on the USDC custody since the short's snapshot
+const custodies = {
+  [CUSTODY_PUBKEY.SOL]: makeCustody({ lastUpdate: NOW.toNumber() }),
+  [CUSTODY_PUBKEY.ETH]: makeCustody({ lastUpdate: NOW.toNumber() }),
+  [CUSTODY_PUBKEY.BTC]: makeCustody({ decimals: 8, lastUpdate: NOW.toNumber() }),
+  [CUSTODY_PUBKEY.USDC]: makeCustody({
+    isStable: true,
+    decimals: 6,
+    cumulativeInterestRate: new BN(1_001_000),
+    lastUpdate: NOW.toNumber(),
+  }),
+};
+
+const markPrice = (price: BN, expo: number): MarkPrice => ({
+  price,
+  priceUsd: "",
+  timestamp: NOW.toNumber(),
+  formattedTimestamp: "",
+  expo,
+});
+
+// Doves prices with 8 and 6 decimals, no price for BTC
+const markPrices = {
+  [CUSTODY_PUBKEY.SOL]: markPrice(new BN(11_000_000_000), -8),
+  [CUSTODY_PUBKEY.ETH]: markPrice(usd("1900"), -6),
+};
+
+const positionWithInfo = (
+  custody: CUSTODY_PUBKEY,
+  collateralCustody: CUSTODY_PUBKEY,
+  position: Parameters<typeof makePosition>[0],
+) =>
+  ({
+    publicKey: Keypair.generate().publicKey,
+    account: {
+      ...makePosition(position),
+      custody: new PublicKey(custody),
+      collateralCustody: new PublicKey(collateralCustody),
+    },
+    positionInfo: { custody, collateralCustody },
+  }) as unknown as PositionWithInfo;
+
+const solLong = positionWithInfo(CUSTODY_PUBKEY.SOL, CUSTODY_PUBKEY.SOL, {
+  side: "long",
+  sizeUsd: usd("10000"),
+  collateralUsd: usd("1000"),
+  price: usd("100"),
+});
+const ethShort = positionWithInfo(CUSTODY_PUBKEY.ETH, CUSTODY_PUBKEY.USDC, {
+  side: "short",
+  sizeUsd: usd("5000"),
+  collateralUsd: usd("500"),
+  price: usd("2000"),
+  cumulativeInterestSnapshot: new BN(1_000),
+});
+const btcLong = positionWithInfo(CUSTODY_PUBKEY.BTC, CUSTODY_PUBKEY.BTC, {
+  side: "long",
+  sizeUsd: usd("20000"),
+  collateralUsd: usd("2000"),
+  price: usd("80000"),
+});
+const closed = positionWithInfo(CUSTODY_PUBKEY.SOL, CUSTODY_PUBKEY.SOL, {
+  side: "long",
+  sizeUsd: new BN(0),
+  collateralUsd: new BN(0),
+  price: usd("100"),
+});
+
+describe("computePortfolioSnapshot", () => {
+  const snapshot = computePortfolioSnapshot(
+    WALLET,
+    330_000_000,
+    [solLong, closed, ethShort, btcLong],
+    custodies,
+    markPrices,
+    NOW,
+  );
+  const [sol, eth, btc] = snapshot.openPositions;
+
+  it("splits the open and closed positions", () => {
+    assert.equal(snapshot.wallet, WALLET);
+    assert.equal(snapshot.slot, 330_000_000);
+    assert.deepEqual(
+      snapshot.openPositions.map(({ position }) => position),
+      [solLong, ethShort, btcLong],
+    );
+    assert.deepEqual(snapshot.closedPositions, [closed]);
+  });
+
+  it("values the positions at their mark price", () => {
+    // $10,000 * ($110 - $100) / $100, and $5,000 * ($2,000 - $1,900) / $2,000 for the short
+    assert.equal(sol.pnlUsd?.toString(), usd("1000").toString());
+    assert.equal(eth.pnlUsd?.toString(), usd("250").toString());
+    assert.equal(btc.markPrice, null);
+    assert.equal(btc.pnlUsd, null);
+  });
+
+  it("computes the liquidation prices with the borrow fees of the collateral custody", () => {
+    // $100 - ($1,000 - $20 - $6 close fee - $1 price impact fee) * $100 / $10,000
+    assert.equal(sol.liquidation?.liquidationPrice.toString(), usd("90.27").toString());
+    assert.ok(sol.liquidation?.fees.borrowFeeUsd.isZero());
+    assert.ok(eth.collateralCustody === custodies[CUSTODY_PUBKEY.USDC]);
+    assert.equal(eth.liquidation?.fees.borrowFeeUsd.toString(), usd("5").toString());
+    assert.deepEqual(
+      btc.liquidation,
+      computeLiquidationPrice(btcLong.account, custodies[CUSTODY_PUBKEY.BTC], custodies[CUSTODY_PUBKEY.BTC], NOW),
+    );
+  });
+
+  it("totals the open positions, leaving out the PNL of positions without a mark price", () => {
+    assert.equal(snapshot.totalSizeUsd.toString(), usd("35000").toString());
+    assert.equal(snapshot.totalCollateralUsd.toString(), usd("3500").toString());
+    assert.equal(snapshot.totalPnlUsd.toString(), usd("1250").toString());
+  });
+
+  it("throws when a position's collateral custody is missing", () => {
+    const { [CUSTODY_PUBKEY.USDC]: _, ...withoutUsdc } = custodies;
+
+    assert.throws(
+      () => computePortfolioSnapshot(WALLET, 330_000_000, [ethShort], withoutUsdc, markPrices, NOW),
+      new RegExp(`Missing custody accounts for position ${ethShort.publicKey.toBase58()}`),
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import assert from "node:assert/strict";
+import { after, describe, it } from "node:test";
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import { RpcPool, createPooledConnection } from "../rpc-pool";
+import { RpcScheduler } from "../rpc-scheduler";
+
+interface MockRpcBehaviour {
+  // Returned by `getSlot`, which always succeeds unless `failProbes` is set
+  slot: number;
+  // The status of every other request, answered with the endpoint's name as the result
+  status?: number;
+  // Close the connection instead of answering other requests, so `fetch` throws
+  dropRequests?: boolean;
+  failProbes?: boolean;
+  delayMs?: number;
+}
+
+const servers: ReturnType<typeof createServer>[] = [];
+
+// A JSON-RPC endpoint named `name`, whose behaviour can be changed between requests
+async function createMockRpcServer(name: string, behaviour: MockRpcBehaviour) {
+  const stats = { requests: 0, probes: 0 };
+
+  const server = createServer((req, res) => {
+    let body = "";
+
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      const { id, method } = JSON.parse(body) as { id: number; method: string };
+      const isProbe = method === "getSlot";
+
+      if (isProbe) stats.probes++;
+      else stats.requests++;
+
+      if (behaviour.delayMs) await new Promise((resolve) => setTimeout(resolve, behaviour.delayMs));
+
+      if (!isProbe && behaviour.dropRequests) {
+        req.socket.destroy();
+        return;
+      }
+
+      const status = isProbe ? (behaviour.failProbes ? 503 : 200) : (behaviour.status ?? 200);
+
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ jsonrpc: "2.0", id, result: isProbe ? behaviour.slot : name }));
+    });
+  });
+
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, behaviour, stats };
+}
+
+// Polls the endpoints again, so their slots are known whether or not the constructor's poll has finished
+async function createPool(urls: string[], options: ConstructorParameters<typeof RpcPool>[1] = {}) {
+  const pool = new RpcPool(urls, { probeIntervalMs: 60_000, ...options });
+
+  await pool.probe();
+
+  return pool;
+}
+
+// Sends a request through the pool and returns the name of the endpoint that answered it
+async function send(pool: RpcPool) {
+  const response = await pool.fetch("http://unused", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "getBalance", params: [] }),
+  });
+
+  return { status: response.status, result: ((await response.json()) as { result: string }).result };
+}
+
+const urlsOf = (pool: RpcPool) => pool.endpoints.map(({ url }) => url);
+
+describe("RpcPool", () => {
+  after(() => servers.forEach((server) => server.close()));
+
+  it("measures each endpoint's slot lag behind the most recent endpoint", async () => {
+    const latest = await createMockRpcServer("latest", { slot: 1000 });
+    const lagging = await createMockRpcServer("lagging", { slot: 995 });
+    const failing = await createMockRpcServer("failing", { slot: 1000, failProbes: true });
+    const pool = await createPool([latest.url, lagging.url, failing.url]);
+
+    const health = Object.fromEntries(pool.endpoints.map((endpoint) => [endpoint.url, endpoint]));
+
+    assert.deepEqual(
+      [latest, lagging, failing].map(({ url }) => [health[url].slot, health[url].slotLag]),
+      [
+        [1000, 0],
+        [995, 5],
+        // Never answered, so it's scored on its errors
+        [null, 0],
+      ],
+    );
+    assert.ok(health[failing.url].errorRate > 0);
+    pool.close();
+  });
+
+  it("scores endpoints on their latency, error rate and slot lag", async () => {
+    const fast = await createMockRpcServer("fast", { slot: 100 });
+    const slow = await createMockRpcServer("slow", { slot: 100, delayMs: 200 });
+    const lagging = await createMockRpcServer("lagging", { slot: 95 });
+    const pool = await createPool([lagging.url, slow.url, fast.url]);
+
+    // 5 slots behind weigh 2 seconds, more than the slow endpoint's 200ms
+    assert.deepEqual(urlsOf(pool), [fast.url, slow.url, lagging.url]);
+    assert.deepEqual(await send(pool), { status: 200, result: "fast" });
+
+    // A failed request raises the fast endpoint's error rate to 0.2, which weighs 400ms
+    fast.behaviour.status = 500;
+    assert.deepEqual(await send(pool), { status: 200, result: "slow" });
+    assert.deepEqual(urlsOf(pool), [slow.url, fast.url, lagging.url]);
+    pool.close();
+  });
+
+  for (const [failure, behaviour] of [
+    ["server errors", { status: 502 }],
+    ["rate limits", { status: 429 }],
+    ["thrown errors", { dropRequests: true }],
+  ] as const) {
+    it(`fails over to the next endpoint on ${failure}`, async () => {
+      const failing = await createMockRpcServer("failing", { slot: 100, ...behaviour });
+      // Ranked after the failing endpoint, as it lags behind
+      const backup = await createMockRpcServer("backup", { slot: 90 });
+      const pool = await createPool([failing.url, backup.url]);
+
+      assert.deepEqual(await send(pool), { status: 200, result: "backup" });
+      assert.equal(failing.stats.requests, 1);
+      assert.equal(pool.endpoints.find(({ url }) => url === failing.url)?.consecutiveErrors, 1);
+      pool.close();
+    });
+  }
+
+  it("returns the last endpoint's response when every endpoint fails, and throws when none answers", async () => {
+    const dropping = await createMockRpcServer("dropping", { slot: 100, dropRequests: true });
+    const unavailable = await createMockRpcServer("unavailable", { slot: 90, status: 503 });
+    const failing = await createPool([unavailable.url, dropping.url]);
+
+    assert.equal((await send(failing)).status, 503);
+    failing.close();
+
+    const dropped = await createPool([dropping.url]);
+
+    await assert.rejects(send(dropped));
+    dropped.close();
+  });
+
+  it("tries endpoints on cooldown last after `maxConsecutiveErrors` failed requests", async () => {
+    const failing = await createMockRpcServer("failing", { slot: 100, status: 500 });
+    const backup = await createMockRpcServer("backup", { slot: 90 });
+    const pool = await createPool([failing.url, backup.url], { maxConsecutiveErrors: 2, cooldownMs: 60_000 });
+
+    await send(pool);
+    assert.equal(pool.endpoints[0].url, failing.url);
+
+    await send(pool);
+    const health = pool.endpoints.find(({ url }) => url === failing.url)!;
+
+    // Its 0.36 error rate weighs less than the backup's slot lag, but the cooldown ranks it last
+    assert.equal(health.consecutiveErrors, 2);
+    assert.ok(health.cooldownUntil > Date.now());
+    assert.deepEqual(urlsOf(pool), [backup.url, failing.url]);
+    assert.deepEqual(await send(pool), { status: 200, result: "backup" });
+    assert.equal(failing.stats.requests, 2);
+    pool.close();
+  });
+
+  it("sends a pooled connection's requests to the healthiest endpoint", async () => {
+    const lagging = await createMockRpcServer("lagging", { slot: 90 });
+    const latest = await createMockRpcServer("latest", { slot: 100 });
+    const { connection, pool } = createPooledConnection([lagging.url, latest.url], {}, new RpcScheduler());
+
+    await pool.probe();
+
+    assert.equal(await connection.getSlot(), 100);
+    pool.close();
+  });
+});
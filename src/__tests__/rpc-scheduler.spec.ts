@@ -0,0 +1,216 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { RpcScheduler } from "../rpc-scheduler";
+
+// The clock and `setTimeout` are mocked, so delays are exact and the tests don't wait for them
+const START = Date.parse("2025-04-14T00:00:00Z");
+
+const flush = () => new Promise(setImmediate);
+
+// Advances the mocked clock a millisecond at a time, letting the requests woken up by each step run
+async function advance(ms: number) {
+  for (let i = 0; i < ms; i++) {
+    await flush();
+    mock.timers.tick(1);
+  }
+
+  await flush();
+}
+
+// Advances the mocked clock until every promise has settled
+async function settle<T>(promises: Promise<T>[], maxMs = 60_000): Promise<T[]> {
+  let settled = false;
+
+  Promise.allSettled(promises).then(() => (settled = true));
+  await flush();
+
+  for (let i = 0; i < maxMs && !settled; i++) {
+    await advance(1);
+  }
+
+  return Promise.all(promises);
+}
+
+const ok = () => new Response("{}", { status: 200 });
+const tooManyRequests = (retryAfter?: string) =>
+  new Response("", { status: 429, headers: retryAfter ? { "Retry-After": retryAfter } : {} });
+
+/**
+ * A `fetch` answering its nth call with `responses[n]` (the last one once they run out) after `latencyMs`.
+ * Records the time (since `START`) each request was sent at and the most requests in flight at once
+ */
+function createFakeFetch(responses: (() => Response)[], latencyMs = 0) {
+  const stats = { sentAt: [] as number[], inFlight: 0, maxInFlight: 0 };
+
+  const fakeFetch = async () => {
+    const response = responses[Math.min(stats.sentAt.length, responses.length - 1)];
+
+    stats.sentAt.push(Date.now() - START);
+    stats.maxInFlight = Math.max(stats.maxInFlight, ++stats.inFlight);
+
+    if (latencyMs) await new Promise((resolve) => setTimeout(resolve, latencyMs));
+
+    stats.inFlight--;
+
+    return response();
+  };
+
+  return { fakeFetch: fakeFetch as unknown as typeof fetch, stats };
+}
+
+describe("RpcScheduler", () => {
+  beforeEach(() => mock.timers.enable({ apis: ["setTimeout", "Date"], now: START }));
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it("sends a burst of up to the rate and then one request per token refilled", async () => {
+    // The rate can't grow, so the bucket refills at 5 requests per second
+    const scheduler = new RpcScheduler({ requestsPerSecond: 5, maxRequestsPerSecond: 5 });
+    const { fakeFetch, stats } = createFakeFetch([ok]);
+    const scheduledFetch = scheduler.wrapFetch(fakeFetch);
+
+    await settle(Array.from({ length: 8 }, () => scheduledFetch("http://rpc")));
+
+    assert.deepEqual(stats.sentAt, [0, 0, 0, 0, 0, 200, 400, 600]);
+  });
+
+  it("limits the requests in flight", async () => {
+    const scheduler = new RpcScheduler({ requestsPerSecond: 100, maxConcurrency: 2 });
+    const { fakeFetch, stats } = createFakeFetch([ok], 100);
+    const scheduledFetch = scheduler.wrapFetch(fakeFetch);
+
+    await settle(Array.from({ length: 6 }, () => scheduledFetch("http://rpc")));
+
+    assert.equal(stats.maxInFlight, 2);
+    assert.deepEqual(stats.sentAt, [0, 0, 100, 100, 200, 200]);
+  });
+
+  it("retries after the seconds of the Retry-After header", async () => {
+    const scheduler = new RpcScheduler();
+    const { fakeFetch, stats } = createFakeFetch([() => tooManyRequests("2"), ok]);
+
+    const [response] = await settle([scheduler.wrapFetch(fakeFetch)("http://rpc")]);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(stats.sentAt, [0, 2000]);
+  });
+
+  it("retries at the HTTP date of the Retry-After header", async () => {
+    const scheduler = new RpcScheduler();
+    const { fakeFetch, stats } = createFakeFetch([
+      () => tooManyRequests(new Date(START + 3000).toUTCString()),
+      ok,
+    ]);
+
+    const [response] = await settle([scheduler.wrapFetch(fakeFetch)("http://rpc")]);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(stats.sentAt, [0, 3000]);
+  });
+
+  it("holds back every request until the Retry-After time has passed", async () => {
+    const scheduler = new RpcScheduler();
+    const { fakeFetch, stats } = createFakeFetch([() => tooManyRequests("1"), ok]);
+    const scheduledFetch = scheduler.wrapFetch(fakeFetch);
+
+    const limited = scheduledFetch("http://rpc");
+    await advance(100);
+    // Sent after the first request was rate limited, but not before the pause ends
+    const later = scheduledFetch("http://rpc");
+
+    await settle([limited, later]);
+
+    assert.deepEqual(stats.sentAt, [0, 1000, 1000]);
+  });
+
+  it("backs off exponentially with jitter without a Retry-After header", async () => {
+    const { fakeFetch, stats } = createFakeFetch([tooManyRequests, tooManyRequests, tooManyRequests, ok]);
+
+    // The smallest jitter halves the backoff of 100, 200 and 400ms
+    mock.method(Math, "random", () => 0);
+    await settle([new RpcScheduler({ baseDelayMs: 100 }).wrapFetch(fakeFetch)("http://rpc")]);
+
+    assert.deepEqual(stats.sentAt, [0, 50, 150, 350]);
+
+    // The largest jitter adds half of it, up to `maxDelayMs`
+    const jittered = createFakeFetch([tooManyRequests, tooManyRequests, tooManyRequests, ok]);
+    const start = Date.now() - START;
+
+    mock.method(Math, "random", () => 0.999);
+    await settle([
+      new RpcScheduler({ baseDelayMs: 100, maxDelayMs: 300 }).wrapFetch(jittered.fakeFetch)("http://rpc"),
+    ]);
+
+    assert.deepEqual(
+      jittered.stats.sentAt.map((sentAt) => sentAt - start),
+      [0, 150, 450, 900],
+    );
+  });
+
+  it("returns the rate limited response once the retries are exhausted", async () => {
+    mock.method(Math, "random", () => 0);
+
+    const scheduler = new RpcScheduler({ maxRetries: 2, baseDelayMs: 100 });
+    const { fakeFetch, stats } = createFakeFetch([tooManyRequests]);
+
+    const [response] = await settle([scheduler.wrapFetch(fakeFetch)("http://rpc")]);
+
+    assert.equal(response.status, 429);
+    assert.equal(stats.sentAt.length, 3);
+  });
+
+  it("doesn't retry other errors", async () => {
+    const scheduler = new RpcScheduler();
+    let calls = 0;
+
+    await assert.rejects(
+      settle([
+        scheduler.schedule(async () => {
+          calls++;
+          throw new Error("fetch failed");
+        }),
+      ]),
+      /fetch failed/,
+    );
+    assert.equal(calls, 1);
+  });
+
+  it("retries the rate limit errors web3.js throws", async () => {
+    mock.method(Math, "random", () => 0);
+
+    const scheduler = new RpcScheduler({ baseDelayMs: 100 });
+    let calls = 0;
+
+    const [result] = await settle([
+      scheduler.schedule(async () => {
+        if (calls++ === 0) throw new Error("429 Too Many Requests: {\"jsonrpc\":\"2.0\"}");
+        return "slot";
+      }),
+    ]);
+
+    assert.equal(result, "slot");
+    assert.equal(calls, 2);
+  });
+
+  it("halves the rate when rate limited and raises it as requests succeed", async () => {
+    mock.method(Math, "random", () => 0);
+
+    const scheduler = new RpcScheduler({ requestsPerSecond: 8, minRequestsPerSecond: 2, baseDelayMs: 10 });
+    const { fakeFetch } = createFakeFetch([tooManyRequests, tooManyRequests, tooManyRequests, ok]);
+
+    await settle([scheduler.wrapFetch(fakeFetch)("http://rpc")]);
+
+    // 8 halved to 4 and 2, then kept at the minimum, and one success adds 1 / 2
+    assert.equal(scheduler.rate, 2.5);
+
+    const succeeding = scheduler.wrapFetch(createFakeFetch([ok]).fakeFetch);
+
+    await settle(Array.from({ length: 20 }, () => succeeding("http://rpc")));
+
+    // Each success adds the inverse of the rate, so the rate grows by about one for each second of requests
+    assert.ok(scheduler.rate > 6 && scheduler.rate < 7, `rate ${scheduler.rate}`);
+  });
+});
@@ -0,0 +1,185 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BN } from "@coral-xyz/anchor";
+import { getMinAmountOut } from "../examples/jlp-liquidity";
+import { getSwapFeeBps, quoteSwapOffline } from "../swap";
+import { Custody, Pool } from "../types";
+import { usd } from "./helpers";
+
+// A $1,000,000 pool charging 10 BPS plus up to 40 BPS of tax for swaps, 2 plus up to 5 BPS between stablecoins
+const pool = {
+  aumUsd: usd("1000000"),
+  fees: {
+    swapBps: new BN(10),
+    taxBps: new BN(40),
+    stableSwapBps: new BN(2),
+    stableSwapTaxBps: new BN(5),
+  },
+} as unknown as Pool;
+
+const SOL_PRICE = usd("100");
+const STABLE_PRICE = usd("1");
+
+// A custody holding `ownedUsd` worth of its token, whose target is `targetRatioBps` of the pool
+const makeSwapCustody = ({
+  ownedUsd,
+  targetRatioBps,
+  isStable = false,
+}: {
+  ownedUsd: string;
+  targetRatioBps: number;
+  isStable?: boolean;
+}) => {
+  const decimals = isStable ? 6 : 9;
+  const price = isStable ? STABLE_PRICE : SOL_PRICE;
+
+  return {
+    decimals,
+    isStable,
+    targetRatioBps: new BN(targetRatioBps),
+    assets: {
+      owned: usd(ownedUsd).mul(new BN(10).pow(new BN(decimals))).div(price),
+      locked: new BN(0),
+    },
+  } as unknown as Custody;
+};
+
+// 100 SOL, i.e. a $10,000 swap
+const SOL_AMOUNT_IN = new BN(100_000_000_000);
+
+const swapSolForUsdc = (solCustody: Custody, usdcCustody: Custody) => ({
+  pool,
+  receivingCustody: solCustody,
+  dispensingCustody: usdcCustody,
+  receivingTokenPrice: SOL_PRICE,
+  dispensingTokenPrice: STABLE_PRICE,
+});
+
+describe("getSwapFeeBps", () => {
+  it("discounts swaps that move both custodies towards their target weights", () => {
+    // SOL is $100,000 under its $500,000 target and USDC $100,000 over: 10 BPS - 40 BPS * $100,000 / $500,000
+    const feeBps = getSwapFeeBps({
+      ...swapSolForUsdc(
+        makeSwapCustody({ ownedUsd: "400000", targetRatioBps: 5000 }),
+        makeSwapCustody({ ownedUsd: "600000", targetRatioBps: 5000, isStable: true }),
+      ),
+      swapUsdAmount: usd("10000"),
+    });
+
+    assert.equal(feeBps.toString(), "2");
+  });
+
+  it("taxes swaps that move the custodies away from their target weights", () => {
+    // Both legs move from $100,000 to $110,000 off target: 10 BPS + 40 BPS * $105,000 / $500,000, rounded down
+    const feeBps = getSwapFeeBps({
+      ...swapSolForUsdc(
+        makeSwapCustody({ ownedUsd: "600000", targetRatioBps: 5000 }),
+        makeSwapCustody({ ownedUsd: "400000", targetRatioBps: 5000, isStable: true }),
+      ),
+      swapUsdAmount: usd("10000"),
+    });
+
+    assert.equal(feeBps.toString(), "18");
+  });
+
+  it("charges the larger fee of the two legs", () => {
+    // Receiving SOL is discounted to 2 BPS, dispensing USDC under its $400,000 target costs
+    // 10 BPS + 40 BPS * $105,000 / $400,000
+    const feeBps = getSwapFeeBps({
+      ...swapSolForUsdc(
+        makeSwapCustody({ ownedUsd: "400000", targetRatioBps: 5000 }),
+        makeSwapCustody({ ownedUsd: "300000", targetRatioBps: 4000, isStable: true }),
+      ),
+      swapUsdAmount: usd("10000"),
+    });
+
+    assert.equal(feeBps.toString(), "20");
+  });
+
+  it("doesn't discount below zero", () => {
+    // Both custodies are $300,000 off their $500,000 target, a 24 BPS rebate on the 10 BPS fee
+    const feeBps = getSwapFeeBps({
+      ...swapSolForUsdc(
+        makeSwapCustody({ ownedUsd: "200000", targetRatioBps: 5000 }),
+        makeSwapCustody({ ownedUsd: "800000", targetRatioBps: 5000, isStable: true }),
+      ),
+      swapUsdAmount: usd("10000"),
+    });
+
+    assert.equal(feeBps.toString(), "0");
+  });
+
+  it("uses the stable swap fees between stablecoins", () => {
+    // USDT is at its $100,000 target: 2 BPS + 5 BPS * $25,000 / $100,000, rounded down
+    const feeBps = getSwapFeeBps({
+      pool,
+      receivingCustody: makeSwapCustody({ ownedUsd: "400000", targetRatioBps: 5000, isStable: true }),
+      dispensingCustody: makeSwapCustody({ ownedUsd: "100000", targetRatioBps: 1000, isStable: true }),
+      receivingTokenPrice: STABLE_PRICE,
+      dispensingTokenPrice: STABLE_PRICE,
+      swapUsdAmount: usd("50000"),
+    });
+
+    assert.equal(feeBps.toString(), "3");
+  });
+});
+
+describe("quoteSwapOffline", () => {
+  const quote = (solCustody: Custody, usdcCustody: Custody) => {
+    const { swapUsdAmount, amountOut, amountOutAfterFees, fee, feeBps } = quoteSwapOffline({
+      ...swapSolForUsdc(solCustody, usdcCustody),
+      amountIn: SOL_AMOUNT_IN,
+    });
+
+    return [swapUsdAmount, amountOut, amountOutAfterFees, fee, feeBps].map((value) => value.toString());
+  };
+
+  it("dispenses the swapped value less the fee below the target weight", () => {
+    // 100 SOL at $100 for 10,000 USDC less 2 BPS
+    assert.deepEqual(
+      quote(
+        makeSwapCustody({ ownedUsd: "400000", targetRatioBps: 5000 }),
+        makeSwapCustody({ ownedUsd: "600000", targetRatioBps: 5000, isStable: true }),
+      ),
+      [usd("10000"), usd("10000"), usd("9998"), usd("2"), new BN(2)].map(String),
+    );
+  });
+
+  it("dispenses the swapped value less the fee above the target weight", () => {
+    // Less 18 BPS
+    assert.deepEqual(
+      quote(
+        makeSwapCustody({ ownedUsd: "600000", targetRatioBps: 5000 }),
+        makeSwapCustody({ ownedUsd: "400000", targetRatioBps: 5000, isStable: true }),
+      ),
+      [usd("10000"), usd("10000"), usd("9982"), usd("18"), new BN(18)].map(String),
+    );
+  });
+
+  it("throws when the dispensing custody's unlocked tokens can't cover the swap", () => {
+    const usdcCustody = makeSwapCustody({ ownedUsd: "400000", targetRatioBps: 5000, isStable: true });
+
+    usdcCustody.assets.locked = usd("395000");
+
+    assert.throws(
+      () => quote(makeSwapCustody({ ownedUsd: "600000", targetRatioBps: 5000 }), usdcCustody),
+      /Not enough unlocked liquidity/,
+    );
+  });
+});
+
+describe("getMinAmountOut", () => {
+  it("takes the slippage off the quoted amount, rounding down", () => {
+    // 9,998 USDC with 0.5% slippage
+    assert.equal(getMinAmountOut(usd("9998"), 50).toString(), usd("9948.01").toString());
+    assert.equal(getMinAmountOut(new BN(999), 1).toString(), "998");
+    assert.equal(getMinAmountOut(new BN(999), 0).toString(), "999");
+    assert.equal(getMinAmountOut(new BN(999), 10_000).toString(), "0");
+  });
+
+  it("rejects slippage outside of 0 to 10,000 BPS or not in whole BPS", () => {
+    assert.throws(() => getMinAmountOut(new BN(999), -1), /slippageBps must be an integer/);
+    assert.throws(() => getMinAmountOut(new BN(999), 10_001), /slippageBps must be an integer/);
+    assert.throws(() => getMinAmountOut(new BN(999), 0.5), /slippageBps must be an integer/);
+  });
+});
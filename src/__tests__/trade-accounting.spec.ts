@@ -0,0 +1,185 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BN } from "@coral-xyz/anchor";
+import { getTradeAccounting } from "../trade-accounting";
+import { getTradeFeeBreakdown } from "../trade-fees";
+import { groupEventsIntoTrades } from "../trades";
+import { loadEventFixtures, makeCustody, toDecodedEvent, usd } from "./helpers";
+
+// The custody's fee parameters aren't part of the recording: 6 BPS base fees and a price impact fee of 1 BPS for
+// trades up to $125,000
+const custody = makeCustody({ increasePositionBps: 6, decreasePositionBps: 6 });
+
+const { completedTrades } = groupEventsIntoTrades(
+  loadEventFixtures("recorded-sol-long-events.json"),
+);
+
+describe("getTradeAccounting", () => {
+  it("splits a liquidation's fee into close, price impact, liquidation and borrow fees", () => {
+    const [liquidated] = completedTrades;
+    const custodies = { [liquidated.positionCustody.toBase58()]: custody };
+    const { closes, feesUsd, fundingUsd } = getTradeAccounting(liquidated, custodies);
+    const [close] = closes;
+
+    // $68.22 = $15.886944 close fee (6 BPS) + $2.647824 price impact fee (1 BPS) + $48.35 liquidation fee
+    // + $1.335232 borrow fee
+    assert.ok(close.closeFeeUsd.eq(usd("15.886944").add(usd("2.647824")).add(usd("48.35"))));
+    assert.ok(close.fundingUsd.eq(usd("1.335232")));
+    assert.ok(close.openFeeUsd.eq(usd("18.53")));
+    assert.ok(feesUsd.add(fundingUsd).eq(liquidated.totalFeesUsd));
+  });
+
+  it("agrees with the trade's fee breakdown", () => {
+    completedTrades.forEach((trade) => {
+      const custodies = { [trade.positionCustody.toBase58()]: custody };
+      const accounting = getTradeAccounting(trade, custodies);
+      const breakdown = getTradeFeeBreakdown(trade, custodies);
+
+      assert.ok(
+        accounting.feesUsd.eq(
+          breakdown.openFeeUsd
+            .add(breakdown.closeFeeUsd)
+            .add(breakdown.priceImpactFeeUsd)
+            .add(breakdown.liquidationFeeUsd),
+        ),
+        trade.id,
+      );
+      assert.ok(accounting.fundingUsd.eq(breakdown.borrowFeeUsd), trade.id);
+    });
+  });
+
+  it("throws without the trade's custody", () => {
+    assert.throws(() => getTradeAccounting(completedTrades[0], {}), /Missing custody/);
+  });
+});
+
+describe("getTradeAccounting of a long scaled in at two prices and closed in part twice", () => {
+  // The recorded SOL long's position, with its own custody as the collateral custody
+  const position = {
+    positionKey: "5RUuGzNkb6pnQdhpCTYfwf1TTnm1omVSvmZUHcXiuG6D",
+    positionSide: 1,
+    positionCustody: "7xS2gz2bTp3fwCC7knJvUWTEU9Tycczu6VhJYKgi1wdz",
+    positionCollateralCustody: "7xS2gz2bTp3fwCC7knJvUWTEU9Tycczu6VhJYKgi1wdz",
+    positionMint: "So11111111111111111111111111111111111111112",
+    owner: "CZKPYBkGXg1G6W8EXLxHDLRwsYtMz8TBk1qfPgCMzxG1",
+    pool: "5BUwFW4nRbftYTDMbgxykoFWqWHPzahFSNAaaaJtVKsq",
+    referral: null,
+  };
+
+  // Every fill pays 6 BPS and a 1 BPS price impact fee, and no borrow fees
+  const increase = (slot: number, sizeUsd: string, price: string, positionSizeUsd: string) =>
+    toDecodedEvent({
+      name: "InstantIncreasePositionEvent",
+      signature: `increase-${slot}`,
+      slot,
+      blockTime: slot,
+      data: {
+        ...position,
+        positionSizeUsd: usd(positionSizeUsd).toString(),
+        sizeUsdDelta: usd(sizeUsd).toString(),
+        collateralUsdDelta: usd("100").toString(),
+        collateralTokenDelta: "1000000000",
+        price: usd(price).toString(),
+        priceSlippage: usd(price).toString(),
+        feeToken: "0",
+        feeUsd: usd(sizeUsd).muln(7).divn(10_000).toString(),
+        openTime: String(slot),
+      },
+    });
+
+  // `pnlUsd` as reported by the program, at the position's average entry price
+  const decrease = (slot: number, sizeUsd: string, price: string, positionSizeUsd: string, pnlUsd: string) =>
+    toDecodedEvent({
+      name: "InstantDecreasePositionEvent",
+      signature: `decrease-${slot}`,
+      slot,
+      blockTime: slot,
+      data: {
+        ...position,
+        positionSizeUsd: usd(positionSizeUsd).toString(),
+        desiredMint: position.positionMint,
+        hasProfit: true,
+        pnlDelta: usd(pnlUsd).toString(),
+        sizeUsdDelta: usd(sizeUsd).toString(),
+        transferAmountUsd: usd(pnlUsd).toString(),
+        transferToken: "0",
+        price: usd(price).toString(),
+        priceSlippage: usd(price).toString(),
+        feeUsd: usd(sizeUsd).muln(7).divn(10_000).toString(),
+        openTime: String(slot),
+      },
+    });
+
+  const {
+    activeTrades: [trade],
+  } = groupEventsIntoTrades([
+    increase(1, "1000", "100", "1000"),
+    increase(2, "1000", "200", "2000"),
+    // The average entry price is $2,000 / (10 + 5 SOL) = $133.333333
+    decrease(3, "500", "150", "1500", "62.5"),
+    decrease(4, "1000", "180", "500", "350"),
+  ]);
+  const custodies = { [trade.positionCustody.toBase58()]: custody };
+  const [firstLot, secondLot] = trade.fills;
+
+  const toStrings = (values: BN[]) => values.map((value) => value.toString());
+  const allocationsOf = (accounting: ReturnType<typeof getTradeAccounting>) =>
+    accounting.closes.map(({ allocations }) =>
+      allocations.map(({ lotFill, sizeUsd, entryPrice, pnlUsd, openFeeUsd }) => [
+        lotFill,
+        ...toStrings([sizeUsd, entryPrice, pnlUsd, openFeeUsd]),
+      ]),
+    );
+
+  it("realizes FIFO closes against the oldest lots at their own entry price", () => {
+    const accounting = getTradeAccounting(trade, custodies, { method: "fifo" });
+
+    assert.deepEqual(allocationsOf(accounting), [
+      // $500 of the $100 lot closed at $150, with half of its $0.70 open fee
+      [[firstLot, ...toStrings([usd("500"), usd("100"), usd("250"), usd("0.35")])]],
+      [
+        // The rest of the $100 lot, then half of the $200 lot closed at $180
+        [firstLot, ...toStrings([usd("500"), usd("100"), usd("400"), usd("0.35")])],
+        [secondLot, ...toStrings([usd("500"), usd("200"), usd("-50"), usd("0.35")])],
+      ],
+    ]);
+    assert.deepEqual(
+      accounting.openLots.map(({ fill, sizeUsd }) => [fill, sizeUsd.toString()]),
+      [[secondLot, usd("500").toString()]],
+    );
+    assert.equal(accounting.realizedPnlUsd.toString(), usd("600").toString());
+  });
+
+  it("realizes average-cost closes pro rata against every lot at the average entry price", () => {
+    const accounting = getTradeAccounting(trade, custodies, { method: "average-cost" });
+
+    assert.deepEqual(allocationsOf(accounting), [
+      [
+        [firstLot, ...toStrings([usd("250"), usd("133.333333"), usd("31.25"), usd("0.175")])],
+        [secondLot, ...toStrings([usd("250"), usd("133.333333"), usd("31.25"), usd("0.175")])],
+      ],
+      [
+        // $500 * ($180 - $133.333333) / $133.333333, rounded down
+        [firstLot, ...toStrings([usd("500"), usd("133.333333"), usd("175.000001"), usd("0.35")])],
+        [secondLot, ...toStrings([usd("500"), usd("133.333333"), usd("175.000001"), usd("0.35")])],
+      ],
+    ]);
+    assert.deepEqual(
+      accounting.closes.map(({ realizedPnlUsd, reportedPnlUsd }) => toStrings([realizedPnlUsd, reportedPnlUsd])),
+      [toStrings([usd("62.5"), usd("62.5")]), toStrings([usd("350.000002"), usd("350")])],
+    );
+    assert.deepEqual(
+      accounting.openLots.map(({ sizeUsd }) => sizeUsd.toString()),
+      toStrings([usd("250"), usd("250")]),
+    );
+  });
+
+  it("keeps each allocation's lot entry price, whatever is allocated against the lot later", () => {
+    const { closes } = getTradeAccounting(trade, custodies, { method: "fifo" });
+    const [{ allocations: [firstAllocation] }] = closes;
+
+    assert.equal(firstAllocation.lotFill, firstLot);
+    assert.equal(firstAllocation.lotEntryPrice.toString(), usd("100").toString());
+    assert.equal(firstAllocation.sizeUsd.toString(), usd("500").toString());
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { FillExportRow, formatFillExportRows, getFillExportRows } from "../trade-export";
+import { groupEventsIntoTrades } from "../trades";
+import { Custody } from "../types";
+import { loadEventFixtures, makeCustody } from "./helpers";
+
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+// The SOL custody is the position's and the collateral custody of the recorded long. 6 BPS base fees and a price
+// impact fee of 1 BPS for trades up to $125,000
+const { completedTrades } = groupEventsIntoTrades(loadEventFixtures("recorded-sol-long-events.json"));
+const [liquidated, instantClose, triggerClose] = completedTrades;
+const custodies = {
+  [liquidated.positionCustody.toBase58()]: { ...makeCustody(), mint: NATIVE_MINT } as Custody,
+};
+
+describe("getFillExportRows", () => {
+  const rows = getFillExportRows([liquidated, instantClose, triggerClose], custodies);
+
+  it("returns one row per fill, oldest first", () => {
+    assert.deepEqual(
+      rows.map(({ tradeId, action, orderType }) => `${tradeId.slice(-1)} ${action} ${orderType}`),
+      [
+        "7 increase instant",
+        "7 decrease trigger",
+        "8 increase instant",
+        "8 decrease instant",
+        "9 increase instant",
+        "9 liquidation market",
+      ],
+    );
+    assert.equal(rows[0].timestamp, "2025-04-14T04:27:07.000Z");
+    assert.equal(rows[0].signature, triggerClose.fills[0].event.signature);
+  });
+
+  it("splits the fees into their own columns", () => {
+    const liquidation = rows[5];
+
+    // $68.22 = $15.886944 close fee + $2.647824 price impact fee + $1.335232 borrow fee + $48.35 liquidation fee
+    assert.deepEqual(
+      [
+        liquidation.openFeeUsd,
+        liquidation.closeFeeUsd,
+        liquidation.priceImpactFeeUsd,
+        liquidation.borrowFeeUsd,
+        liquidation.liquidationFeeUsd,
+        liquidation.totalFeeUsd,
+        liquidation.realizedPnlUsd,
+      ],
+      ["0.000000", "15.886944", "2.647824", "1.335232", "48.350000", "68.220000", "-197.920000"],
+    );
+    assert.equal(rows[4].openFeeUsd, "15.886944");
+    assert.equal(rows[4].priceImpactFeeUsd, "2.643056");
+  });
+
+  it("reports the tokens paid in for increases and received for decreases", () => {
+    const tokens = ({ tokenInMint, tokenInAmount, tokenOutMint, tokenOutAmount }: FillExportRow) => [
+      tokenInMint,
+      tokenInAmount,
+      tokenOutMint,
+      tokenOutAmount,
+    ];
+
+    // Instant increases are paid in the collateral custody's token
+    assert.deepEqual(tokens(rows[0]), [NATIVE_MINT.toBase58(), "12038748753", "", ""]);
+    // The keeper's take profit paid out USDC, the instant close SOL
+    assert.deepEqual(tokens(rows[1]), ["", "", USDC_MINT, "1880322466"]);
+    assert.deepEqual(tokens(rows[3]), ["", "", NATIVE_MINT.toBase58(), "4364166870"]);
+    // Nothing is left to transfer after the liquidation
+    assert.deepEqual(tokens(rows[5]), ["", "", NATIVE_MINT.toBase58(), "0"]);
+  });
+
+  it("leaves the timestamp of fills without a block time empty", () => {
+    const [open, close] = instantClose.fills;
+    const trade = {
+      ...instantClose,
+      fills: [open, { ...close, event: { ...close.event, blockTime: null } }],
+    };
+
+    assert.deepEqual(
+      getFillExportRows([trade], custodies).map(({ timestamp }) => timestamp),
+      ["2025-04-14T04:39:49.000Z", ""],
+    );
+  });
+
+  it("throws without the trade's custody", () => {
+    assert.throws(() => getFillExportRows([liquidated], {}), /Missing custody/);
+  });
+});
+
+describe("formatFillExportRows", () => {
+  const rows = getFillExportRows([liquidated], custodies);
+
+  it("writes the columns in a fixed order", () => {
+    const [header, increase] = formatFillExportRows(rows, "csv").split("\n");
+
+    assert.equal(
+      header,
+      "timestamp,tradeId,asset,side,action,orderType,sizeUsd,price,openFeeUsd,closeFeeUsd,priceImpactFeeUsd," +
+        "borrowFeeUsd,liquidationFeeUsd,totalFeeUsd,realizedPnlUsd,tokenInMint,tokenInAmount,tokenOutMint," +
+        "tokenOutAmount,signature",
+    );
+    assert.equal(
+      increase,
+      [
+        "2025-04-26T23:38:17.000Z",
+        liquidated.id,
+        "SOL",
+        "long",
+        "increase",
+        "instant",
+        "26478.240000",
+        "149.060000",
+        "15.886944",
+        "0.000000",
+        "2.643056",
+        "0.000000",
+        "0.000000",
+        "18.530000",
+        "0.000000",
+        NATIVE_MINT.toBase58(),
+        "1909831065",
+        "",
+        "",
+        liquidated.fills[0].event.signature,
+      ].join(","),
+    );
+  });
+
+  it("quotes CSV values containing delimiters, quotes or newlines", () => {
+    const csv = formatFillExportRows([{ ...rows[0], tradeId: 'a,"b"', asset: "line\nbreak" }], "csv");
+    // Everything after the header line
+    const row = csv.slice(csv.indexOf("\n") + 1);
+
+    assert.ok(row.startsWith(`2025-04-26T23:38:17.000Z,"a,""b""","line\nbreak",long,`));
+  });
+
+  it("writes JSON rows with the same fields", () => {
+    assert.deepEqual(JSON.parse(formatFillExportRows(rows, "json")), rows);
+  });
+});
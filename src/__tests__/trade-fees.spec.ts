@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { BN } from "@coral-xyz/anchor";
+import { getBaseFeeUsd, getPriceImpactFeeUsd } from "../fees";
+import { getFillFeeBreakdown, getTradeFeeBreakdown } from "../trade-fees";
+import { TradeFill, groupEventsIntoTrades } from "../trades";
+import { loadEventFixtures, makeCustody, usd } from "./helpers";
+
+// Different open and close rates so the tests catch a swapped base fee. The price impact fee is 1 BPS for trades
+// up to $125,000
+const custody = makeCustody({ increasePositionBps: 7, decreasePositionBps: 6 });
+
+const recordedEvents = loadEventFixtures("recorded-sol-long-events.json");
+const { completedTrades } = groupEventsIntoTrades(recordedEvents);
+const [liquidated, instantClose, triggerClose] = completedTrades;
+
+// A keeper fill of a market request. The breakdown only reads the event of liquidations
+const marketFill = (side: TradeFill["side"], sizeUsd: BN, feeUsd: BN): TradeFill => ({
+  side,
+  orderType: "market",
+  sizeUsd,
+  collateralUsd: new BN(0),
+  price: usd("100"),
+  feeUsd,
+  pnlUsd: new BN(0),
+  positionSizeUsd: side === "increase" ? sizeUsd : new BN(0),
+  event: recordedEvents[0],
+});
+
+describe("getFillFeeBreakdown", () => {
+  it("splits an open into the increase fee and the price impact fee", () => {
+    const sizeUsd = usd("10000");
+    const openFeeUsd = getBaseFeeUsd(custody, sizeUsd, true);
+    const priceImpactFeeUsd = getPriceImpactFeeUsd(custody, sizeUsd);
+    const fees = getFillFeeBreakdown(
+      custody,
+      marketFill("increase", sizeUsd, openFeeUsd.add(priceImpactFeeUsd)),
+    );
+
+    assert.ok(openFeeUsd.eq(usd("7")));
+    assert.ok(priceImpactFeeUsd.eq(usd("1")));
+    assert.ok(fees.openFeeUsd.eq(openFeeUsd));
+    assert.ok(fees.closeFeeUsd.isZero());
+    assert.ok(fees.priceImpactFeeUsd.eq(priceImpactFeeUsd));
+    assert.ok(fees.borrowFeeUsd.isZero());
+    assert.ok(fees.expectedFeeUsd.eq(usd("8")));
+  });
+
+  it("attributes the fee of a close above the decrease and price impact fees to borrowing", () => {
+    const sizeUsd = usd("10000");
+    const fees = getFillFeeBreakdown(
+      custody,
+      marketFill("decrease", sizeUsd, usd("6").add(usd("1")).add(usd("2.5"))),
+    );
+
+    assert.ok(fees.closeFeeUsd.eq(getBaseFeeUsd(custody, sizeUsd, false)));
+    assert.ok(fees.priceImpactFeeUsd.eq(getPriceImpactFeeUsd(custody, sizeUsd)));
+    assert.ok(fees.borrowFeeUsd.eq(usd("2.5")));
+    assert.ok(fees.openFeeUsd.isZero());
+  });
+
+  it("splits recorded instant and trigger fills", () => {
+    [instantClose, triggerClose].forEach((trade) => {
+      const [open, close] = trade.fills.map((fill) => getFillFeeBreakdown(custody, fill));
+      const { sizeUsd, feeUsd } = trade.fills[1];
+
+      // The recorded open fees are exactly 6 BPS, below this custody's 7 BPS, so they're all open fee
+      assert.ok(open.openFeeUsd.eq(trade.fills[0].feeUsd), trade.id);
+      assert.ok(open.priceImpactFeeUsd.isZero(), trade.id);
+
+      assert.ok(close.closeFeeUsd.eq(getBaseFeeUsd(custody, sizeUsd, false)), trade.id);
+      assert.ok(
+        close.priceImpactFeeUsd.eq(
+          BN.min(getPriceImpactFeeUsd(custody, sizeUsd), feeUsd.sub(close.closeFeeUsd)),
+        ),
+        trade.id,
+      );
+      assert.ok(
+        close.closeFeeUsd.add(close.priceImpactFeeUsd).add(close.borrowFeeUsd).eq(feeUsd),
+        trade.id,
+      );
+    });
+  });
+
+  it("separates a recorded liquidation's liquidation fee from its close and borrow fees", () => {
+    const fill = liquidated.fills[1];
+    const fees = getFillFeeBreakdown(custody, fill);
+
+    // $68.22 = $48.35 liquidation fee + $15.886944 close fee (6 BPS) + $2.647824 price impact fee (1 BPS)
+    // + $1.335232 borrow fee
+    assert.ok(fees.liquidationFeeUsd.eq(usd("48.35")));
+    assert.ok(fees.closeFeeUsd.eq(getBaseFeeUsd(custody, fill.sizeUsd, false)));
+    assert.ok(fees.closeFeeUsd.eq(usd("15.886944")));
+    assert.ok(fees.priceImpactFeeUsd.eq(getPriceImpactFeeUsd(custody, fill.sizeUsd)));
+    assert.ok(fees.priceImpactFeeUsd.eq(usd("2.647824")));
+    assert.ok(fees.borrowFeeUsd.eq(usd("1.335232")));
+  });
+});
+
+describe("getTradeFeeBreakdown", () => {
+  it("reports fills that paid less than the fee formulas expect", () => {
+    const custodies = { [instantClose.positionCustody.toBase58()]: custody };
+    const breakdown = getTradeFeeBreakdown(instantClose, custodies);
+
+    assert.ok(breakdown.totalFeeUsd.eq(instantClose.totalFeesUsd));
+    // A $176,617.91 trade has a 2 BPS price impact fee, more than either recorded fill paid above its base fee
+    assert.deepEqual(
+      breakdown.discrepancies.map(({ fill }) => fill.side),
+      ["increase", "decrease"],
+    );
+    assert.ok(breakdown.discrepancies[0].reportedFeeUsd.eq(instantClose.fills[0].feeUsd));
+  });
+});
@@ -0,0 +1,417 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PublicKey } from "@solana/web3.js";
+import { CUSTODY_PUBKEY, JLP_POOL_ACCOUNT_PUBKEY } from "../constants";
+import { DecodedEvent } from "../events";
+import { generatePositionPda } from "../pda";
+import { TradeTracker, groupEventsIntoTrades } from "../trades";
+import { loadEventFixtures, toDecodedEvent, usd } from "./helpers";
+
+// Events of a SOL long recorded by `final_date.ts` (see `output.txt`), oldest first. USD values are rounded to
+// cents as in the recording, and the block time stands in for the slot
+const recordedEvents = loadEventFixtures("recorded-sol-long-events.json");
+
+const OWNER = "CZKPYBkGXg1G6W8EXLxHDLRwsYtMz8TBk1qfPgCMzxG1";
+const ETH_MINT = "7vfCXTUXx5WJV5JADk17DUJ4ksgau7utNKj4b963voxs";
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+const shortPositionKey = generatePositionPda({
+  custody: new PublicKey(CUSTODY_PUBKEY.ETH),
+  collateralCustody: new PublicKey(CUSTODY_PUBKEY.USDC),
+  walletAddress: new PublicKey(OWNER),
+  side: "short",
+}).position.toBase58();
+const positionRequestKey = PublicKey.default.toBase58();
+
+const shortPosition = {
+  owner: OWNER,
+  pool: JLP_POOL_ACCOUNT_PUBKEY.toBase58(),
+  positionKey: shortPositionKey,
+  positionSide: 2,
+  positionMint: ETH_MINT,
+  positionCustody: CUSTODY_PUBKEY.ETH,
+  positionCollateralCustody: CUSTODY_PUBKEY.USDC,
+};
+
+const request = {
+  positionRequestKey,
+  positionRequestMint: USDC_MINT,
+  positionRequestChange: 1,
+};
+
+let signatureCounter = 0;
+
+// A keeper or instant fill of the ETH short at `time`, which also serves as its slot
+const shortEvent = (name: string, time: number, data: Record<string, unknown>) =>
+  toDecodedEvent({
+    name,
+    signature: `short-${signatureCounter++}`,
+    slot: time,
+    blockTime: time,
+    data: { ...shortPosition, ...data },
+  });
+
+const increase = (
+  time: number,
+  positionRequestType: number,
+  sizeUsd: string,
+  positionSizeUsd: string,
+  collateralUsd: string,
+  price: string,
+  feeUsd: string,
+) =>
+  shortEvent("IncreasePositionEvent", time, {
+    ...request,
+    positionRequestType,
+    positionRequestCollateralDelta: usd(collateralUsd).toString(),
+    positionSizeUsd: usd(positionSizeUsd).toString(),
+    sizeUsdDelta: usd(sizeUsd).toString(),
+    collateralUsdDelta: usd(collateralUsd).toString(),
+    collateralTokenDelta: usd(collateralUsd).toString(),
+    price: usd(price).toString(),
+    priceSlippage: null,
+    feeToken: "0",
+    feeUsd: usd(feeUsd).toString(),
+    openTime: String(time),
+    referral: null,
+  });
+
+const decrease = (
+  time: number,
+  positionRequestType: number,
+  sizeUsd: string,
+  positionSizeUsd: string,
+  pnlUsd: string,
+  price: string,
+  feeUsd: string,
+) =>
+  shortEvent("DecreasePositionEvent", time, {
+    ...request,
+    positionRequestChange: 2,
+    positionRequestType,
+    hasProfit: !usd(pnlUsd).isNeg(),
+    pnlDelta: usd(pnlUsd).abs().toString(),
+    positionSizeUsd: usd(positionSizeUsd).toString(),
+    sizeUsdDelta: usd(sizeUsd).toString(),
+    transferAmountUsd: "0",
+    transferToken: null,
+    price: usd(price).toString(),
+    priceSlippage: null,
+    feeUsd: usd(feeUsd).toString(),
+    openTime: String(time),
+    referral: null,
+  });
+
+describe("groupEventsIntoTrades with recorded events", () => {
+  const { activeTrades, completedTrades, unmatchedEvents } =
+    groupEventsIntoTrades(recordedEvents);
+
+  // The trade summary of the same recording, newest first
+  const expectedTrades = [
+    { status: "liquidated", entry: "149.06", exit: "147.94", size: "26478.24", collateral: "284.68", fees: "86.75", pnl: "-197.92", events: 2 },
+    { status: "closed", entry: "133.78", exit: "132.96", size: "176617.91", collateral: "1878.86", fees: "215.82", pnl: "-1082.76", events: 3 },
+    { status: "closed", entry: "132.87", exit: "133.29", size: "150310.39", collateral: "1599.70", fees: "180.56", pnl: "463.81", events: 3 },
+    { status: "closed", entry: "132.25", exit: "132.78", size: "118719.85", collateral: "1263.19", fees: "143.27", pnl: "479.33", events: 3 },
+    { status: "closed", entry: "130.41", exit: "130.26", size: "640337.87", collateral: "8477.29", fees: "774.05", pnl: "-760.86", events: 3 },
+    { status: "closed", entry: "131.14", exit: "131.34", size: "395210.18", collateral: "6819.62", fees: "480.80", pnl: "584.11", events: 3 },
+    { status: "closed", entry: "128.98", exit: "128.47", size: "1607913.34", collateral: "41492.61", fees: "3993.67", pnl: "-6398.87", events: 3 },
+    { status: "closed", entry: "128.31", exit: "129.02", size: "1378121.41", collateral: "37564.46", fees: "3587.92", pnl: "7582.55", events: 4 },
+    { status: "closed", entry: "130.03", exit: "129.99", size: "2256458.07", collateral: "34587.98", fees: "6353.35", pnl: "-521.17", events: 3 },
+    { status: "closed", entry: "128.82", exit: "129.80", size: "1659334.67", collateral: "24091.20", fees: "2013.17", pnl: "12494.06", events: 5 },
+  ];
+
+  it("splits the position's lifecycles into completed trades", () => {
+    assert.equal(activeTrades.length, 0);
+    assert.equal(unmatchedEvents.length, 0);
+    assert.deepEqual(
+      completedTrades.map(({ id }) => id),
+      expectedTrades.map((_, i) => `5RUuGzNkb6pnQdhpCTYfwf1TTnm1omVSvmZUHcXiuG6D-${9 - i}`),
+    );
+  });
+
+  it("matches the recorded trade summary", () => {
+    completedTrades.forEach((trade, i) => {
+      const expected = expectedTrades[i];
+
+      assert.equal(trade.status, expected.status, trade.id);
+      assert.equal(trade.positionSide, "long");
+      assert.ok(trade.entryPrice.eq(usd(expected.entry)), trade.id);
+      assert.ok(trade.exitPrice?.eq(usd(expected.exit)), trade.id);
+      assert.ok(trade.finalSizeUsd?.eq(usd(expected.size)), trade.id);
+      assert.ok(trade.sizeUsd.isZero(), trade.id);
+      assert.ok(trade.collateralUsd.eq(usd(expected.collateral)), trade.id);
+      assert.ok(trade.totalFeesUsd.eq(usd(expected.fees)), trade.id);
+      assert.ok(trade.pnlUsd.eq(usd(expected.pnl)), trade.id);
+      assert.equal(trade.events.length, expected.events, trade.id);
+    });
+  });
+
+  it("records instant fills, TP/SL fills and the liquidation", () => {
+    const [liquidated, instantClose, tpClose] = completedTrades;
+
+    assert.deepEqual(
+      liquidated.fills.map(({ side, orderType }) => [side, orderType]),
+      [["increase", "instant"], ["liquidation", "market"]],
+    );
+    assert.ok(liquidated.fills[1].feeUsd.eq(usd("19.87").add(usd("48.35"))));
+
+    assert.deepEqual(
+      instantClose.fills.map(({ side, orderType }) => [side, orderType]),
+      [["increase", "instant"], ["decrease", "instant"]],
+    );
+
+    // Closed by the keeper executing its take profit
+    assert.deepEqual(
+      tpClose.fills.map(({ side, orderType }) => [side, orderType]),
+      [["increase", "instant"], ["decrease", "trigger"]],
+    );
+    assert.equal(tpClose.tpslOrders.length, 1);
+    assert.ok(tpClose.tpslOrders[0].entirePosition);
+  });
+
+  it("updates TP/SL orders in place", () => {
+    // The first trade's TP/SL was created once and updated twice
+    const firstTrade = completedTrades[completedTrades.length - 1];
+    const [order] = firstTrade.tpslOrders;
+
+    assert.equal(firstTrade.tpslOrders.length, 1);
+    assert.equal(order.createdTime, 1744532681);
+    assert.equal(order.updatedTime, 1744534598);
+  });
+
+  it("returns the events of a trade whose opening increase is missing as unmatched", () => {
+    // Drop the liquidated trade's opening increase
+    const events = recordedEvents.filter(
+      ({ signature }) =>
+        signature !==
+        "Cu6sYDwXLiztQDfk2kpD9QZKCTWRQX2Vp5BDfDgXJu68E2dVKNzoeRU5mdPdCHBjxj8r182ete9UHtQeRgBktxs",
+    );
+    const trades = groupEventsIntoTrades(events);
+
+    assert.equal(trades.completedTrades.length, 9);
+    assert.deepEqual(
+      trades.unmatchedEvents.map(({ event }) => event.name),
+      ["LiquidateFullPositionEvent"],
+    );
+  });
+});
+
+// Moves an event into transaction `signature` at `slot`, emitted by the given instruction and inner instruction
+const emittedBy = (
+  evt: DecodedEvent,
+  signature: string,
+  slot: number,
+  instructionIndex: number,
+  innerInstructionIndex: number,
+): DecodedEvent => ({ ...evt, signature, slot, instructionIndex, innerInstructionIndex });
+
+const poolSwap = (time: number, ownerKey: string) =>
+  shortEvent("PoolSwapEvent", time, {
+    receivingCustodyKey: CUSTODY_PUBKEY.SOL,
+    dispensingCustodyKey: CUSTODY_PUBKEY.USDC,
+    poolKey: JLP_POOL_ACCOUNT_PUBKEY.toBase58(),
+    amountIn: "1000000000",
+    amountOut: usd("150").toString(),
+    swapUsdAmount: usd("150").toString(),
+    amountOutAfterFees: usd("149.85").toString(),
+    feeBps: "10",
+    ownerKey,
+    receivingAccountKey: ownerKey,
+  });
+
+describe("groupEventsIntoTrades with transactions in the same second", () => {
+  // Every transaction lands at block time 2000. The open and close share slot 500 with another wallet's swap
+  const preSwap = emittedBy(
+    shortEvent("IncreasePositionPreSwapEvent", 2000, {
+      positionRequestKey,
+      transferAmount: "1000000000",
+      collateralCustodyPreSwapAmount: usd("150").toString(),
+    }),
+    "open",
+    500,
+    2,
+    0,
+  );
+  const openSwap = emittedBy(poolSwap(2000, OWNER), "open", 500, 2, 3);
+  const open = emittedBy(increase(2000, 0, "1500", "1500", "150", "2000", "0.9"), "open", 500, 3, 1);
+  const otherSwap = emittedBy(poolSwap(2000, PublicKey.default.toBase58()), "other-wallet", 500, 0, 0);
+  const close = emittedBy(decrease(2000, 0, "1500", "0", "15", "1980", "0.9"), "close", 500, 1, 0);
+  const postSwap = emittedBy(
+    shortEvent("DecreasePositionPostSwapEvent", 2000, {
+      positionRequestKey,
+      swapAmount: usd("164.1").toString(),
+      jupiterMinimumOut: null,
+    }),
+    "close",
+    500,
+    1,
+    1,
+  );
+  const closeSwap = emittedBy(poolSwap(2000, OWNER), "close", 500, 1, 2);
+
+  it("attaches swaps to the trade of the position event in the same transaction", () => {
+    // Transactions oldest first, each with its events out of order
+    const { completedTrades, unmatchedEvents } = groupEventsIntoTrades([
+      open,
+      openSwap,
+      preSwap,
+      otherSwap,
+      closeSwap,
+      postSwap,
+      close,
+    ]);
+    const [trade] = completedTrades;
+
+    assert.equal(completedTrades.length, 1);
+    assert.equal(unmatchedEvents.length, 0);
+    assert.equal(trade.status, "closed");
+    assert.ok(trade.pnlUsd.eq(usd("15")));
+    // The other wallet's swap in the same slot and second isn't part of the trade
+    assert.deepEqual(trade.events, [preSwap, openSwap, open, close, postSwap, closeSwap]);
+  });
+
+  it("processes transactions in the same slot in the order they're passed", () => {
+    // The close passed before the open has no trade to close yet
+    const { completedTrades, activeTrades, unmatchedEvents } = groupEventsIntoTrades([
+      close,
+      postSwap,
+      open,
+      preSwap,
+    ]);
+
+    assert.equal(completedTrades.length, 0);
+    assert.deepEqual(unmatchedEvents, [close]);
+    assert.deepEqual(activeTrades[0].events, [preSwap, open]);
+  });
+
+  it("orders transactions by slot before the order they're passed", () => {
+    const { completedTrades } = groupEventsIntoTrades([
+      emittedBy(close, "close", 501, 1, 0),
+      emittedBy(postSwap, "close", 501, 1, 1),
+      open,
+      preSwap,
+    ]);
+
+    assert.equal(completedTrades.length, 1);
+    assert.deepEqual(
+      completedTrades[0].events.map(({ signature, event }) => `${signature} ${event.name}`),
+      [
+        "open IncreasePositionPreSwapEvent",
+        "open IncreasePositionEvent",
+        "close DecreasePositionEvent",
+        "close DecreasePositionPostSwapEvent",
+      ],
+    );
+  });
+});
+
+describe("TradeTracker", () => {
+  it("opens a trade from a limit order fill and follows market increases and partial decreases", () => {
+    const tracker = new TradeTracker();
+    const limitOrder = shortEvent("InstantCreateLimitOrderEvent", 1000, {
+      positionCollateralMint: USDC_MINT,
+      positionRequestKey,
+      positionRequestMint: USDC_MINT,
+      sizeUsdDelta: usd("10000").toString(),
+      collateralDelta: usd("1000").toString(),
+      openTime: "1000",
+    });
+    const tpsl = shortEvent("InstantCreateTpslEvent", 1300, {
+      positionRequestKey,
+      positionRequestMint: USDC_MINT,
+      sizeUsdDelta: "0",
+      collateralDelta: "0",
+      entirePosition: true,
+      openTime: "1300",
+    });
+
+    const events = [
+      limitOrder,
+      increase(1100, 1, "10000", "10000", "1000", "2000", "6"),
+      increase(1200, 0, "5000", "15000", "500", "1900", "3"),
+      tpsl,
+      decrease(1400, 0, "6000", "9000", "200", "1850", "3.6"),
+      decrease(1500, 1, "9000", "0", "450", "1800", "5.4"),
+    ];
+
+    const updates = events.map((evt) => tracker.process(evt));
+
+    assert.deepEqual(
+      updates.map((update) => update?.transition ?? null),
+      [null, "opened", "increased", "tpslCreated", "decreased", "closed"],
+    );
+
+    // After the partial decrease
+    const partialUpdate = updates[4];
+    assert.ok(partialUpdate?.trade.fills[2].positionSizeUsd.eq(usd("9000")));
+
+    const [trade] = tracker.completedTrades;
+
+    assert.equal(tracker.activeTrades.length, 0);
+    assert.equal(trade.id, `${shortPositionKey}-0`);
+    assert.equal(trade.positionSide, "short");
+    assert.equal(trade.status, "closed");
+    assert.deepEqual(
+      trade.fills.map(({ side, orderType }) => [side, orderType]),
+      [
+        ["increase", "trigger"],
+        ["increase", "market"],
+        ["decrease", "market"],
+        ["decrease", "trigger"],
+      ],
+    );
+    assert.ok(trade.entryPrice.eq(usd("2000")));
+    assert.ok(trade.exitPrice?.eq(usd("1800")));
+    assert.ok(trade.maxSizeUsd.eq(usd("15000")));
+    assert.ok(trade.finalSizeUsd?.eq(usd("15000")));
+    assert.ok(trade.collateralUsd.eq(usd("1500")));
+    assert.ok(trade.pnlUsd.eq(usd("650")));
+    assert.ok(trade.totalFeesUsd.eq(usd("18")));
+    assert.equal(trade.openTime, 1100);
+    assert.equal(trade.closeTime, 1500);
+    // The limit order placed before the position was opened belongs to the trade its fill opened
+    assert.equal(trade.events[0], limitOrder);
+    assert.equal(trade.tpslOrders.length, 1);
+  });
+
+  it("starts a new trade when a closed position PDA is reused", () => {
+    const tracker = new TradeTracker();
+
+    tracker.process(increase(1000, 0, "1000", "1000", "100", "2000", "0.6"));
+    tracker.process(decrease(1100, 0, "1000", "0", "-50", "2100", "0.6"));
+
+    const reopened = tracker.process(increase(1200, 0, "2000", "2000", "100", "2100", "1.2"));
+    const liquidation = tracker.process(
+      shortEvent("LiquidateFullPositionEvent", 1300, {
+        positionCollateralMint: USDC_MINT,
+        positionSizeUsd: usd("2000").toString(),
+        hasProfit: false,
+        pnlDelta: usd("95").toString(),
+        transferAmountUsd: "0",
+        transferToken: "0",
+        price: usd("2199.75").toString(),
+        feeUsd: usd("1.2").toString(),
+        liquidationFeeUsd: usd("3.8").toString(),
+        openTime: "1300",
+      }),
+    );
+
+    assert.equal(reopened?.transition, "opened");
+    assert.equal(reopened?.trade.id, `${shortPositionKey}-1`);
+    assert.equal(liquidation?.transition, "liquidated");
+    assert.equal(liquidation?.trade.status, "liquidated");
+    assert.ok(liquidation?.trade.pnlUsd.eq(usd("95").neg()));
+    assert.ok(liquidation?.trade.totalFeesUsd.eq(usd("6.2")));
+    assert.deepEqual(
+      tracker.completedTrades.map(({ status }) => status),
+      ["closed", "liquidated"],
+    );
+  });
+
+  it("ignores decreases without an opening increase", () => {
+    const tracker = new TradeTracker();
+
+    assert.equal(tracker.process(decrease(1000, 0, "1000", "0", "10", "2000", "0.6")), null);
+    assert.equal(tracker.completedTrades.length, 0);
+  });
+});
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { readFileSync } from "fs";
+import path from "path";
+import { MessageV0, PublicKey } from "@solana/web3.js";
+import { JUPITER_PERPETUALS_PROGRAM_ID } from "../constants";
+import { decodeTransactionEvents } from "../events";
+import { decodeArchiveEvents, parseTransactionResponse, readTransactionArchive } from "../transaction-archive";
+import { groupEventsIntoTrades } from "../trades";
+import { loadEventFixtures, toTransactionResponse } from "./helpers";
+
+// `getTransaction` responses of the recorded SOL long's transactions, see the README in the directory
+const ARCHIVE_DIR = path.join(__dirname, "fixtures", "transaction-archive");
+
+const recordedEvents = loadEventFixtures("recorded-sol-long-events.json");
+
+const loadArchiveFile = (fileName: string) => {
+  const contents = readFileSync(path.join(ARCHIVE_DIR, fileName), "utf8");
+
+  return fileName.endsWith(".jsonl")
+    ? contents.trim().split("\n").map((line) => JSON.parse(line))
+    : JSON.parse(contents);
+};
+
+// `BN` and `PublicKey` values as their JSON strings, so decoded and fixture events can be compared
+const toJson = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+// The events of the recorded transaction with `signature`, decoded from the response built by the test helpers
+const decodeRecordedTransaction = (signature: string) =>
+  decodeTransactionEvents(toTransactionResponse(recordedEvents.filter((evt) => evt.signature === signature)));
+
+describe("parseTransactionResponse", () => {
+  it("parses legacy transactions with the json encoding", () => {
+    const [raw] = loadArchiveFile("1-legacy.json");
+    const tx = parseTransactionResponse(raw)!;
+
+    assert.equal(tx.version, "legacy");
+    assert.equal(tx.slot, recordedEvents[0].slot);
+    assert.equal(tx.blockTime, recordedEvents[0].blockTime);
+    assert.deepEqual(tx.transaction.signatures, [recordedEvents[0].signature]);
+    assert.ok(tx.transaction.message.staticAccountKeys[2].equals(JUPITER_PERPETUALS_PROGRAM_ID));
+    assert.deepEqual(
+      toJson(decodeTransactionEvents(tx)),
+      toJson(decodeRecordedTransaction(recordedEvents[0].signature)),
+    );
+  });
+
+  it("resolves the perpetuals program of v0 transactions from the loaded addresses", () => {
+    const [raw] = loadArchiveFile("2-v0.json");
+    const tx = parseTransactionResponse(raw)!;
+    const { message } = tx.transaction;
+
+    assert.equal(tx.version, 0);
+    assert.ok(message instanceof MessageV0);
+    assert.equal(message.staticAccountKeys.length, 2);
+    assert.deepEqual(message.addressTableLookups.map(({ readonlyIndexes }) => readonlyIndexes), [[7]]);
+    assert.ok(tx.meta?.loadedAddresses?.readonly[0] instanceof PublicKey);
+    assert.ok(tx.meta?.loadedAddresses?.readonly[0].equals(JUPITER_PERPETUALS_PROGRAM_ID));
+    assert.deepEqual(
+      toJson(decodeTransactionEvents(tx)),
+      toJson(decodeRecordedTransaction(recordedEvents[10].signature)),
+    );
+  });
+
+  it("deserializes legacy and v0 transactions with the base64 encoding", () => {
+    const [legacyRaw, v0Raw] = loadArchiveFile("3-base64.json");
+    const legacyTx = parseTransactionResponse(legacyRaw)!;
+    const v0Tx = parseTransactionResponse(v0Raw)!;
+
+    assert.equal(legacyTx.transaction.message.version, "legacy");
+    assert.equal(v0Tx.transaction.message.version, 0);
+    assert.deepEqual(
+      [legacyTx, v0Tx].map(({ transaction }) => transaction.signatures),
+      [[recordedEvents[16].signature], [recordedEvents[17].signature]],
+    );
+    assert.deepEqual(
+      toJson([...decodeTransactionEvents(legacyTx), ...decodeTransactionEvents(v0Tx)]),
+      toJson([
+        ...decodeRecordedTransaction(recordedEvents[16].signature),
+        ...decodeRecordedTransaction(recordedEvents[17].signature),
+      ]),
+    );
+  });
+
+  it("unwraps full JSON-RPC responses", () => {
+    const envelope = loadArchiveFile("4-envelope.json");
+
+    assert.equal(envelope.jsonrpc, "2.0");
+    assert.deepEqual(parseTransactionResponse(envelope), parseTransactionResponse(envelope.result));
+  });
+
+  it("returns null for transactions the RPC didn't find", () => {
+    assert.equal(parseTransactionResponse({ jsonrpc: "2.0", result: null, id: 1 }), null);
+    assert.equal(parseTransactionResponse(null), null);
+  });
+
+  it("throws for other responses and encodings", () => {
+    const [raw] = loadArchiveFile("1-legacy.json");
+
+    assert.throws(
+      () => parseTransactionResponse({ jsonrpc: "2.0", result: { blockTime: 1744532572 }, id: 1 }),
+      /Not a getTransaction response/,
+    );
+    assert.throws(
+      () => parseTransactionResponse({ ...raw, transaction: ["", "base58"] }),
+      /Unsupported transaction encoding: base58/,
+    );
+  });
+});
+
+describe("readTransactionArchive", () => {
+  it("reads the .json and .jsonl files in name order, once per transaction", () => {
+    const transactions = readTransactionArchive(ARCHIVE_DIR);
+
+    // The README is skipped, as are the second copy of the first transaction and the missing transaction
+    assert.deepEqual(
+      transactions.map(({ transaction }) => transaction.signatures[0]),
+      recordedEvents.map(({ signature }) => signature),
+    );
+  });
+});
+
+describe("decodeArchiveEvents", () => {
+  const archiveEvents = decodeArchiveEvents(ARCHIVE_DIR);
+
+  it("decodes the same events as the transactions decoded directly", () => {
+    assert.deepEqual(
+      toJson(archiveEvents),
+      toJson(recordedEvents.flatMap(({ signature }) => decodeRecordedTransaction(signature))),
+    );
+    assert.deepEqual(toJson(archiveEvents), toJson(recordedEvents));
+  });
+
+  it("groups the events into the same trades", () => {
+    const archiveTrades = groupEventsIntoTrades(archiveEvents);
+    const recordedTrades = groupEventsIntoTrades(recordedEvents);
+
+    assert.equal(archiveTrades.completedTrades.length, 10);
+    assert.deepEqual(toJson(archiveTrades), toJson(recordedTrades));
+  });
+});
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { Connection } from "@solana/web3.js";
+import { getTransactionsBatched } from "../transaction-fetcher";
+
+// Every HTTP request takes this long and requests are served one at a time, like a rate limited endpoint
+const RESPONSE_DELAY_MS = 20;
+
+interface JsonRpcRequest {
+  id: string;
+}
+
+// A JSON-RPC endpoint that doesn't have any of the requested transactions
+function createMockRpcServer({ supportsBatches }: { supportsBatches: boolean }) {
+  const stats = { httpRequests: 0 };
+  let queue = Promise.resolve();
+
+  const server = createServer((req, res) => {
+    let body = "";
+
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      queue = queue.then(async () => {
+        await new Promise((resolve) => setTimeout(resolve, RESPONSE_DELAY_MS));
+
+        const payload = JSON.parse(body) as JsonRpcRequest | JsonRpcRequest[];
+        const requests = Array.isArray(payload) ? payload : [payload];
+
+        stats.httpRequests += 1;
+
+        if (Array.isArray(payload) && !supportsBatches) {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(
+            JSON.stringify({
+              jsonrpc: "2.0",
+              error: { code: -32600, message: "Batch requests are not supported" },
+              id: null,
+            }),
+          );
+          return;
+        }
+
+        const responses = requests.map(({ id }) => ({ jsonrpc: "2.0", id, result: null }));
+
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(Array.isArray(payload) ? responses : responses[0]));
+      });
+    });
+  });
+
+  return { server, stats };
+}
+
+async function listen(server: Server) {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return new Connection(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+}
+
+const signatures = Array.from({ length: 40 }, (_, i) => `signature-${i}`);
+
+describe("getTransactionsBatched", () => {
+  const batchingRpc = createMockRpcServer({ supportsBatches: true });
+  const singleRpc = createMockRpcServer({ supportsBatches: false });
+  let batchingConnection: Connection;
+  let singleConnection: Connection;
+
+  before(async () => {
+    batchingConnection = await listen(batchingRpc.server);
+    singleConnection = await listen(singleRpc.server);
+  });
+
+  after(() => {
+    batchingRpc.server.close();
+    singleRpc.server.close();
+  });
+
+  it("fetches transactions in fewer, faster requests than single calls", async () => {
+    const batched = await getTransactionsBatched(batchingConnection, signatures, { batchSize: 20 });
+    const batchedRequests = batchingRpc.stats.httpRequests;
+
+    const single = await getTransactionsBatched(batchingConnection, signatures, { batchSize: 1 });
+    const singleRequests = batchingRpc.stats.httpRequests - batchedRequests;
+
+    assert.equal(batchedRequests, 2);
+    assert.equal(singleRequests, signatures.length);
+    assert.deepEqual(batched.transactions, signatures.map(() => null));
+    assert.deepEqual(single.transactions, batched.transactions);
+    assert.equal(batched.batchError, null);
+    // The endpoint serves one request at a time, so its time spent responding is the request count times the delay
+    assert.equal(batchedRequests * RESPONSE_DELAY_MS, 40);
+    assert.equal(singleRequests * RESPONSE_DELAY_MS, 800);
+  });
+
+  it("falls back to single calls and returns the batch error when the endpoint doesn't support batches", async () => {
+    const { transactions, batchError } = await getTransactionsBatched(singleConnection, signatures, {
+      batchSize: 20,
+    });
+
+    assert.equal(transactions.length, signatures.length);
+    assert.match(batchError?.message ?? "", /400/);
+    // Only the first batch is attempted, the rest is fetched with single calls
+    assert.equal(singleRpc.stats.httpRequests, 1 + signatures.length);
+  });
+
+  it("rejects non-positive batch sizes", async () => {
+    await assert.rejects(getTransactionsBatched(batchingConnection, signatures, { batchSize: 0 }), /batchSize/);
+    await assert.rejects(getTransactionsBatched(batchingConnection, signatures, { batchSize: -5 }), /batchSize/);
+  });
+});
@@ -0,0 +1,175 @@
+import { AccountInfo, Commitment, Connection, PublicKey } from "@solana/web3.js";
+
+export interface AccountCacheOptions {
+  commitment?: Commitment;
+  // How long a read is served from the cache, 0 (the default) fetches every read. Subscribed accounts are kept up
+  // to date and never go stale
+  maxAgeMs?: number;
+  // Subscribe to every cached account with `onAccountChange`, for long running processes
+  subscribe?: boolean;
+}
+
+interface CacheEntry {
+  // null for accounts that don't exist
+  account: AccountInfo<Buffer> | null;
+  // The context slot the account was read at
+  slot: number;
+  fetchedAt: number;
+}
+
+interface PendingFetch {
+  promise: Promise<void>;
+  minSlot?: number;
+}
+
+// `getMultipleAccounts` accepts up to 100 accounts per request
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+/**
+ * A read-through cache of accounts keyed by their public key
+ *
+ * Every entry records the context slot it was read at, and is only replaced by a read or an update from a later
+ * (or the same) slot, so a slow response never overwrites a newer update. Reads can require a minimum slot, e.g.
+ * to read accounts consistent with another account. Reads of an account that's already being fetched wait for
+ * that fetch instead of sending another request.
+ */
+export class AccountCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly subscriptions = new Map<string, number>();
+  private readonly pendingFetches = new Map<string, PendingFetch>();
+  private readonly commitment: Commitment;
+  private readonly maxAgeMs: number;
+  private readonly subscribe: boolean;
+
+  constructor(
+    readonly connection: Connection,
+    { commitment = "confirmed", maxAgeMs = 0, subscribe = false }: AccountCacheOptions = {},
+  ) {
+    this.commitment = commitment;
+    this.maxAgeMs = maxAgeMs;
+    this.subscribe = subscribe;
+  }
+
+  async getAccountInfo(
+    pubkey: PublicKey | string,
+    { minSlot }: { minSlot?: number } = {},
+  ): Promise<AccountInfo<Buffer> | null> {
+    const [account] = await this.getMultipleAccountsInfo([new PublicKey(pubkey)], { minSlot });
+
+    return account;
+  }
+
+  /**
+   * Reads the accounts from the cache, fetching the missing and stale ones with `getMultipleAccountsInfo`
+   *
+   * @param minSlot Cached entries read before this slot are fetched again
+   * @returns The accounts in the order of `pubkeys`, null for the ones that don't exist
+   */
+  async getMultipleAccountsInfo(
+    pubkeys: PublicKey[],
+    { minSlot }: { minSlot?: number } = {},
+  ): Promise<(AccountInfo<Buffer> | null)[]> {
+    const keys = pubkeys.map((pubkey) => pubkey.toBase58());
+    const fetches = new Set<Promise<void>>();
+    const keysToFetch = [...new Set(keys.filter((key) => !this.isFresh(key, minSlot)))].filter(
+      (key) => {
+        const pending = this.pendingFetches.get(key);
+
+        // A fetch in flight can only be shared if it was sent with at least the same minimum slot
+        if (pending && (minSlot === undefined || (pending.minSlot ?? -1) >= minSlot)) {
+          fetches.add(pending.promise);
+          return false;
+        }
+
+        return true;
+      },
+    );
+
+    if (keysToFetch.length > 0) {
+      fetches.add(this.fetch(keysToFetch, minSlot));
+    }
+
+    await Promise.all(fetches);
+
+    return keys.map((key) => this.entries.get(key)?.account ?? null);
+  }
+
+  // Caches accounts read elsewhere at `slot` (e.g. with `getMultipleAccountsAtSlot`), in the order of `pubkeys`
+  setAccounts(pubkeys: PublicKey[], accounts: (AccountInfo<Buffer> | null)[], slot: number) {
+    pubkeys.forEach((pubkey, i) => this.set(pubkey.toBase58(), accounts[i], slot));
+  }
+
+  // The context slot of the cached read of `pubkey`
+  getSlot(pubkey: PublicKey | string): number | null {
+    return this.entries.get(new PublicKey(pubkey).toBase58())?.slot ?? null;
+  }
+
+  // Drops `pubkey` from the cache, or every account when called without a public key
+  invalidate(pubkey?: PublicKey | string) {
+    if (pubkey) {
+      this.entries.delete(new PublicKey(pubkey).toBase58());
+    } else {
+      this.entries.clear();
+    }
+  }
+
+  // Removes the account subscriptions
+  async close() {
+    const subscriptionIds = [...this.subscriptions.values()];
+
+    this.subscriptions.clear();
+    await Promise.all(
+      subscriptionIds.map((id) => this.connection.removeAccountChangeListener(id)),
+    );
+  }
+
+  // Fetches `keys` and caches them, registering the fetch as pending for each key until it's done
+  private fetch(keys: string[], minSlot?: number): Promise<void> {
+    const promise = (async () => {
+      for (let start = 0; start < keys.length; start += MAX_ACCOUNTS_PER_REQUEST) {
+        const batch = keys.slice(start, start + MAX_ACCOUNTS_PER_REQUEST);
+        const { context, value } = await this.connection.getMultipleAccountsInfoAndContext(
+          batch.map((key) => new PublicKey(key)),
+          { commitment: this.commitment, minContextSlot: minSlot },
+        );
+
+        batch.forEach((key, i) => this.set(key, value[i], context.slot));
+      }
+    })().finally(() => {
+      keys.forEach((key) => {
+        if (this.pendingFetches.get(key)?.promise === promise) this.pendingFetches.delete(key);
+      });
+    });
+
+    keys.forEach((key) => this.pendingFetches.set(key, { promise, minSlot }));
+
+    return promise;
+  }
+
+  private isFresh(key: string, minSlot?: number) {
+    const entry = this.entries.get(key);
+
+    if (!entry || (minSlot !== undefined && entry.slot < minSlot)) return false;
+
+    return this.subscriptions.has(key) || Date.now() - entry.fetchedAt < this.maxAgeMs;
+  }
+
+  private set(key: string, account: AccountInfo<Buffer> | null, slot: number) {
+    const entry = this.entries.get(key);
+
+    if (entry && entry.slot > slot) return;
+
+    this.entries.set(key, { account, slot, fetchedAt: Date.now() });
+
+    if (this.subscribe && !this.subscriptions.has(key)) {
+      this.subscriptions.set(
+        key,
+        this.connection.onAccountChange(
+          new PublicKey(key),
+          (updatedAccount, context) => this.set(key, updatedAccount, context.slot),
+          { commitment: this.commitment },
+        ),
+      );
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { AccountInfo, Commitment, Connection, PublicKey } from "@solana/web3.js";
+
+export interface AccountsAtSlot {
+  // The context slot every account was read at
+  slot: number;
+  // The accounts in the order of the requested public keys, null for the ones that don't exist
+  accounts: (AccountInfo<Buffer> | null)[];
+}
+
+export interface GetMultipleAccountsAtSlotOptions {
+  commitment?: Commitment;
+  // Rounds of requests sent before giving up on reading every chunk at the same slot
+  maxAttempts?: number;
+}
+
+// `getMultipleAccounts` accepts up to 100 accounts per request
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+/**
+ * Reads the accounts with chunked `getMultipleAccountsInfo` requests, all at the same context slot
+ *
+ * Up to 100 accounts are read in a single request, so they always share a slot. Larger sets are split into chunks
+ * that are read at the first chunk's slot or later (`minContextSlot`). When the chunks come back from different
+ * slots, every chunk is read again from the latest of them, up to `maxAttempts` times.
+ */
+export async function getMultipleAccountsAtSlot(
+  connection: Connection,
+  pubkeys: PublicKey[],
+  { commitment = "confirmed", maxAttempts = 3 }: GetMultipleAccountsAtSlotOptions = {},
+): Promise<AccountsAtSlot> {
+  const chunks: PublicKey[][] = [];
+
+  for (let start = 0; start < pubkeys.length; start += MAX_ACCOUNTS_PER_REQUEST) {
+    chunks.push(pubkeys.slice(start, start + MAX_ACCOUNTS_PER_REQUEST));
+  }
+
+  let minContextSlot: number | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const slots: number[] = [];
+    const accounts: (AccountInfo<Buffer> | null)[] = [];
+
+    for (const chunk of chunks) {
+      const { context, value } = await connection.getMultipleAccountsInfoAndContext(chunk, {
+        commitment,
+        minContextSlot,
+      });
+
+      minContextSlot = Math.max(minContextSlot ?? 0, context.slot);
+      slots.push(context.slot);
+      accounts.push(...value);
+    }
+
+    if (slots.every((slot) => slot === slots[0])) {
+      return { slot: slots[0] ?? (await connection.getSlot(commitment)), accounts };
+    }
+  }
+
+  throw new Error(
+    `Could not read ${pubkeys.length} accounts at a single slot after ${maxAttempts} attempts`,
+  );
+}
@@ -0,0 +1,111 @@
+import { BN } from "@coral-xyz/anchor";
+import { BPS_POWER } from "./constants";
+import { tokenAmountToUsd } from "./liquidity-fees";
+import { Custody } from "./types";
+import { getPnlForSize } from "./utils";
+
+export interface CustodyAumBreakdown {
+  custody: string;
+  // The USD value the custody contributes to the pool's AUM
+  aumUsd: BN;
+  // The traders' unrealized PNL on shorts against this custody (positive when traders are in profit),
+  // which is subtracted from the pool's AUM
+  shortTraderPnlUsd: BN;
+}
+
+export interface PoolAumComputation {
+  aumUsd: BN;
+  custodies: CustodyAumBreakdown[];
+}
+
+export interface PoolAumDrift extends PoolAumComputation {
+  // The cached `pool.aumUsd`, last updated by `refreshAssetsUnderManagement` or a liquidity change
+  onChainAumUsd: BN;
+  // `aumUsd - onChainAumUsd`, positive when the on-chain AUM is lagging below the live AUM
+  driftUsd: BN;
+  driftBps: BN;
+}
+
+/**
+ * Rebuilds a custody's contribution to the pool's AUM from its `assets` and the current token price
+ *
+ * Stablecoin custodies contribute the value of every token they own. Non-stable custodies contribute their
+ * unlocked tokens at the current price plus `guaranteedUsd` (the USD the pool has guaranteed to long traders),
+ * adjusted by the traders' unrealized PNL on shorts which is tracked through `globalShortSizes` and
+ * `globalShortAveragePrices`.
+ *
+ * @param tokenPrice The custody token's price (6 decimals)
+ */
+export function computeCustodyAum(
+  custodyPubkey: string,
+  custody: Custody,
+  tokenPrice: BN,
+): CustodyAumBreakdown {
+  if (custody.isStable) {
+    return {
+      custody: custodyPubkey,
+      aumUsd: tokenAmountToUsd(custody, custody.assets.owned, tokenPrice),
+      shortTraderPnlUsd: new BN(0),
+    };
+  }
+
+  const { owned, locked, guaranteedUsd, globalShortSizes, globalShortAveragePrices } =
+    custody.assets;
+
+  let aumUsd = tokenAmountToUsd(custody, owned.sub(locked), tokenPrice).add(
+    guaranteedUsd,
+  );
+  let shortTraderPnlUsd = new BN(0);
+
+  if (globalShortSizes.gtn(0) && globalShortAveragePrices.gtn(0)) {
+    const [tradersHaveProfit, pnl] = getPnlForSize(
+      globalShortSizes,
+      globalShortAveragePrices,
+      "short",
+      tokenPrice,
+    );
+
+    shortTraderPnlUsd = tradersHaveProfit ? pnl : pnl.neg();
+    aumUsd = aumUsd.sub(shortTraderPnlUsd);
+  }
+
+  return { custody: custodyPubkey, aumUsd, shortTraderPnlUsd };
+}
+
+/**
+ * Rebuilds the pool's AUM from every custody's state and price
+ *
+ * @param custodies The pool's custodies with their current prices (6 decimals)
+ */
+export function computePoolAumFromCustodies(
+  custodies: { publicKey: string; custody: Custody; tokenPrice: BN }[],
+): PoolAumComputation {
+  const breakdown = custodies.map(({ publicKey, custody, tokenPrice }) =>
+    computeCustodyAum(publicKey, custody, tokenPrice),
+  );
+
+  const aumUsd = breakdown.reduce(
+    (total, custody) => total.add(custody.aumUsd),
+    new BN(0),
+  );
+
+  // The pool can't owe more than it holds
+  return { aumUsd: aumUsd.isNeg() ? new BN(0) : aumUsd, custodies: breakdown };
+}
+
+// Compares a recomputed AUM against the pool's cached `aumUsd`
+export function getPoolAumDrift(
+  computation: PoolAumComputation,
+  onChainAumUsd: BN,
+): PoolAumDrift {
+  const driftUsd = computation.aumUsd.sub(onChainAumUsd);
+
+  return {
+    ...computation,
+    onChainAumUsd,
+    driftUsd,
+    driftBps: onChainAumUsd.isZero()
+      ? new BN(0)
+      : driftUsd.mul(BPS_POWER).div(onChainAumUsd),
+  };
+}
@@ -0,0 +1,698 @@
+import { AnchorProvider, BN, Program, Wallet } from "@coral-xyz/anchor";
+import { getMint } from "@solana/spl-token";
+import {
+  Commitment,
+  Connection,
+  GetProgramAccountsFilter,
+  Keypair,
+  PublicKey,
+} from "@solana/web3.js";
+import { IDL, type Perpetuals } from "./idl/jupiter-perpetuals-idl";
+import { IDL as DovesIDL, type Doves } from "./idl/doves-idl";
+import {
+  CUSTODY_PUBKEY,
+  CUSTODY_PUBKEYS,
+  DOVES_ORACLE_PUBKEYS,
+  DOVES_PROGRAM_ID,
+  JLP_MINT_PUBKEY,
+  JLP_POOL_ACCOUNT_PUBKEY,
+  JUPITER_PERPETUALS_PROGRAM_ID,
+  USDC_DECIMALS,
+} from "./constants";
+import {
+  AssetMarkPrices,
+  Custody,
+  MarkPrice,
+  Pool,
+  Position,
+  PositionAccount,
+  PositionRequest,
+} from "./types";
+import {
+  BNToUSDRepresentation,
+  compoundToAPY,
+  getAssetNameFromCustody,
+  getJlpVirtualPriceFromAum,
+  getPnlForSize,
+  toUsdcDecimalsPrice,
+} from "./utils";
+import { getBaseFeeUsd, getBorrowFeeUsd, getPriceImpactFeeUsd } from "./fees";
+import { generateAllPositionPdas } from "./pda";
+import { computeLiquidationPrice, LiquidationPriceResult } from "./liquidation";
+import {
+  computePoolAumFromCustodies,
+  getPoolAumDrift,
+  PoolAumDrift,
+} from "./aum";
+import { JlpVirtualPriceStream } from "./jlp-price-stream";
+import { computeGlobalUnrealizedPnl, GlobalUnrealizedPnl } from "./global-pnl";
+import { AccountCache, AccountCacheOptions } from "./account-cache";
+import { getMultipleAccountsAtSlot } from "./account-loader";
+import { computePortfolioSnapshot, PortfolioSnapshot } from "./portfolio";
+
+// Any wallet the `AnchorProvider` accepts. Read-only usage doesn't need a real signer so the client defaults
+// to a throwaway keypair.
+export type PerpsClientWallet = AnchorProvider["wallet"];
+
+// The readable representation of a position account returned by the position fetchers
+export interface PositionWithInfo {
+  publicKey: PublicKey;
+  account: Position;
+  positionInfo: {
+    type: string;
+    custody: string;
+    collateralCustody: string;
+    description: string;
+  };
+  readable: {
+    description: string;
+    side: string;
+    asset: string;
+    collateral: string;
+    openTime: string;
+    updateTime: string;
+    price: string;
+    sizeUsd: string;
+    collateralUsd: string;
+    realisedPnlUsd: string;
+    rawPrice: string;
+    rawRealisedPnl: string;
+    isOpen: boolean;
+  };
+}
+
+function toPositionWithInfo(
+  publicKey: PublicKey,
+  account: Position,
+): PositionWithInfo {
+  const custody = account.custody.toBase58();
+  const collateralCustody = account.collateralCustody.toBase58();
+
+  const asset = getAssetNameFromCustody(custody);
+  const collateral = getAssetNameFromCustody(collateralCustody);
+  const side = account.side.long !== undefined ? "Long" : "Short";
+  const description = `${side} ${asset} (using ${collateral} as collateral)`;
+
+  return {
+    publicKey,
+    account,
+    positionInfo: {
+      type: side,
+      custody,
+      collateralCustody,
+      description,
+    },
+    readable: {
+      description,
+      side,
+      asset,
+      collateral,
+      openTime: new Date(account.openTime.toNumber() * 1000).toISOString(),
+      updateTime: new Date(account.updateTime.toNumber() * 1000).toISOString(),
+      price: BNToUSDRepresentation(account.price, USDC_DECIMALS),
+      sizeUsd: BNToUSDRepresentation(account.sizeUsd, USDC_DECIMALS),
+      collateralUsd: BNToUSDRepresentation(account.collateralUsd, USDC_DECIMALS),
+      realisedPnlUsd: BNToUSDRepresentation(
+        account.realisedPnlUsd,
+        USDC_DECIMALS,
+      ),
+      rawPrice: account.price.toString(),
+      rawRealisedPnl: account.realisedPnlUsd.toString(),
+      isOpen: account.sizeUsd.gtn(0),
+    },
+  };
+}
+
+// The mark price of a decoded Doves price feed
+function toMarkPrice(feed: { price: BN; expo: number; timestamp: BN }): MarkPrice {
+  const timestamp = feed.timestamp.toNumber();
+
+  return {
+    price: feed.price,
+    priceUsd: BNToUSDRepresentation(feed.price, Math.abs(feed.expo)),
+    timestamp,
+    formattedTimestamp: new Date(timestamp * 1000).toISOString(),
+    expo: feed.expo,
+  };
+}
+
+/**
+ * Entry point for reading (and building transactions against) the Jupiter Perpetuals program.
+ *
+ * Every fetcher goes through the `Connection` passed in here, so a single process can talk to several
+ * clusters or RPC endpoints by creating several clients, and tests can pass in a fake connection.
+ *
+ * Position, custody and pool accounts are read through `accountCache`. It's disabled by default so every read
+ * (including the ones transactions are built from) fetches the latest state; pass a `maxAgeMs` in
+ * `accountCacheOptions` so computations that read the same accounts repeatedly (e.g. the custodies of every
+ * position of a wallet) fetch them once. Concurrent reads of the same account, like a long's custody and
+ * collateral custody, always share a single request.
+ */
+export class PerpsClient {
+  readonly provider: AnchorProvider;
+  readonly program: Program<Perpetuals>;
+  readonly dovesProgram: Program<Doves>;
+  readonly accountCache: AccountCache;
+
+  constructor(
+    readonly connection: Connection,
+    readonly commitment: Commitment = "confirmed",
+    wallet: PerpsClientWallet = new Wallet(Keypair.generate()),
+    accountCacheOptions: AccountCacheOptions = {},
+  ) {
+    this.accountCache = new AccountCache(connection, { commitment, ...accountCacheOptions });
+
+    this.provider = new AnchorProvider(connection, wallet, {
+      commitment,
+      preflightCommitment: commitment,
+    });
+
+    this.program = new Program<Perpetuals>(
+      IDL,
+      JUPITER_PERPETUALS_PROGRAM_ID,
+      this.provider,
+    );
+
+    this.dovesProgram = new Program<Doves>(
+      DovesIDL,
+      DOVES_PROGRAM_ID,
+      this.provider,
+    );
+  }
+
+  // Reads an account through the account cache and decodes it
+  private async fetchAccount<T>(
+    accountName: "position" | "custody" | "pool",
+    pubkey: PublicKey | string,
+  ): Promise<T> {
+    const accountInfo = await this.accountCache.getAccountInfo(pubkey);
+
+    if (!accountInfo) {
+      throw new Error(`Account does not exist or has no data ${pubkey.toString()}`);
+    }
+
+    return this.program.coder.accounts.decode(accountName, accountInfo.data) as T;
+  }
+
+  async getPosition(positionPubkey: PublicKey | string): Promise<Position> {
+    return this.fetchAccount<Position>("position", positionPubkey);
+  }
+
+  async getCustody(custodyPubkey: PublicKey | string): Promise<Custody> {
+    return this.fetchAccount<Custody>("custody", custodyPubkey);
+  }
+
+  // Fetches the custodies in a single request, keyed by their public key. Missing accounts are left out
+  async getCustodies(
+    custodyPubkeys: PublicKey[] = CUSTODY_PUBKEYS,
+  ): Promise<Record<string, Custody>> {
+    const accounts = await this.accountCache.getMultipleAccountsInfo(custodyPubkeys);
+
+    return custodyPubkeys.reduce<Record<string, Custody>>((acc, custodyPubkey, i) => {
+      const account = accounts[i];
+
+      if (account) {
+        acc[custodyPubkey.toBase58()] = this.program.coder.accounts.decode(
+          "custody",
+          account.data,
+        ) as Custody;
+      }
+
+      return acc;
+    }, {});
+  }
+
+  async getPool(poolPubkey: PublicKey = JLP_POOL_ACCOUNT_PUBKEY): Promise<Pool> {
+    return this.fetchAccount<Pool>("pool", poolPubkey);
+  }
+
+  /**
+   * Fetches position data for a given position PDA.
+   * @param positionPda The PublicKey of the position PDA
+   * @returns The decoded position data with readable format, or null if no position exists
+   */
+  async getPositionByPda(
+    positionPda: string | PublicKey,
+  ): Promise<PositionWithInfo | null> {
+    const positionPubkey = new PublicKey(positionPda);
+
+    const accountInfo = await this.accountCache.getAccountInfo(positionPubkey);
+
+    if (!accountInfo) {
+      return null;
+    }
+
+    const position = this.program.coder.accounts.decode(
+      "position",
+      accountInfo.data,
+    ) as Position;
+
+    return toPositionWithInfo(positionPubkey, position);
+  }
+
+  // Fetches all 9 possible positions for a wallet by generating the PDAs directly instead of relying on
+  // `getProgramAccounts`, which many RPC providers disable
+  async getPositionsByPda(walletAddress: PublicKey | string) {
+    const positionPdas = generateAllPositionPdas(walletAddress).map(
+      ({ positionPda }) => positionPda,
+    );
+
+    const accounts = await this.accountCache.getMultipleAccountsInfo(positionPdas);
+
+    const positions = accounts
+      .map((account, index) => {
+        if (!account) {
+          return null; // Account doesn't exist
+        }
+
+        const position = this.program.coder.accounts.decode(
+          "position",
+          account.data,
+        ) as Position;
+
+        return toPositionWithInfo(positionPdas[index], position);
+      })
+      .filter((position): position is PositionWithInfo => position !== null);
+
+    // Old positions accounts are not closed, but have `sizeUsd = 0`
+    // i.e. open positions have a non-zero `sizeUsd`
+    const openPositions = positions.filter((position) =>
+      position.account.sizeUsd.gtn(0),
+    );
+
+    const closedPositions = positions.filter(
+      (position) => !position.account.sizeUsd.gtn(0),
+    );
+
+    return { openPositions, closedPositions, allPositions: positions };
+  }
+
+  /**
+   * Loads a wallet's 9 possible positions with every custody and Doves oracle in a single
+   * `getMultipleAccountsInfo` request, so the positions are valued with accounts from the same slot.
+   * The loaded accounts also prime the account cache, if it's enabled. Positions whose oracle account wasn't
+   * found have a null `markPrice`.
+   *
+   * @param now The unix timestamp in seconds to accrue borrow fees up to (defaults to the block time of the
+   * snapshot's slot, or the current time if the RPC has no block time for it)
+   */
+  async getPortfolioSnapshot(
+    walletAddress: PublicKey | string,
+    now?: BN,
+  ): Promise<PortfolioSnapshot> {
+    const positionPdas = generateAllPositionPdas(walletAddress).map(
+      ({ positionPda }) => positionPda,
+    );
+    const custodyKeys = Object.values(CUSTODY_PUBKEY);
+    const custodyPubkeys = custodyKeys.map((key) => new PublicKey(key));
+    const oraclePubkeys = custodyKeys.map((key) => DOVES_ORACLE_PUBKEYS[key]);
+
+    const { slot, accounts } = await getMultipleAccountsAtSlot(
+      this.connection,
+      [...positionPdas, ...custodyPubkeys, ...oraclePubkeys],
+      { commitment: this.commitment },
+    );
+    // Borrow fees accrue up to the time the accounts were read at, not the local clock
+    const snapshotTime =
+      now ?? new BN((await this.connection.getBlockTime(slot)) ?? Math.floor(Date.now() / 1000));
+    const positionAccounts = accounts.slice(0, positionPdas.length);
+    const custodyAccounts = accounts.slice(
+      positionPdas.length,
+      positionPdas.length + custodyPubkeys.length,
+    );
+    const oracleAccounts = accounts.slice(positionPdas.length + custodyPubkeys.length);
+
+    this.accountCache.setAccounts(
+      [...positionPdas, ...custodyPubkeys],
+      [...positionAccounts, ...custodyAccounts],
+      slot,
+    );
+
+    const positions = positionAccounts.flatMap((account, index) =>
+      account
+        ? [
+            toPositionWithInfo(
+              positionPdas[index],
+              this.program.coder.accounts.decode("position", account.data) as Position,
+            ),
+          ]
+        : [],
+    );
+
+    const custodies: Record<string, Custody> = {};
+    const markPrices: AssetMarkPrices = {};
+
+    custodyKeys.forEach((key, index) => {
+      const custodyAccount = custodyAccounts[index];
+      const oracleAccount = oracleAccounts[index];
+
+      if (custodyAccount) {
+        custodies[key] = this.program.coder.accounts.decode(
+          "custody",
+          custodyAccount.data,
+        ) as Custody;
+      }
+
+      if (oracleAccount) {
+        markPrices[key] = toMarkPrice(
+          this.dovesProgram.coder.accounts.decode("priceFeed", oracleAccount.data),
+        );
+      }
+    });
+
+    return computePortfolioSnapshot(
+      new PublicKey(walletAddress),
+      slot,
+      positions,
+      custodies,
+      markPrices,
+      snapshotTime,
+    );
+  }
+
+  private async getPositionAccounts(
+    filters: GetProgramAccountsFilter[] = [],
+  ): Promise<PositionAccount[]> {
+    const gpaResult = await this.connection.getProgramAccounts(
+      this.program.programId,
+      {
+        commitment: this.commitment,
+        filters: [
+          ...filters,
+          {
+            memcmp: this.program.coder.accounts.memcmp("position"),
+          },
+        ],
+      },
+    );
+
+    return gpaResult.map((item) => {
+      return {
+        publicKey: item.pubkey,
+        account: this.program.coder.accounts.decode(
+          "position",
+          item.account.data,
+        ) as Position,
+      };
+    });
+  }
+
+  // This function returns all open positions (i.e. `Position` accounts with `sizeUsd > 0`)
+  // Note that your RPC provider needs to enable `getProgramAccounts` for this to work. This
+  // also returns *a lot* of data so you also need to ensure your `fetch` implementation
+  // does not timeout before it returns the data.
+  //
+  // More info on the `Position` account here: https://station.jup.ag/guides/perpetual-exchange/onchain-accounts#position-account
+  async getOpenPositions(): Promise<PositionAccount[]> {
+    const positions = await this.getPositionAccounts();
+
+    // Old positions accounts are not closed, but have `sizeUsd = 0`
+    // i.e. open positions have a non-zero `sizeUsd`
+    return positions.filter((position) => position.account.sizeUsd.gtn(0));
+  }
+
+  // This function fetches all the positions (open and closed) for a given wallet address, similar to `getOpenPositions`.
+  async getOpenPositionsForWallet(
+    walletAddress: PublicKey | string,
+  ): Promise<PositionAccount[]> {
+    return this.getPositionAccounts([
+      // Pass in a wallet address here to filter for positions for
+      // a specific wallet address
+      {
+        memcmp: {
+          bytes: new PublicKey(walletAddress).toBase58(),
+          offset: 8,
+        },
+      },
+    ]);
+  }
+
+  /**
+   * Finds all existing position request accounts for a given position PDA
+   *
+   * NOTE: This requires an RPC endpoint that supports getProgramAccounts.
+   * @param positionPda The position PDA to find requests for
+   */
+  async getPositionRequestsForPosition(positionPda: string | PublicKey) {
+    const accounts = await this.connection.getProgramAccounts(
+      this.program.programId,
+      {
+        commitment: this.commitment,
+        filters: [
+          { memcmp: this.program.coder.accounts.memcmp("positionRequest") },
+          {
+            memcmp: {
+              offset: 8, // Skip the account discriminator (8 bytes)
+              bytes: new PublicKey(positionPda).toBase58(),
+            },
+          },
+        ],
+      },
+    );
+
+    return accounts.map((account) => ({
+      publicKey: account.pubkey,
+      account: this.program.coder.accounts.decode(
+        "positionRequest",
+        account.account.data,
+      ) as PositionRequest,
+    }));
+  }
+
+  // The pool's AUM is updated whenever:
+  // 1) Liquidity is added to the pool
+  // 2) Liquidity is removed from the pool
+  // 3) The `refresh_assets_under_management` instruction is called (which is refreshed constantly in a background job)
+  async getPoolAum(): Promise<BN> {
+    const pool = await this.getPool();
+
+    return pool.aumUsd;
+  }
+
+  /**
+   * Recomputes the pool's AUM from every custody's `assets` and the current Doves prices, and compares it to
+   * the cached `pool.aumUsd` which can be stale between `refreshAssetsUnderManagement` calls
+   */
+  async computePoolAum(): Promise<PoolAumDrift> {
+    const [pool, markPrices] = await Promise.all([
+      this.getPool(),
+      this.fetchMarkPrices(true),
+    ]);
+
+    const custodies = await this.getCustodies(pool.custodies);
+
+    const computation = computePoolAumFromCustodies(
+      pool.custodies.map((custodyPubkey) => {
+        const custody = custodies[custodyPubkey.toBase58()];
+        const markPrice = markPrices[custodyPubkey.toBase58()];
+
+        if (!custody || !markPrice) {
+          throw new Error(
+            `Missing custody or price for ${custodyPubkey.toBase58()}`,
+          );
+        }
+
+        return {
+          publicKey: custodyPubkey.toBase58(),
+          custody,
+          tokenPrice: toUsdcDecimalsPrice(markPrice.price, markPrice.expo),
+        };
+      }),
+    );
+
+    return getPoolAumDrift(computation, pool.aumUsd);
+  }
+
+  // Streams the pool's AUM as the pool account changes. Returns a function that removes the subscription.
+  subscribePoolAum(callback: (aumUsd: BN) => void): () => Promise<void> {
+    const subscriptionId = this.connection.onAccountChange(
+      JLP_POOL_ACCOUNT_PUBKEY,
+      (accountInfo) => {
+        const pool = this.program.coder.accounts.decode(
+          "pool",
+          accountInfo.data,
+        ) as Pool;
+
+        callback(pool.aumUsd);
+      },
+      this.commitment,
+    );
+
+    return () => this.connection.removeAccountChangeListener(subscriptionId);
+  }
+
+  // The `poolApr.feeAprBps` is updated roughly once a week. The following documentation contains more info on how the pool APY / APR is calculated:
+  // https://station.jup.ag/guides/jlp/How-JLP-Works#jlp-fee-distribution-and-apr-calculation
+  async getPoolApy() {
+    const pool = await this.getPool();
+
+    const apr = pool.poolApr.feeAprBps.toNumber() / 100;
+
+    return { apr, apy: compoundToAPY(apr) };
+  }
+
+  // Returns the circulating JLP supply (JLP has 6 decimals)
+  async getJlpSupply(): Promise<BN> {
+    const jlpMint = await getMint(this.connection, JLP_MINT_PUBKEY, this.commitment);
+
+    return new BN(jlpMint.supply.toString());
+  }
+
+  // Returns the JLP virtual price scaled to `USDC_DECIMALS`
+  async getJlpVirtualPrice(): Promise<BN> {
+    const [poolAum, jlpSupply] = await Promise.all([
+      this.getPoolAum(),
+      this.getJlpSupply(),
+    ]);
+
+    return getJlpVirtualPriceFromAum(poolAum, jlpSupply);
+  }
+
+  // Streams `{ aumUsd, jlpSupply, virtualPrice, slot }` whenever the pool's AUM or the JLP supply changes.
+  // Call `unsubscribe()` on the returned stream to stop streaming.
+  subscribeJlpVirtualPrice(): Promise<JlpVirtualPriceStream> {
+    return new JlpVirtualPriceStream(this).start();
+  }
+
+  /**
+   * Calculate the liquidation price for a Jupiter Perpetuals position
+   *
+   * @param positionPubkey The public key of the position account
+   * @param now The unix timestamp in seconds to accrue borrow fees up to (defaults to the current time)
+   * @returns The liquidation price and fee breakdown, or null if the position is closed (sizeUsd = 0)
+   */
+  async getLiquidationPrice(
+    positionPubkey: PublicKey | string,
+    now: BN = new BN(Math.floor(Date.now() / 1000)),
+  ): Promise<LiquidationPriceResult | null> {
+    const position = await this.getPosition(positionPubkey);
+
+    if (position.sizeUsd.isZero()) {
+      return null;
+    }
+
+    const [custody, collateralCustody] = await Promise.all([
+      this.getCustody(position.custody),
+      this.getCustody(position.collateralCustody),
+    ]);
+
+    return computeLiquidationPrice(position, custody, collateralCustody, now);
+  }
+
+  // Outstanding borrow fee for a position at `curtime` (unix timestamp in seconds). Borrow fees accrue on the
+  // position's collateral custody, e.g. the USDC or USDT custody for shorts
+  async getBorrowFee(positionPubkey: PublicKey | string, curtime: BN) {
+    const position = await this.getPosition(positionPubkey);
+    const collateralCustody = await this.getCustody(position.collateralCustody);
+
+    return getBorrowFeeUsd(
+      collateralCustody,
+      position.sizeUsd,
+      position.cumulativeInterestSnapshot,
+      curtime,
+    );
+  }
+
+  // Position PNL before fees if the position were closed at `tokenPrice`
+  async getPositionPnl(positionPubkey: PublicKey | string, tokenPrice: BN) {
+    const position = await this.getPosition(positionPubkey);
+
+    const [hasProfit, pnl] = getPnlForSize(
+      position.sizeUsd,
+      position.price,
+      position.side.long ? "long" : "short",
+      tokenPrice,
+    );
+
+    return hasProfit ? pnl : pnl.neg();
+  }
+
+  /**
+   * Calculate the base fee for opening or closing a position
+   *
+   * @param tradeSizeUsd The size of the trade in USD (atomic units)
+   * @param custodyPubkey The public key of the asset's custody account
+   * @param isOpen Whether to calculate open fee (true) or close fee (false)
+   */
+  async getOpenCloseBaseFee(
+    tradeSizeUsd: BN,
+    custodyPubkey: PublicKey | string,
+    isOpen: boolean = true,
+  ) {
+    const custody = await this.getCustody(custodyPubkey);
+
+    return getBaseFeeUsd(custody, tradeSizeUsd, isOpen);
+  }
+
+  async getPriceImpactFee(tradeSizeUsd: BN, custodyPubkey: PublicKey | string) {
+    const custody = await this.getCustody(custodyPubkey);
+
+    return getPriceImpactFeeUsd(custody, tradeSizeUsd);
+  }
+
+  /**
+   * Computes the traders' unrealized PNL per asset and in total for longs and shorts. Each asset's positions are
+   * priced with the asset's own Doves mark price. The exact position scan is compared with the estimate derived
+   * from the custodies' `guaranteedUsd` / `globalShortSizes` to show the estimation error.
+   *
+   * NOTE: This requires an RPC endpoint that supports getProgramAccounts.
+   */
+  async getGlobalUnrealizedPnl(): Promise<GlobalUnrealizedPnl> {
+    const [positions, custodies, markPrices] = await Promise.all([
+      this.getOpenPositions(),
+      this.program.account.custody.all(),
+      this.fetchMarkPrices(),
+    ]);
+
+    const tradedCustodies: Record<string, Custody> = {};
+    const tokenPrices: Record<string, BN> = {};
+
+    custodies
+      .filter((custody) => !custody.account.isStable)
+      .forEach((custody) => {
+        const custodyPubkey = custody.publicKey.toBase58();
+        const markPrice = markPrices[custodyPubkey];
+
+        if (!markPrice) return;
+
+        tradedCustodies[custodyPubkey] = custody.account;
+        tokenPrices[custodyPubkey] = toUsdcDecimalsPrice(
+          markPrice.price,
+          markPrice.expo,
+        );
+      });
+
+    return computeGlobalUnrealizedPnl(positions, tradedCustodies, tokenPrices);
+  }
+
+  /**
+   * Fetch current mark prices for Jupiter perpetual assets
+   * @param includingStablecoins Whether to include stablecoins (USDC, USDT) in the results
+   * @returns Object containing mark price data for each asset, keyed by custody pubkey. Assets whose oracle
+   * account wasn't found are left out
+   */
+  async fetchMarkPrices(
+    includingStablecoins: boolean = false,
+  ): Promise<AssetMarkPrices> {
+    const custodyKeys = [CUSTODY_PUBKEY.SOL, CUSTODY_PUBKEY.ETH, CUSTODY_PUBKEY.BTC];
+
+    if (includingStablecoins) {
+      custodyKeys.push(CUSTODY_PUBKEY.USDC, CUSTODY_PUBKEY.USDT);
+    }
+
+    const feeds = await this.dovesProgram.account.priceFeed.fetchMultiple(
+      custodyKeys.map((key) => DOVES_ORACLE_PUBKEYS[key]),
+      this.commitment,
+    );
+
+    const markPrices: AssetMarkPrices = {};
+
+    feeds.forEach((feed, index) => {
+      if (feed) {
+        markPrices[custodyKeys[index]] = toMarkPrice(feed);
+      }
+    });
+
+    return markPrices;
+  }
+}
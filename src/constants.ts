@@ -1,10 +1,19 @@
-import { AnchorProvider, BN, Program, Wallet } from "@coral-xyz/anchor";
-import { IDL, type Perpetuals } from "./idl/jupiter-perpetuals-idl";
-import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
 
-export const RPC_CONNECTION = new Connection(
-  process.env.RPC_URL || "https://api.mainnet-beta.solana.com",
-);
+// The default RPC endpoint used by the example scripts. Library code never reads this directly and
+// instead takes a `Connection` through `PerpsClient`.
+export const RPC_URL =
+  process.env.RPC_URL || "https://api.mainnet-beta.solana.com";
+
+const envRpcUrls = (process.env.RPC_URLS ?? "")
+  .split(",")
+  .map((url) => url.trim())
+  .filter((url) => url.length > 0);
+
+// Comma separated RPC endpoints for the scripts that use a pooled connection (see `createPooledConnection`).
+// Blank entries, e.g. from a trailing comma, are ignored
+export const RPC_URLS = envRpcUrls.length > 0 ? envRpcUrls : [RPC_URL];
 
 export const JUPITER_PERPETUALS_PROGRAM_ID = new PublicKey(
   "PERPHjGBqRHArX4DySjwM6UJHiR3sWAatqfdBS2qQJu",
@@ -22,14 +31,9 @@ export const JLP_MINT_PUBKEY = new PublicKey(
   "27G8MtK7VtTcCHkpASjSDdkWWYfoqT6ggEuKidVJidD4",
 );
 
-export const JUPITER_PERPETUALS_PROGRAM = new Program<Perpetuals>(
-  IDL,
-  JUPITER_PERPETUALS_PROGRAM_ID,
-  new AnchorProvider(
-    RPC_CONNECTION,
-    new Wallet(Keypair.generate()),
-    AnchorProvider.defaultOptions(),
-  ),
+// Doves oracle program that provides mark prices
+export const DOVES_PROGRAM_ID = new PublicKey(
+  "DoVEsk76QybCEHQGzkvYPWLQu9gzNoZZZt3TPiL597e",
 );
 
 export enum CUSTODY_PUBKEY {
@@ -48,6 +52,25 @@ export const CUSTODY_PUBKEYS = [
   new PublicKey(CUSTODY_PUBKEY.USDT),
 ];
 
+// The Doves oracle accounts for each custody
+export const DOVES_ORACLE_PUBKEYS: Record<CUSTODY_PUBKEY, PublicKey> = {
+  [CUSTODY_PUBKEY.SOL]: new PublicKey(
+    "39cWjvHrpHNz2SbXv6ME4NPhqBDBd4KsjUYv5JkHEAJU",
+  ),
+  [CUSTODY_PUBKEY.ETH]: new PublicKey(
+    "5URYohbPy32nxK1t3jAHVNfdWY2xTubHiFvLrE3VhXEp",
+  ),
+  [CUSTODY_PUBKEY.BTC]: new PublicKey(
+    "4HBbPx9QJdjJ7GUe6bsiJjGybvfpDhQMMPXP1UEa7VT5",
+  ),
+  [CUSTODY_PUBKEY.USDC]: new PublicKey(
+    "A28T5pKtscnhDo6C1Sz786Tup88aTjt8uyKewjVvPrGk",
+  ),
+  [CUSTODY_PUBKEY.USDT]: new PublicKey(
+    "AGW7q2a3WxCzh5TB2Q6yNde1Nf41g3HLaaXdybz7cbBU",
+  ),
+};
+
 export const USDC_DECIMALS = 6;
 export const BPS_POWER = new BN(10_000);
 export const DBPS_POWER = new BN(100_000);
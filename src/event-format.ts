@@ -0,0 +1,72 @@
+import { BN } from "@coral-xyz/anchor";
+import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { USDC_DECIMALS } from "./constants";
+import { DecodedEvent, PerpetualsEvent } from "./events";
+import { BNToUSDRepresentation } from "./utils";
+
+// An event with its values converted to display strings
+export interface FormattedEvent {
+  name: string;
+  data: Record<string, any>;
+}
+
+// EventWithTx combines a formatted event with its transaction data
+export interface EventWithTx {
+  event: FormattedEvent;
+  tx: {
+    signature: string;
+    blockTime: string | null;
+    slot: number;
+    fee: string;
+    feeInLamports: number;
+  };
+}
+
+// Formats the event data to make it human-readable
+export function formatEventData(event: PerpetualsEvent): FormattedEvent {
+  const cleanData: Record<string, any> = {};
+
+  Object.entries(event.data).forEach(([key, value]) => {
+    if (value instanceof PublicKey) {
+      cleanData[key] = value.toString();
+    } else if (value instanceof BN) {
+      if (
+        key.includes("Usd") ||
+        key.includes("usd") ||
+        key.includes("Price") ||
+        key.includes("price") ||
+        key === "pnlDelta"
+      ) {
+        cleanData[key] = `$${BNToUSDRepresentation(value, USDC_DECIMALS)}`;
+      } else if (key.includes("Time")) {
+        cleanData[key] = new Date(value.toNumber() * 1000).toISOString();
+      } else {
+        cleanData[key] = value.toString();
+      }
+    } else if (key === "positionSide") {
+      cleanData[key] = value === 1 ? "Long" : "Short";
+    } else {
+      cleanData[key] = value;
+    }
+  });
+
+  return {
+    name: event.name,
+    data: cleanData,
+  };
+}
+
+export function toEventWithTx(decodedEvent: DecodedEvent): EventWithTx {
+  return {
+    event: formatEventData(decodedEvent.event),
+    tx: {
+      signature: decodedEvent.signature,
+      blockTime: decodedEvent.blockTime
+        ? new Date(decodedEvent.blockTime * 1000).toISOString()
+        : null,
+      slot: decodedEvent.slot,
+      fee: `${decodedEvent.feeInLamports / LAMPORTS_PER_SOL} SOL`,
+      feeInLamports: decodedEvent.feeInLamports,
+    },
+  };
+}
@@ -0,0 +1,532 @@
+import Database from "better-sqlite3";
+import { BN } from "@coral-xyz/anchor";
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  Finality,
+  PublicKey,
+} from "@solana/web3.js";
+import { DecodedEvent, PerpetualsEvent, decodeTransactionEvents } from "./events";
+import { DEFAULT_TRANSACTION_BATCH_SIZE, getTransactionsBatched } from "./transaction-fetcher";
+
+export const DEFAULT_EVENT_INDEX_PATH = "perpetuals-events.sqlite";
+
+export interface IndexPositionOptions {
+  // Stop walking back once signatures are older than this unix timestamp. History older than what's already
+  // indexed is backfilled, so a later run can extend the range to an earlier `fromBlockTime`
+  fromBlockTime?: number;
+  // Called after every indexed transaction, e.g. to log progress
+  onProgress?: (progress: { indexed: number; total: number }) => void;
+}
+
+export interface EventQuery {
+  positionKeys?: (PublicKey | string)[];
+  // Inclusive unix timestamps in seconds
+  fromBlockTime?: number;
+  toBlockTime?: number;
+  // Also return the events without a block time when filtering by block time
+  includeMissingBlockTime?: boolean;
+}
+
+// The signatures indexed for a position PDA: everything between `oldestSignature` and `lastSignature`
+export interface IndexedRange {
+  lastSignature: string;
+  // Null for stores created before the oldest signature was tracked
+  oldestSignature: string | null;
+  oldestBlockTime: number | null;
+  // Whether the PDA's history is indexed back to its first signature
+  complete: boolean;
+}
+
+interface CursorRow {
+  last_signature: string;
+  oldest_signature: string | null;
+  oldest_block_time: number | null;
+  history_complete: number;
+}
+
+interface EventRow {
+  signature: string;
+  transaction_order: number;
+  instruction_index: number;
+  inner_instruction_index: number;
+  slot: number;
+  block_time: number | null;
+  fee_in_lamports: number;
+  name: string;
+  data: string;
+}
+
+const FINALITY: Finality = "confirmed";
+const SIGNATURES_PAGE_SIZE = 1000;
+
+// `BN` and `PublicKey` values are tagged so they can be revived when reading the events back
+function serializeEventData(data: PerpetualsEvent["data"]) {
+  return JSON.stringify(data, function (key, value) {
+    const rawValue = this[key];
+
+    if (rawValue instanceof BN) {
+      return { $bn: rawValue.toString() };
+    }
+
+    if (rawValue instanceof PublicKey) {
+      return { $pubkey: rawValue.toBase58() };
+    }
+
+    return value;
+  });
+}
+
+function deserializeEventData(data: string) {
+  return JSON.parse(data, (_key, value) => {
+    if (value && typeof value === "object") {
+      if (typeof value.$bn === "string") return new BN(value.$bn);
+      if (typeof value.$pubkey === "string") return new PublicKey(value.$pubkey);
+    }
+
+    return value;
+  });
+}
+
+/**
+ * A local SQLite store of decoded Perpetuals events, keyed by the position PDA that emitted them.
+ *
+ * `indexPosition` only fetches the signatures newer than the last one indexed for the position, and
+ * indexes them oldest first so an interrupted run resumes where it stopped. Signatures older than the oldest
+ * one indexed are backfilled when a run asks for an earlier `fromBlockTime`. `getEvents` reads from the
+ * store without touching the RPC.
+ */
+export class EventIndex {
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly connection: Connection,
+    path: string = DEFAULT_EVENT_INDEX_PATH,
+  ) {
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS events (
+        signature TEXT NOT NULL,
+        -- Orders the transactions of a slot, oldest first (see \`getTransactionOrders\`)
+        transaction_order INTEGER NOT NULL DEFAULT 0,
+        instruction_index INTEGER NOT NULL,
+        inner_instruction_index INTEGER NOT NULL,
+        position_key TEXT,
+        slot INTEGER NOT NULL,
+        block_time INTEGER,
+        fee_in_lamports INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (signature, instruction_index, inner_instruction_index)
+      );
+      CREATE INDEX IF NOT EXISTS events_position_key ON events (position_key, slot);
+      CREATE INDEX IF NOT EXISTS events_block_time ON events (block_time);
+
+      -- The newest and oldest signatures indexed for each position PDA, including signatures that emitted no
+      -- events
+      CREATE TABLE IF NOT EXISTS position_cursors (
+        position_key TEXT PRIMARY KEY,
+        last_signature TEXT NOT NULL,
+        last_slot INTEGER NOT NULL
+      );
+    `);
+
+    // Stores created before backfilling was supported only have the newest signature
+    const cursorColumns = (
+      this.db.prepare("PRAGMA table_info(position_cursors)").all() as { name: string }[]
+    ).map(({ name }) => name);
+
+    if (!cursorColumns.includes("oldest_signature")) {
+      this.db.exec(`
+        ALTER TABLE position_cursors ADD COLUMN oldest_signature TEXT;
+        ALTER TABLE position_cursors ADD COLUMN oldest_block_time INTEGER;
+        ALTER TABLE position_cursors ADD COLUMN history_complete INTEGER NOT NULL DEFAULT 0;
+      `);
+    }
+
+    // Stores created before the transaction order was tracked were read in insertion order
+    const eventColumns = (
+      this.db.prepare("PRAGMA table_info(events)").all() as { name: string }[]
+    ).map(({ name }) => name);
+
+    if (!eventColumns.includes("transaction_order")) {
+      this.db.exec(`
+        ALTER TABLE events ADD COLUMN transaction_order INTEGER NOT NULL DEFAULT 0;
+        UPDATE events SET transaction_order = rowid;
+      `);
+    }
+  }
+
+  getLastIndexedSignature(positionPubkey: PublicKey | string): string | null {
+    return this.getIndexedRange(positionPubkey)?.lastSignature ?? null;
+  }
+
+  getIndexedRange(positionPubkey: PublicKey | string): IndexedRange | null {
+    const row = this.db
+      .prepare(
+        `SELECT last_signature, oldest_signature, oldest_block_time, history_complete
+         FROM position_cursors WHERE position_key = ?`,
+      )
+      .get(new PublicKey(positionPubkey).toBase58()) as CursorRow | undefined;
+
+    if (!row) return null;
+
+    return {
+      lastSignature: row.last_signature,
+      oldestSignature: row.oldest_signature,
+      oldestBlockTime: row.oldest_block_time,
+      complete: row.history_complete === 1,
+    };
+  }
+
+  /**
+   * Fetches and stores the events for the signatures of `positionPubkey` that aren't indexed yet: the ones newer
+   * than the last indexed signature, and the ones between `fromBlockTime` (or the PDA's first signature) and the
+   * oldest indexed signature
+   *
+   * @returns The number of transactions indexed
+   */
+  async indexPosition(
+    positionPubkey: PublicKey | string,
+    { fromBlockTime, onProgress }: IndexPositionOptions = {},
+  ): Promise<number> {
+    const positionKey = new PublicKey(positionPubkey);
+    const range = this.getIndexedRange(positionKey);
+
+    if (!range) {
+      const { signatures, complete } = await this.getSignatures(positionKey, { fromBlockTime });
+
+      return this.indexNewSignatures(positionKey, signatures, complete, onProgress);
+    }
+
+    const { signatures: newSignatures } = await this.getSignatures(positionKey, {
+      until: range.lastSignature,
+    });
+    let indexed = await this.indexNewSignatures(positionKey, newSignatures, false, onProgress);
+
+    const needsBackfill =
+      !range.complete &&
+      (fromBlockTime === undefined ||
+        range.oldestBlockTime === null ||
+        fromBlockTime < range.oldestBlockTime);
+
+    if (needsBackfill) {
+      // Stores without an oldest signature walk back from the newest one, re-indexing is idempotent
+      const { signatures, complete } = await this.getSignatures(positionKey, {
+        before: range.oldestSignature ?? range.lastSignature,
+        fromBlockTime,
+      });
+
+      indexed += await this.backfillSignatures(positionKey, signatures, complete, onProgress);
+    }
+
+    return indexed;
+  }
+
+  // Reads the indexed events in the order they were emitted
+  getEvents({
+    positionKeys,
+    fromBlockTime,
+    toBlockTime,
+    includeMissingBlockTime = false,
+  }: EventQuery = {}): DecodedEvent[] {
+    const conditions: string[] = [];
+    const blockTimeConditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (positionKeys) {
+      if (positionKeys.length === 0) return [];
+
+      conditions.push(`position_key IN (${positionKeys.map(() => "?").join(", ")})`);
+      params.push(...positionKeys.map((key) => new PublicKey(key).toBase58()));
+    }
+
+    if (fromBlockTime !== undefined) {
+      blockTimeConditions.push("block_time >= ?");
+      params.push(fromBlockTime);
+    }
+
+    if (toBlockTime !== undefined) {
+      blockTimeConditions.push("block_time <= ?");
+      params.push(toBlockTime);
+    }
+
+    // Comparisons with a NULL block time are never true
+    if (blockTimeConditions.length > 0) {
+      conditions.push(
+        includeMissingBlockTime
+          ? `(${blockTimeConditions.join(" AND ")} OR block_time IS NULL)`
+          : blockTimeConditions.join(" AND "),
+      );
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT signature, instruction_index, inner_instruction_index, slot, block_time, fee_in_lamports, name, data
+         FROM events
+         ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+         ORDER BY slot, transaction_order, signature, instruction_index, inner_instruction_index`,
+      )
+      .all(...params) as EventRow[];
+
+    return rows.map((row) => ({
+      event: {
+        name: row.name,
+        data: deserializeEventData(row.data),
+      } as PerpetualsEvent,
+      signature: row.signature,
+      slot: row.slot,
+      blockTime: row.block_time,
+      instructionIndex: row.instruction_index,
+      innerInstructionIndex: row.inner_instruction_index,
+      feeInLamports: row.fee_in_lamports,
+    }));
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  /**
+   * Indexes signatures newer than the last indexed one (`signatures` is newest first), moving the newest
+   * signature forward after every transaction. On a position's first run, the first transaction stored also
+   * records the oldest signature and whether the history is `complete`
+   */
+  private async indexNewSignatures(
+    positionKey: PublicKey,
+    signatures: ConfirmedSignatureInfo[],
+    complete: boolean,
+    onProgress: IndexPositionOptions["onProgress"],
+  ) {
+    // Oldest first so the cursor never skips over a transaction that wasn't indexed
+    const oldestFirst = [...signatures].reverse();
+    const transactionOrders = this.getTransactionOrders(signatures, "after");
+    const upsertCursor = this.db.prepare(
+      `INSERT INTO position_cursors
+         (position_key, last_signature, last_slot, oldest_signature, oldest_block_time, history_complete)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (position_key) DO UPDATE SET last_signature = excluded.last_signature, last_slot = excluded.last_slot`,
+    );
+
+    for (let start = 0; start < oldestFirst.length; start += DEFAULT_TRANSACTION_BATCH_SIZE) {
+      const batch = oldestFirst.slice(start, start + DEFAULT_TRANSACTION_BATCH_SIZE);
+      const eventsBySignature = await this.fetchTransactionEvents(batch);
+
+      batch.forEach(({ signature, slot, blockTime }, i) => {
+        this.storeTransactions(
+          positionKey.toBase58(),
+          [
+            {
+              events: eventsBySignature.get(signature) ?? [],
+              order: transactionOrders.get(signature) ?? 0,
+            },
+          ],
+          () =>
+            upsertCursor.run(
+              positionKey.toBase58(),
+              signature,
+              slot,
+              signature,
+              blockTime ?? null,
+              complete ? 1 : 0,
+            ),
+        );
+        onProgress?.({ indexed: start + i + 1, total: oldestFirst.length });
+      });
+    }
+
+    return oldestFirst.length;
+  }
+
+  /**
+   * Indexes signatures older than the oldest indexed one (`signatures` is newest first), moving the oldest
+   * signature back after every batch
+   */
+  private async backfillSignatures(
+    positionKey: PublicKey,
+    signatures: ConfirmedSignatureInfo[],
+    complete: boolean,
+    onProgress: IndexPositionOptions["onProgress"],
+  ) {
+    const updateCursor = this.db.prepare(
+      `UPDATE position_cursors SET oldest_signature = ?, oldest_block_time = ?, history_complete = ?
+       WHERE position_key = ?`,
+    );
+    const transactionOrders = this.getTransactionOrders(signatures, "before");
+
+    for (let start = 0; start < signatures.length; start += DEFAULT_TRANSACTION_BATCH_SIZE) {
+      const batch = signatures.slice(start, start + DEFAULT_TRANSACTION_BATCH_SIZE);
+      const eventsBySignature = await this.fetchTransactionEvents(batch);
+      const oldest = batch[batch.length - 1];
+      const isLastBatch = start + batch.length === signatures.length;
+
+      this.storeTransactions(
+        positionKey.toBase58(),
+        batch.map(({ signature }) => ({
+          events: eventsBySignature.get(signature) ?? [],
+          order: transactionOrders.get(signature) ?? 0,
+        })),
+        () =>
+          updateCursor.run(
+            oldest.signature,
+            oldest.blockTime ?? null,
+            isLastBatch && complete ? 1 : 0,
+            positionKey.toBase58(),
+          ),
+      );
+      onProgress?.({ indexed: start + batch.length, total: signatures.length });
+    }
+
+    if (signatures.length === 0 && complete) {
+      this.db
+        .prepare("UPDATE position_cursors SET history_complete = 1 WHERE position_key = ?")
+        .run(positionKey.toBase58());
+    }
+
+    return signatures.length;
+  }
+
+  /**
+   * Walks back from `before` (or the newest signature) until `until` (exclusive) or `fromBlockTime`, newest first
+   *
+   * @returns The signatures and whether the walk reached the PDA's first signature
+   */
+  private async getSignatures(
+    positionKey: PublicKey,
+    { before, until, fromBlockTime }: { before?: string; until?: string; fromBlockTime?: number },
+  ): Promise<{ signatures: ConfirmedSignatureInfo[]; complete: boolean }> {
+    const signatures: ConfirmedSignatureInfo[] = [];
+
+    while (true) {
+      const page = await this.connection.getSignaturesForAddress(
+        positionKey,
+        { before, until, limit: SIGNATURES_PAGE_SIZE },
+        FINALITY,
+      );
+
+      for (const sigInfo of page) {
+        if (
+          fromBlockTime !== undefined &&
+          sigInfo.blockTime &&
+          sigInfo.blockTime < fromBlockTime
+        ) {
+          return { signatures, complete: false };
+        }
+
+        signatures.push(sigInfo);
+      }
+
+      if (page.length < SIGNATURES_PAGE_SIZE) {
+        return { signatures, complete: until === undefined };
+      }
+
+      before = page[page.length - 1].signature;
+    }
+  }
+
+  /**
+   * Numbers the transactions of each slot oldest first, in the order `getSignaturesForAddress` returned them
+   * (`signatures` is newest first). `signatures` are all newer (`after`) or all older (`before`) than the
+   * transactions already stored, so they're numbered after or before the stored transactions of the same slot.
+   * Neither the insertion order nor the signature orders transactions: a slot can span two backfilled batches and
+   * re-indexed events are replaced.
+   */
+  private getTransactionOrders(signatures: ConfirmedSignatureInfo[], placement: "after" | "before") {
+    const getStoredOrder = this.db.prepare(
+      placement === "after"
+        ? "SELECT MAX(transaction_order) AS transactionOrder FROM events WHERE slot = ?"
+        : "SELECT MIN(transaction_order) AS transactionOrder FROM events WHERE slot = ?",
+    );
+    const nextOrderBySlot = new Map<number, number>();
+    const transactionOrders = new Map<string, number>();
+    const step = placement === "after" ? 1 : -1;
+
+    (placement === "after" ? [...signatures].reverse() : signatures).forEach(({ signature, slot }) => {
+      let order = nextOrderBySlot.get(slot);
+
+      if (order === undefined) {
+        const { transactionOrder } = getStoredOrder.get(slot) as { transactionOrder: number | null };
+        order = transactionOrder === null ? 0 : transactionOrder + step;
+      }
+
+      transactionOrders.set(signature, order);
+      nextOrderBySlot.set(slot, order + step);
+    });
+
+    return transactionOrders;
+  }
+
+  private async fetchTransactionEvents(signatures: ConfirmedSignatureInfo[]) {
+    // Failed transactions don't emit events, so there's nothing to fetch
+    const signaturesToFetch = signatures.filter(({ err }) => !err);
+    const { transactions } = await getTransactionsBatched(
+      this.connection,
+      signaturesToFetch.map(({ signature }) => signature),
+      { commitment: FINALITY },
+    );
+    const eventsBySignature = new Map<string, DecodedEvent[]>();
+
+    for (const [i, sigInfo] of signaturesToFetch.entries()) {
+      const tx = transactions[i];
+
+      if (!tx) {
+        throw new Error(`Transaction ${sigInfo.signature} not found`);
+      }
+
+      const events = decodeTransactionEvents(tx);
+
+      // Events are queried by block time, so resolve it when the transaction response doesn't have it
+      if (!tx.blockTime && events.length > 0) {
+        const blockTime = sigInfo.blockTime ?? (await this.connection.getBlockTime(tx.slot));
+        events.forEach((evt) => (evt.blockTime = blockTime));
+      }
+
+      eventsBySignature.set(sigInfo.signature, events);
+    }
+
+    return eventsBySignature;
+  }
+
+  private storeTransactions(
+    positionKey: string,
+    transactions: { events: DecodedEvent[]; order: number }[],
+    updateCursor: () => void,
+  ) {
+    const insertEvent = this.db.prepare(
+      `INSERT OR REPLACE INTO events
+         (signature, transaction_order, instruction_index, inner_instruction_index, position_key, slot, block_time,
+          fee_in_lamports, name, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+
+    // The events and the cursor are written atomically so a crash never leaves a half indexed transaction
+    this.db.transaction(() => {
+      transactions.forEach(({ events, order }) => {
+        events.forEach((evt) => {
+          // Swap and other auxiliary events don't reference the position, so they're stored under the
+          // position the transaction was indexed for
+          const eventPositionKey =
+            "positionKey" in evt.event.data
+              ? evt.event.data.positionKey.toBase58()
+              : positionKey;
+
+          insertEvent.run(
+            evt.signature,
+            order,
+            evt.instructionIndex,
+            evt.innerInstructionIndex,
+            eventPositionKey,
+            evt.slot,
+            evt.blockTime,
+            evt.feeInLamports,
+            evt.event.name,
+            serializeEventData(evt.event.data),
+          );
+        });
+      });
+
+      updateCursor();
+    })();
+  }
+}
@@ -0,0 +1,167 @@
+import { BorshCoder, DISCRIMINATOR_SIZE, IdlEvents, utils } from "@coral-xyz/anchor";
+import { VersionedTransactionResponse } from "@solana/web3.js";
+import { JUPITER_PERPETUALS_PROGRAM_ID } from "./constants";
+import { IDL, Perpetuals } from "./idl/jupiter-perpetuals-idl";
+
+export type PerpetualsEventName = keyof IdlEvents<Perpetuals>;
+
+export type AnchorIdlEvent<EventName extends PerpetualsEventName> = {
+  name: EventName;
+  data: IdlEvents<Perpetuals>[EventName];
+};
+
+// Discriminated union of every event in the IDL, narrow it with `event.name`
+export type PerpetualsEvent = {
+  [EventName in PerpetualsEventName]: AnchorIdlEvent<EventName>;
+}[PerpetualsEventName];
+
+export type CreatePositionRequestEvent = AnchorIdlEvent<"CreatePositionRequestEvent">;
+export type InstantCreateTpslEvent = AnchorIdlEvent<"InstantCreateTpslEvent">;
+export type InstantUpdateTpslEvent = AnchorIdlEvent<"InstantUpdateTpslEvent">;
+export type ClosePositionRequestEvent = AnchorIdlEvent<"ClosePositionRequestEvent">;
+export type IncreasePositionEvent = AnchorIdlEvent<"IncreasePositionEvent">;
+export type IncreasePositionPreSwapEvent = AnchorIdlEvent<"IncreasePositionPreSwapEvent">;
+export type DecreasePositionEvent = AnchorIdlEvent<"DecreasePositionEvent">;
+export type DecreasePositionPostSwapEvent = AnchorIdlEvent<"DecreasePositionPostSwapEvent">;
+export type LiquidateFullPositionEvent = AnchorIdlEvent<"LiquidateFullPositionEvent">;
+export type PoolSwapEvent = AnchorIdlEvent<"PoolSwapEvent">;
+export type PoolSwapExactOutEvent = AnchorIdlEvent<"PoolSwapExactOutEvent">;
+export type AddLiquidityEvent = AnchorIdlEvent<"AddLiquidityEvent">;
+export type RemoveLiquidityEvent = AnchorIdlEvent<"RemoveLiquidityEvent">;
+export type InstantCreateLimitOrderEvent = AnchorIdlEvent<"InstantCreateLimitOrderEvent">;
+export type InstantIncreasePositionEvent = AnchorIdlEvent<"InstantIncreasePositionEvent">;
+export type InstantDecreasePositionEvent = AnchorIdlEvent<"InstantDecreasePositionEvent">;
+
+export interface DecodedEvent<Event extends PerpetualsEvent = PerpetualsEvent> {
+  event: Event;
+  signature: string;
+  slot: number;
+  // Unix timestamp in seconds, `null` when the RPC node doesn't have the block time
+  blockTime: number | null;
+  // The index of the top level instruction that emitted the event
+  instructionIndex: number;
+  // The index of the event's self-CPI within the top level instruction's inner instructions
+  innerInstructionIndex: number;
+  // The transaction fee in lamports
+  feeInLamports: number;
+}
+
+const coder = new BorshCoder(IDL);
+
+// Anchor's `emit_cpi!` prefixes the event with its `EVENT_IX_TAG` so the event CPI can be told apart from regular
+// instructions. The tag is the u64 0x1d9acb512ea545e4 (the first 8 bytes of sha256("anchor:event")), written
+// little-endian
+const EVENT_IX_TAG = Buffer.from("e445a52e51cb9a1d", "hex");
+
+/**
+ * Decodes the Jupiter Perpetuals events emitted by a transaction
+ *
+ * The program emits events through Anchor's CPI events (https://book.anchor-lang.com/anchor_in_depth/events.html),
+ * i.e. as inner instructions that call back into the program. Only inner instructions invoking the perpetuals
+ * program with the event tag are decoded, so other programs' instructions are never mistaken for events.
+ * Field values are returned as decoded (`BN`, `PublicKey` and so on), use `formatEventData` to display them.
+ *
+ * @returns The events in the order they were emitted, or an empty array for failed transactions
+ */
+export function decodeTransactionEvents(
+  tx: VersionedTransactionResponse,
+): DecodedEvent[] {
+  if (!tx.meta || tx.meta.err || !tx.meta.innerInstructions) {
+    return [];
+  }
+
+  // Versioned transactions can reference the perpetuals program through an address lookup table
+  const accountKeys = tx.transaction.message.getAccountKeys({
+    accountKeysFromLookups: tx.meta.loadedAddresses,
+  });
+  const signature = tx.transaction.signatures[0];
+  const feeInLamports = tx.meta.fee;
+
+  const innerInstructions = [...tx.meta.innerInstructions].sort(
+    (a, b) => a.index - b.index,
+  );
+
+  return innerInstructions.flatMap(({ index, instructions }) =>
+    instructions.flatMap((iix, innerInstructionIndex) => {
+      const programId = accountKeys.get(iix.programIdIndex);
+
+      if (!programId?.equals(JUPITER_PERPETUALS_PROGRAM_ID)) {
+        return [];
+      }
+
+      const ixData = Buffer.from(utils.bytes.bs58.decode(iix.data));
+
+      if (!ixData.subarray(0, DISCRIMINATOR_SIZE).equals(EVENT_IX_TAG)) {
+        return [];
+      }
+
+      const event = coder.events.decode(
+        utils.bytes.base64.encode(ixData.subarray(DISCRIMINATOR_SIZE)),
+      );
+
+      if (!event) {
+        return [];
+      }
+
+      return [
+        {
+          event: event as PerpetualsEvent,
+          signature,
+          slot: tx.slot,
+          blockTime: tx.blockTime ?? null,
+          instructionIndex: index,
+          innerInstructionIndex,
+          feeInLamports,
+        },
+      ];
+    }),
+  );
+}
+
+// Narrows a decoded event to one of `eventNames`, e.g. `events.filter((e) => isEventOfType(e, ["PoolSwapEvent"]))`
+export function isEventOfType<
+  Event extends DecodedEvent,
+  EventName extends PerpetualsEventName,
+>(
+  decodedEvent: Event,
+  eventNames: readonly EventName[],
+): decodedEvent is Event & {
+  event: Extract<PerpetualsEvent, { name: EventName }>;
+} {
+  return (eventNames as readonly PerpetualsEventName[]).includes(
+    decodedEvent.event.name,
+  );
+}
+
+// Uniquely identifies an event: the transaction it was emitted by and its position in the transaction
+export const getEventKey = (decodedEvent: DecodedEvent) =>
+  `${decodedEvent.signature}:${decodedEvent.instructionIndex}:${decodedEvent.innerInstructionIndex}`;
+
+/**
+ * Sorts events in the order they were emitted, by slot, transaction and instruction index, dropping duplicates
+ *
+ * `getTransaction` doesn't return the transaction's index within its block, so transactions in the same slot
+ * keep the order they appear in `events`. Pass them oldest first, i.e. reverse the newest first order of
+ * `getSignaturesForAddress`.
+ */
+export function sortEvents<Event extends DecodedEvent>(events: Event[]): Event[] {
+  const uniqueEvents = new Map<string, Event>();
+  const transactionOrder = new Map<string, number>();
+
+  events.forEach((evt) => {
+    const key = getEventKey(evt);
+
+    if (!uniqueEvents.has(key)) uniqueEvents.set(key, evt);
+    if (!transactionOrder.has(evt.signature)) {
+      transactionOrder.set(evt.signature, transactionOrder.size);
+    }
+  });
+
+  return Array.from(uniqueEvents.values()).sort(
+    (a, b) =>
+      a.slot - b.slot ||
+      (transactionOrder.get(a.signature) ?? 0) - (transactionOrder.get(b.signature) ?? 0) ||
+      a.instructionIndex - b.instructionIndex ||
+      a.innerInstructionIndex - b.innerInstructionIndex,
+  );
+}
@@ -0,0 +1,294 @@
+import { BN, Program } from "@coral-xyz/anchor";
+import { Blockhash, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  getAssociatedTokenAddressSync,
+  NATIVE_MINT,
+} from "@solana/spl-token";
+import { ContractTypes, CustodyAccount } from "../types";
+import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import { generatePerpetualsPda, generatePositionRequestPda } from "../pda";
+import { buildUnsignedTransaction } from "../transaction";
+import { JLP_POOL_ACCOUNT_PUBKEY } from "../constants";
+
+// Accounts and amounts shared by the market and `Request2` decrease builders
+interface DecreasePositionRequestArgs {
+  custody: CustodyAccount;
+  collateralCustody: CustodyAccount;
+  // The mint the user wants to receive. If it differs from the collateral custody's mint the keeper will swap
+  // the withdrawn collateral through Jupiter and `jupiterMinimumOut` is required
+  desiredMint: PublicKey;
+  jupiterMinimumOut: BN | null;
+  owner: PublicKey;
+  program: Program<Perpetuals>;
+  recentBlockhash: Blockhash;
+  positionPubkey: PublicKey;
+  // Partial decreases: the USD size (and optionally the collateral) to withdraw from the position.
+  // Both are ignored when `entirePosition` is set
+  sizeUsdDelta?: BN;
+  collateralUsdDelta?: BN;
+  entirePosition?: boolean;
+}
+
+function getDecreaseAmounts({
+  sizeUsdDelta,
+  collateralUsdDelta,
+  entirePosition,
+}: Pick<
+  DecreasePositionRequestArgs,
+  "sizeUsdDelta" | "collateralUsdDelta" | "entirePosition"
+>) {
+  // The program reads the position's size and collateral when `entirePosition` is set, so the deltas must be zero
+  if (entirePosition) {
+    return {
+      sizeUsdDelta: new BN(0),
+      collateralUsdDelta: new BN(0),
+      entirePosition: true,
+    };
+  }
+
+  if (!sizeUsdDelta || sizeUsdDelta.lten(0)) {
+    throw new Error(
+      "sizeUsdDelta must be greater than zero for partial decreases",
+    );
+  }
+
+  return {
+    sizeUsdDelta,
+    collateralUsdDelta: collateralUsdDelta ?? new BN(0),
+    entirePosition: null,
+  };
+}
+
+// Derives the `positionRequest` PDA and the token accounts that receive the withdrawn collateral
+function getDecreaseRequestAccounts({
+  desiredMint,
+  owner,
+  positionPubkey,
+}: Pick<DecreasePositionRequestArgs, "desiredMint" | "owner" | "positionPubkey">) {
+  const { positionRequest, counter } = generatePositionRequestPda({
+    positionPubkey,
+    requestChange: "decrease",
+  });
+
+  // The `positionRequestAta` temporarily holds the `desiredMint` tokens before they're transferred to the
+  // `receivingAccount` when the keeper executes the request
+  const positionRequestAta = getAssociatedTokenAddressSync(
+    desiredMint,
+    positionRequest,
+    true,
+  );
+
+  const receivingAccount = getAssociatedTokenAddressSync(desiredMint, owner);
+
+  // The receiving account has to exist by the time the keeper executes the request
+  const preInstructions: TransactionInstruction[] = [
+    createAssociatedTokenAccountIdempotentInstruction(
+      owner,
+      receivingAccount,
+      owner,
+      desiredMint,
+    ),
+  ];
+
+  return {
+    positionRequest,
+    counter,
+    positionRequestAta,
+    receivingAccount,
+    preInstructions,
+  };
+}
+
+function getJupiterMinimumOut(
+  jupiterMinimumOut: BN | null,
+  collateralCustody: CustodyAccount,
+  desiredMint: PublicKey,
+) {
+  // jupiterMinimumOut is required for trades that require swaps
+  // Call the Jupiter Quote API (https://station.jup.ag/api-v6/get-quote) to convert the withdrawn collateral
+  // to get the `jupiterMinimumOut` which is the required minimum token out amount when the swap is performed
+  if (collateralCustody.account.mint.equals(desiredMint)) {
+    return null;
+  }
+
+  // A zero minimum out would accept any swap output, i.e. disable the swap's slippage protection
+  if (!jupiterMinimumOut || !jupiterMinimumOut.gtn(0)) {
+    throw new Error(
+      `A positive jupiterMinimumOut is required to receive ${desiredMint.toBase58()} from ${collateralCustody.account.mint.toBase58()} collateral`,
+    );
+  }
+
+  return jupiterMinimumOut;
+}
+
+/**
+ * Builds an unsigned transaction that creates a market decrease (or close) request for a position
+ *
+ * @returns The unsigned transaction and the `positionRequest` PDA the keeper will execute
+ */
+export async function constructMarketDecreasePositionRequest({
+  custody,
+  collateralCustody,
+  desiredMint,
+  jupiterMinimumOut,
+  owner,
+  priceSlippage,
+  program,
+  recentBlockhash,
+  positionPubkey,
+  ...amounts
+}: DecreasePositionRequestArgs & {
+  priceSlippage: BN;
+}) {
+  const { positionRequest, counter, positionRequestAta, receivingAccount, preInstructions } =
+    getDecreaseRequestAccounts({ desiredMint, owner, positionPubkey });
+
+  const decreaseIx = await program.methods
+    .createDecreasePositionMarketRequest({
+      counter,
+      ...getDecreaseAmounts(amounts),
+      jupiterMinimumOut: getJupiterMinimumOut(
+        jupiterMinimumOut,
+        collateralCustody,
+        desiredMint,
+      ),
+      priceSlippage,
+    })
+    .accounts({
+      owner,
+      receivingAccount,
+      perpetuals: generatePerpetualsPda().perpetuals,
+      pool: JLP_POOL_ACCOUNT_PUBKEY,
+      position: positionPubkey,
+      positionRequest,
+      positionRequestAta,
+      custody: custody.publicKey,
+      collateralCustody: collateralCustody.publicKey,
+      desiredMint,
+      referral: null,
+    })
+    .instruction();
+
+  // This transaction can be then signed and submitted onchain for the keeper to execute the request
+  // https://station.jup.ag/guides/perpetual-exchange/request-fulfillment-model
+  const tx = await buildUnsignedTransaction({
+    connection: program.provider.connection,
+    instructions: [...preInstructions, decreaseIx],
+    payer: owner,
+    recentBlockhash,
+  });
+
+  return { tx, positionRequest };
+}
+
+/**
+ * Builds an unsigned transaction for `createDecreasePositionRequest2`, which supports both market decreases
+ * and trigger (TP/SL style) decreases that the keeper executes once `triggerPrice` is crossed
+ *
+ * @returns The unsigned transaction and the `positionRequest` PDA the keeper will execute
+ */
+export async function constructDecreasePositionRequest2({
+  custody,
+  collateralCustody,
+  desiredMint,
+  jupiterMinimumOut,
+  owner,
+  program,
+  recentBlockhash,
+  positionPubkey,
+  requestType,
+  priceSlippage,
+  triggerPrice,
+  triggerAboveThreshold,
+  ...amounts
+}: DecreasePositionRequestArgs & {
+  requestType: ContractTypes["RequestType"];
+  priceSlippage?: BN;
+  triggerPrice?: BN;
+  triggerAboveThreshold?: boolean;
+}) {
+  if (requestType.market && !priceSlippage) {
+    throw new Error("priceSlippage is required for market requests");
+  }
+
+  if (
+    requestType.trigger &&
+    (!triggerPrice || triggerAboveThreshold === undefined)
+  ) {
+    throw new Error(
+      "triggerPrice and triggerAboveThreshold are required for trigger requests",
+    );
+  }
+
+  const { positionRequest, counter, positionRequestAta, receivingAccount, preInstructions } =
+    getDecreaseRequestAccounts({ desiredMint, owner, positionPubkey });
+
+  const decreaseIx = await program.methods
+    .createDecreasePositionRequest2({
+      counter,
+      ...getDecreaseAmounts(amounts),
+      jupiterMinimumOut: getJupiterMinimumOut(
+        jupiterMinimumOut,
+        collateralCustody,
+        desiredMint,
+      ),
+      requestType,
+      priceSlippage: priceSlippage ?? null,
+      triggerPrice: triggerPrice ?? null,
+      triggerAboveThreshold: triggerAboveThreshold ?? null,
+    })
+    .accounts({
+      owner,
+      receivingAccount,
+      perpetuals: generatePerpetualsPda().perpetuals,
+      pool: JLP_POOL_ACCOUNT_PUBKEY,
+      position: positionPubkey,
+      positionRequest,
+      positionRequestAta,
+      custody: custody.publicKey,
+      custodyDovesPriceAccount: custody.account.dovesOracle,
+      custodyPythnetPriceAccount: custody.account.oracle.oracleAccount,
+      collateralCustody: collateralCustody.publicKey,
+      desiredMint,
+      referral: null,
+    })
+    .instruction();
+
+  const tx = await buildUnsignedTransaction({
+    connection: program.provider.connection,
+    instructions: [...preInstructions, decreaseIx],
+    payer: owner,
+    recentBlockhash,
+  });
+
+  return { tx, positionRequest };
+}
+
+/**
+ * Builds an unsigned transaction that closes the owner's wSOL token account, unwrapping its balance back to
+ * native SOL.
+ *
+ * Decrease requests are executed asynchronously by the keeper, so a request with `desiredMint = NATIVE_MINT`
+ * pays out wSOL into the owner's wSOL associated token account. Submit this transaction once the request
+ * has been executed to receive native SOL.
+ */
+export async function constructUnwrapSolTransaction({
+  owner,
+  program,
+  recentBlockhash,
+}: {
+  owner: PublicKey;
+  program: Program<Perpetuals>;
+  recentBlockhash: Blockhash;
+}) {
+  const wrappedSolAta = getAssociatedTokenAddressSync(NATIVE_MINT, owner);
+
+  return buildUnsignedTransaction({
+    connection: program.provider.connection,
+    instructions: [createCloseAccountInstruction(wrappedSolAta, owner, owner)],
+    payer: owner,
+    recentBlockhash,
+  });
+}
@@ -1,16 +1,14 @@
 import { BN, Program } from "@coral-xyz/anchor";
 import {
   Blockhash,
-  ComputeBudgetProgram,
   PublicKey,
   SystemProgram,
   TransactionInstruction,
-  TransactionMessage,
-  VersionedTransaction,
 } from "@solana/web3.js";
 import { CustodyAccount, Position } from "../types";
 import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
-import { generatePositionRequestPda } from "./generate-position-and-position-request-pda";
+import { generatePerpetualsPda, generatePositionRequestPda } from "../pda";
+import { buildUnsignedTransaction } from "../transaction";
 import {
   createAssociatedTokenAccountIdempotentInstruction,
   createCloseAccountInstruction,
@@ -18,11 +16,7 @@ import {
   getAssociatedTokenAddressSync,
   NATIVE_MINT,
 } from "@solana/spl-token";
-import {
-  JLP_POOL_ACCOUNT_PUBKEY,
-  JUPITER_PERPETUALS_PROGRAM_ID,
-  RPC_CONNECTION,
-} from "../constants";
+import { JLP_POOL_ACCOUNT_PUBKEY } from "../constants";
 
 export async function constructMarketOpenPositionRequest({
   custody,
@@ -124,10 +118,7 @@ export async function constructMarketOpenPositionRequest({
       fundingAccount,
       inputMint,
       owner,
-      perpetuals: PublicKey.findProgramAddressSync(
-        [Buffer.from("perpetuals")],
-        JUPITER_PERPETUALS_PROGRAM_ID,
-      )[0],
+      perpetuals: generatePerpetualsPda().perpetuals,
       pool: JLP_POOL_ACCOUNT_PUBKEY,
       position: positionPubkey,
       positionRequest,
@@ -136,45 +127,14 @@ export async function constructMarketOpenPositionRequest({
     })
     .instruction();
 
-  const instructions = [
-    ComputeBudgetProgram.setComputeUnitPrice({
-      microLamports: 100000, // Get the estimated compute unit price here from RPC or a provider like Triton
-    }),
-    ...preInstructions,
-    increaseIx,
-    ...postInstructions,
-  ];
-
-  const simulateTx = new VersionedTransaction(
-    new TransactionMessage({
-      instructions,
-      // `payerKey` for simulation can be any account as long as it has enough SOL to cover the gas fees
-      payerKey: PublicKey.default,
-      // We don't need to pass in a real blockhash here since the `replaceRecentBlockhash`
-      // option in `simulateTransaction` gets the latest blockhash from the RPC's internal cache
-      // Reference: https://github.com/anza-xyz/agave/blob/master/rpc/src/rpc.rs#L3890-L3907
-      recentBlockhash: PublicKey.default.toString(),
-    }).compileToV0Message([]),
-  );
-
-  const simulation = await RPC_CONNECTION.simulateTransaction(simulateTx, {
-    replaceRecentBlockhash: true,
-    sigVerify: false,
-  });
-
-  instructions.unshift(
-    ComputeBudgetProgram.setComputeUnitLimit({
-      units: simulation.value.unitsConsumed || 1_400_000,
-    }),
-  );
-
-  const txMessage = new TransactionMessage({
-    payerKey: owner,
-    recentBlockhash,
-    instructions,
-  }).compileToV0Message();
-
   // This transaction can be then signed and submitted onchain for the keeper to execute the trade
   // https://station.jup.ag/guides/perpetual-exchange/request-fulfillment-model
-  const tx = new VersionedTransaction(txMessage);
+  const tx = await buildUnsignedTransaction({
+    connection: program.provider.connection,
+    instructions: [...preInstructions, increaseIx, ...postInstructions],
+    payer: owner,
+    recentBlockhash,
+  });
+
+  return { tx, positionRequest };
 }
@@ -0,0 +1,409 @@
+import { BN, Program } from "@coral-xyz/anchor";
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createSyncNativeInstruction,
+  getAssociatedTokenAddressSync,
+  NATIVE_MINT,
+} from "@solana/spl-token";
+import {
+  CustodyAccount,
+  Position,
+  PositionAccount,
+  PositionRequestAccount,
+} from "../types";
+import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import { generatePerpetualsPda, generatePositionRequestPda } from "../pda";
+import { JLP_POOL_ACCOUNT_PUBKEY } from "../constants";
+
+/**
+ * The `instant*` instructions are co-signed by Jupiter's keepers (`keeper` and `apiKeeper`), so unlike the
+ * market request builders these only return the instructions. The keepers add their signatures before the
+ * transaction is submitted.
+ */
+
+export type TpslKind = "takeProfit" | "stopLoss";
+
+// The keeper signers required by all `instant*` instructions
+interface InstantKeepers {
+  keeper: PublicKey;
+  apiKeeper: PublicKey;
+}
+
+const getRequestTime = () => new BN(Math.floor(Date.now() / 1000));
+
+/**
+ * Checks that a TP/SL trigger price is on the correct side of the position's entry price.
+ *
+ * A take profit must trigger when the position is in profit (above the entry price for longs, below for
+ * shorts) and a stop loss when it is at a loss. `triggerAboveThreshold` must match the direction the price has
+ * to move in for the order to trigger.
+ */
+export function validateTpslTriggerPrice({
+  kind,
+  position,
+  triggerPrice,
+  triggerAboveThreshold,
+}: {
+  kind: TpslKind;
+  position: Position;
+  triggerPrice: BN;
+  triggerAboveThreshold: boolean;
+}) {
+  const isLong = !!position.side.long;
+  // Longs profit when the price goes up, shorts when it goes down
+  const expectedAboveThreshold = isLong === (kind === "takeProfit");
+
+  if (triggerAboveThreshold !== expectedAboveThreshold) {
+    throw new Error(
+      `triggerAboveThreshold must be ${expectedAboveThreshold} for a ${isLong ? "long" : "short"} ${kind}`,
+    );
+  }
+
+  const isValidSide = expectedAboveThreshold
+    ? triggerPrice.gt(position.price)
+    : triggerPrice.lt(position.price);
+
+  if (!isValidSide) {
+    throw new Error(
+      `${kind} trigger price ${triggerPrice.toString()} must be ${expectedAboveThreshold ? "above" : "below"} the entry price ${position.price.toString()} for a ${isLong ? "long" : "short"} position`,
+    );
+  }
+}
+
+// Whether an existing TP/SL request is a take profit or a stop loss
+export function getTpslKind(
+  position: Position,
+  triggerAboveThreshold: boolean,
+): TpslKind {
+  return triggerAboveThreshold === !!position.side.long
+    ? "takeProfit"
+    : "stopLoss";
+}
+
+/**
+ * Builds the `instantCreateTpsl` instruction which attaches a take profit or stop loss to an open position
+ *
+ * @param sizeUsdDelta The USD size to close when triggered. Ignored when `entirePosition` is set
+ * @param desiredMint The mint to receive when the request is executed
+ */
+export async function constructInstantCreateTpslInstruction({
+  kind,
+  position,
+  custody,
+  collateralCustody,
+  desiredMint,
+  triggerPrice,
+  triggerAboveThreshold,
+  sizeUsdDelta,
+  entirePosition = false,
+  program,
+  keeper,
+  apiKeeper,
+}: InstantKeepers & {
+  kind: TpslKind;
+  position: PositionAccount;
+  custody: CustodyAccount;
+  collateralCustody: CustodyAccount;
+  desiredMint: PublicKey;
+  triggerPrice: BN;
+  triggerAboveThreshold: boolean;
+  sizeUsdDelta?: BN;
+  entirePosition?: boolean;
+  program: Program<Perpetuals>;
+}) {
+  if (position.account.sizeUsd.isZero()) {
+    throw new Error(
+      `Position ${position.publicKey.toBase58()} is closed, cannot create a ${kind}`,
+    );
+  }
+
+  validateTpslTriggerPrice({
+    kind,
+    position: position.account,
+    triggerPrice,
+    triggerAboveThreshold,
+  });
+
+  if (!entirePosition && (!sizeUsdDelta || sizeUsdDelta.lten(0))) {
+    throw new Error(
+      "sizeUsdDelta must be greater than zero unless entirePosition is set",
+    );
+  }
+
+  const owner = position.account.owner;
+
+  const { positionRequest, counter } = generatePositionRequestPda({
+    positionPubkey: position.publicKey,
+    requestChange: "decrease",
+  });
+
+  const positionRequestAta = getAssociatedTokenAddressSync(
+    desiredMint,
+    positionRequest,
+    true,
+  );
+  const receivingAccount = getAssociatedTokenAddressSync(desiredMint, owner);
+
+  const tpslIx = await program.methods
+    .instantCreateTpsl({
+      collateralUsdDelta: new BN(0),
+      sizeUsdDelta: entirePosition ? new BN(0) : sizeUsdDelta!,
+      triggerPrice,
+      triggerAboveThreshold,
+      entirePosition,
+      counter,
+      requestTime: getRequestTime(),
+    })
+    .accounts({
+      keeper,
+      apiKeeper,
+      owner,
+      receivingAccount,
+      perpetuals: generatePerpetualsPda().perpetuals,
+      pool: JLP_POOL_ACCOUNT_PUBKEY,
+      position: position.publicKey,
+      positionRequest,
+      positionRequestAta,
+      custody: custody.publicKey,
+      custodyDovesPriceAccount: custody.account.dovesOracle,
+      custodyPythnetPriceAccount: custody.account.oracle.oracleAccount,
+      collateralCustody: collateralCustody.publicKey,
+      desiredMint,
+      referral: null,
+    })
+    .instruction();
+
+  return {
+    instructions: [
+      createAssociatedTokenAccountIdempotentInstruction(
+        owner,
+        receivingAccount,
+        owner,
+        desiredMint,
+      ),
+      tpslIx,
+    ],
+    positionRequest,
+  };
+}
+
+/**
+ * Builds the `instantUpdateTpsl` instruction which moves the trigger price (and size) of an existing TP/SL.
+ * Whether the request is a take profit or stop loss is derived from its `triggerAboveThreshold`.
+ */
+export async function constructInstantUpdateTpslInstruction({
+  position,
+  positionRequest,
+  custody,
+  triggerPrice,
+  sizeUsdDelta,
+  program,
+  keeper,
+  apiKeeper,
+}: InstantKeepers & {
+  position: PositionAccount;
+  positionRequest: PositionRequestAccount;
+  custody: CustodyAccount;
+  triggerPrice: BN;
+  sizeUsdDelta?: BN;
+  program: Program<Perpetuals>;
+}) {
+  const { triggerAboveThreshold } = positionRequest.account;
+
+  if (triggerAboveThreshold === null) {
+    throw new Error(
+      `Position request ${positionRequest.publicKey.toBase58()} is not a TP/SL request`,
+    );
+  }
+
+  validateTpslTriggerPrice({
+    kind: getTpslKind(position.account, triggerAboveThreshold),
+    position: position.account,
+    triggerPrice,
+    triggerAboveThreshold,
+  });
+
+  const updateIx = await program.methods
+    .instantUpdateTpsl({
+      sizeUsdDelta: sizeUsdDelta ?? positionRequest.account.sizeUsdDelta,
+      triggerPrice,
+      requestTime: getRequestTime(),
+    })
+    .accounts({
+      keeper,
+      apiKeeper,
+      owner: position.account.owner,
+      perpetuals: generatePerpetualsPda().perpetuals,
+      pool: JLP_POOL_ACCOUNT_PUBKEY,
+      position: position.publicKey,
+      positionRequest: positionRequest.publicKey,
+      custody: custody.publicKey,
+      custodyDovesPriceAccount: custody.account.dovesOracle,
+      custodyPythnetPriceAccount: custody.account.oracle.oracleAccount,
+    })
+    .instruction();
+
+  return {
+    instructions: [updateIx],
+    positionRequest: positionRequest.publicKey,
+  };
+}
+
+/**
+ * Builds the `instantCreateLimitOrder` instruction which opens (or increases) a position once the price
+ * crosses `triggerPrice`. Longs trigger when the price falls to the trigger price and shorts when it rises to it.
+ *
+ * @param inputMint The mint used to fund the collateral. SOL is wrapped to wSOL automatically
+ */
+export async function constructInstantCreateLimitOrderInstruction({
+  owner,
+  positionPubkey,
+  custody,
+  collateralCustody,
+  inputMint,
+  collateralTokenDelta,
+  sizeUsdDelta,
+  side,
+  triggerPrice,
+  program,
+  keeper,
+  apiKeeper,
+}: InstantKeepers & {
+  owner: PublicKey;
+  positionPubkey: PublicKey;
+  custody: CustodyAccount;
+  collateralCustody: CustodyAccount;
+  inputMint: PublicKey;
+  collateralTokenDelta: BN;
+  sizeUsdDelta: BN;
+  side: Position["side"];
+  triggerPrice: BN;
+  program: Program<Perpetuals>;
+}) {
+  const { positionRequest, counter } = generatePositionRequestPda({
+    positionPubkey,
+    requestChange: "increase",
+  });
+
+  const positionRequestAta = getAssociatedTokenAddressSync(
+    inputMint,
+    positionRequest,
+    true,
+  );
+  const fundingAccount = getAssociatedTokenAddressSync(inputMint, owner);
+
+  const preInstructions: TransactionInstruction[] = [];
+  const postInstructions: TransactionInstruction[] = [];
+
+  // Wrap to wSOL if needed so we can treat SOL as an SPL token
+  // https://spl.solana.com/token#example-wrapping-sol-in-a-token
+  if (inputMint.equals(NATIVE_MINT)) {
+    preInstructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(
+        owner,
+        fundingAccount,
+        owner,
+        NATIVE_MINT,
+      ),
+      SystemProgram.transfer({
+        fromPubkey: owner,
+        toPubkey: fundingAccount,
+        lamports: BigInt(collateralTokenDelta.toString()),
+      }),
+      createSyncNativeInstruction(fundingAccount),
+    );
+
+    postInstructions.push(
+      createCloseAccountInstruction(fundingAccount, owner, owner),
+    );
+  }
+
+  const limitOrderIx = await program.methods
+    .instantCreateLimitOrder({
+      sizeUsdDelta,
+      collateralTokenDelta,
+      side,
+      triggerPrice,
+      // Limit orders buy the dip for longs and sell the rip for shorts
+      triggerAboveThreshold: !!side.short,
+      counter,
+      requestTime: getRequestTime(),
+    })
+    .accounts({
+      keeper,
+      apiKeeper,
+      owner,
+      fundingAccount,
+      perpetuals: generatePerpetualsPda().perpetuals,
+      pool: JLP_POOL_ACCOUNT_PUBKEY,
+      position: positionPubkey,
+      positionRequest,
+      positionRequestAta,
+      custody: custody.publicKey,
+      custodyDovesPriceAccount: custody.account.dovesOracle,
+      custodyPythnetPriceAccount: custody.account.oracle.oracleAccount,
+      collateralCustody: collateralCustody.publicKey,
+      inputMint,
+      referral: null,
+    })
+    .instruction();
+
+  return {
+    instructions: [...preInstructions, limitOrderIx, ...postInstructions],
+    positionRequest,
+  };
+}
+
+// Builds the `instantUpdateLimitOrder` instruction which changes the size and trigger price of a pending limit order
+export async function constructInstantUpdateLimitOrderInstruction({
+  positionRequest,
+  custody,
+  triggerPrice,
+  sizeUsdDelta,
+  program,
+  keeper,
+  apiKeeper,
+}: InstantKeepers & {
+  positionRequest: PositionRequestAccount;
+  custody: CustodyAccount;
+  triggerPrice: BN;
+  sizeUsdDelta?: BN;
+  program: Program<Perpetuals>;
+}) {
+  if (!positionRequest.account.requestChange.increase) {
+    throw new Error(
+      `Position request ${positionRequest.publicKey.toBase58()} is not a limit order`,
+    );
+  }
+
+  const updateIx = await program.methods
+    .instantUpdateLimitOrder({
+      sizeUsdDelta: sizeUsdDelta ?? positionRequest.account.sizeUsdDelta,
+      triggerPrice,
+      requestTime: getRequestTime(),
+    })
+    .accounts({
+      keeper,
+      apiKeeper,
+      owner: positionRequest.account.owner,
+      perpetuals: generatePerpetualsPda().perpetuals,
+      pool: JLP_POOL_ACCOUNT_PUBKEY,
+      position: positionRequest.account.position,
+      positionRequest: positionRequest.publicKey,
+      custody: custody.publicKey,
+      custodyDovesPriceAccount: custody.account.dovesOracle,
+      custodyPythnetPriceAccount: custody.account.oracle.oracleAccount,
+    })
+    .instruction();
+
+  return {
+    instructions: [updateIx],
+    positionRequest: positionRequest.publicKey,
+  };
+}
@@ -1,19 +1,12 @@
-import { DISCRIMINATOR_SIZE, IdlEvents, utils } from "@coral-xyz/anchor";
-import {
-  JUPITER_PERPETUALS_PROGRAM,
-  RPC_CONNECTION,
-  USDC_DECIMALS,
-} from "../constants";
-import { Finality, PublicKey } from "@solana/web3.js";
-import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import { RPC_URLS } from "../constants";
+import { Connection, Finality } from "@solana/web3.js";
 import { inspect } from 'util';
-import { BN } from "@coral-xyz/anchor";
-import { BNToUSDRepresentation } from "../utils";
-
-type AnchorIdlEvent<EventName extends keyof IdlEvents<Perpetuals>> = {
-  name: EventName;
-  data: IdlEvents<Perpetuals>[EventName];
-};
+import { DecodedEvent, decodeTransactionEvents } from "../events";
+import { toEventWithTx } from "../event-format";
+import { createPooledConnection } from "../rpc-pool";
+import { DEFAULT_TRANSACTION_BATCH_SIZE, getTransactionsBatched } from "../transaction-fetcher";
+import { decodeArchiveEvents } from "../transaction-archive";
+import { groupEventsIntoTrades } from "../trades";
 
 // Define event types for easier filtering
 export type EventType = 
@@ -28,78 +21,44 @@ export type EventType =
   | 'ClosePositionRequestEvent'
   | 'AllEvents'; // Special type to include all events
 
-// Helper function to format event data to make it human-readable
-function formatEventData(event: any): any {
-  if (!event) return null;
-  
-  const { name, data } = event;
-  
-  // Create a new clean object instead of modifying the original
-  const cleanData: any = {};
-  
-  // Convert PublicKeys to strings and format numbers
-  Object.keys(data).forEach(key => {
-    const value = data[key];
+// Filters the decoded events by type and formats them for display
+function filterAndFormatEvents(allEvents: DecodedEvent[], eventTypes: EventType[]) {
+  // Filter events by type if specified
+  if (eventTypes.includes('AllEvents')) {
+    return allEvents.map(toEventWithTx);
+  } else {
+    const filteredEvents = allEvents.filter(
+      (data) => eventTypes.includes(data.event.name as EventType)
+    );
     
-    // Handle PublicKey objects
-    if (value instanceof PublicKey) {
-      cleanData[key] = value.toString();
-    }
-    // Handle BigNumbers (BN)
-    else if (value instanceof BN) {
-      if (key.includes('Usd') || key.includes('usd') || key.includes('Price') || key.includes('price') || key === 'pnlDelta') {
-        cleanData[key] = `$${BNToUSDRepresentation(value, USDC_DECIMALS)}`;
-      } else if (key.includes('Time')) {
-        cleanData[key] = new Date(value.toNumber() * 1000).toISOString();
-      } else {
-        cleanData[key] = value.toString();
-      }
-    }
-    // Handle arrays
-    else if (Array.isArray(value)) {
-      cleanData[key] = value;
-    }
-    // Handle side enum
-    else if (key === 'positionSide') {
-      cleanData[key] = value === 1 ? "Long" : "Short";
-    }
-    // Handle null values
-    else if (value === null) {
-      cleanData[key] = null;
-    }
-    // Handle regular values
-    else {
-      cleanData[key] = value;
-    }
-  });
-  
-  return {
-    name,
-    data: cleanData
-  };
+    console.log(`Filtered to ${filteredEvents.length} events of types: ${eventTypes.join(', ')}`);
+    return filteredEvents.map(toEventWithTx);
+  }
 }
 
 /**
- * Fetches and parses events for the specified transaction signatures
+ * Fetches and decodes the events for the specified transaction signatures
+ * 
+ * The transactions are fetched in JSON-RPC batches (see `getTransactionsBatched`), and the events are returned
+ * in the order of `signatures`.
  * 
+ * @param connection The connection to fetch the transactions with
  * @param signatures Array of transaction signatures to fetch events for
- * @param eventTypes Array of event types to filter for (or 'AllEvents' to include all)
  * @param options Additional options for the request
- * @returns Promise resolving to an array of formatted events
+ * @returns Promise resolving to an array of decoded events
  */
-export async function getEventsBySignatures(
+export async function getDecodedEventsBySignatures(
+  connection: Connection,
   signatures: string[],
-  eventTypes: EventType[] = ['AllEvents'],
   options: {
     commitment?: Finality,
-    maxSupportedTransactionVersion?: number,
-    delayBetweenRequests?: number
+    // The number of transactions fetched per JSON-RPC batch request
+    batchSize?: number
   } = {}
 ) {
   const {
     commitment = 'confirmed',
-    maxSupportedTransactionVersion = 0,
-    delayBetweenRequests = 5000 // Default delay of 500ms between requests
+    batchSize = DEFAULT_TRANSACTION_BATCH_SIZE
   } = options;
 
   if (!signatures || signatures.length === 0) {
@@ -109,65 +68,29 @@ export async function getEventsBySignatures(
   
   console.log(`Processing ${signatures.length} transaction signatures...`);
   
-  const allEvents = [];
+  const { transactions, batchError } = await getTransactionsBatched(connection, signatures, {
+    batchSize,
+    commitment,
+  });
+
+  if (batchError) {
+    console.log(`Batch request failed, fell back to single requests: ${batchError.message}`);
+  }
+
+  const allEvents: DecodedEvent[] = [];
   
   for (let i = 0; i < signatures.length; i++) {
-    // Add a delay between requests to avoid rate limiting
-    if (i > 0 && delayBetweenRequests > 0) {
-      await new Promise(resolve => setTimeout(resolve, delayBetweenRequests));
-    }
-    
     try {
       console.log(`Processing transaction ${i+1}/${signatures.length}: ${signatures[i]}`);
       
-      const tx = await RPC_CONNECTION.getTransaction(
-        signatures[i],
-        { 
-          commitment, 
-          maxSupportedTransactionVersion 
-        }
-      );
+      const tx = transactions[i];
       
       if (!tx || !tx.meta || !tx.meta.innerInstructions) {
         console.log(`No inner instructions found in transaction ${signatures[i]}`);
         continue;
       }
       
-      const txEvents = tx.meta.innerInstructions.flatMap(ix => {
-        return ix.instructions.map(iix => {
-          try {
-            const ixData = utils.bytes.bs58.decode(iix.data);
-            const eventData = utils.bytes.base64.encode(
-              ixData.subarray(DISCRIMINATOR_SIZE)
-            );
-            const decodedEvent = JUPITER_PERPETUALS_PROGRAM.coder.events.decode(eventData);
-            
-            // Format the event data for human readability
-            const formattedEvent = formatEventData(decodedEvent);
-            
-            // Get transaction fee
-            const feeInSOL = tx.meta!.fee / 1_000_000_000; // Convert lamports to SOL
-            
-            return {
-              event: formattedEvent,
-              tx: {
-                signature: signatures[i],
-                blockTime: tx.blockTime 
-                  ? new Date(tx.blockTime * 1000).toISOString()
-                  : null,
-                slot: tx.slot,
-                fee: `${feeInSOL} SOL`,
-                feeInLamports: tx.meta!.fee
-              }
-            };
-          } catch (error) {
-            // Silently skip non-event instructions
-            return null;
-          }
-        }).filter(Boolean);
-      });
-      
-      allEvents.push(...txEvents);
+      allEvents.push(...decodeTransactionEvents(tx));
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -177,41 +100,92 @@ export async function getEventsBySignatures(
   
   console.log(`Found ${allEvents.length} total events across ${signatures.length} transactions`);
   
-  // Filter events by type if specified
-  if (eventTypes.includes('AllEvents')) {
-    return allEvents;
-  } else {
-    const filteredEvents = allEvents.filter(
-      (data) => data?.event && eventTypes.includes(data.event.name as EventType)
-    );
-    
-    console.log(`Filtered to ${filteredEvents.length} events of types: ${eventTypes.join(', ')}`);
-    return filteredEvents;
-  }
+  return allEvents;
 }
 
 /**
- * Example usage
+ * Fetches and parses events for the specified transaction signatures
+ * 
+ * @param connection The connection to fetch the transactions with
+ * @param signatures Array of transaction signatures to fetch events for
+ * @param eventTypes Array of event types to filter for (or 'AllEvents' to include all)
+ * @param options Additional options for the request
+ * @returns Promise resolving to an array of formatted events
  */
-if (require.main === module) {
-  // Example signature(s) to fetch events for
-  const signatures = [
-    '2GdjT4eTDGKi8qjsCKHZJ5svZ9eLPr9gqbm2JuyiBYsNMqaqJasiXJZ3uFegFRHCjCJXxifLqmeHQEN53cyLYVQQ',
-    '474ZKhT9SEgp4Ks2j4RFquEgjuoDpMbsx3THBA7sUv9pRiLsAmXLDP9MThodMdQNtydvMMvS3ydTkgUaqPNpypEk',
-    'PPaWUikmNW9itnL5vWZtSQnhUZ4Fimbvd9FQqabxtubJ5wbdg1wFVXdJruNTZtjN645H9EHTfdJNeAQjvo6PhRw',
-    'zZDp5eyTDSCqbvomK9px4utUVU9ftT5qo19KW9fRBGAYTrWH5BhCWAGPjdzvUiTpKhZzrQ2h1ap35VJwwf5VN1w'
+export async function getEventsBySignatures(
+  connection: Connection,
+  signatures: string[],
+  eventTypes: EventType[] = ['AllEvents'],
+  options: Parameters<typeof getDecodedEventsBySignatures>[2] = {}
+) {
+  return filterAndFormatEvents(await getDecodedEventsBySignatures(connection, signatures, options), eventTypes);
+}
 
-  ];
+/**
+ * Parses events from a directory of saved `getTransaction` responses (`.json` or `.jsonl` files) instead of
+ * fetching them from the RPC, so events can be analyzed fully offline. Produces the same events as
+ * `getEventsBySignatures` for the same transactions.
+ * 
+ * @param directory Directory containing the saved transaction responses
+ * @param eventTypes Array of event types to filter for (or 'AllEvents' to include all)
+ * @returns Array of formatted events
+ */
+export function getEventsFromArchive(
+  directory: string,
+  eventTypes: EventType[] = ['AllEvents']
+) {
+  const allEvents = decodeArchiveEvents(directory);
+  
+  console.log(`Found ${allEvents.length} total events in ${directory}`);
+  
+  return filterAndFormatEvents(allEvents, eventTypes);
+}
 
+/**
+ * Example usage
+ * 
+ * ts-node src/examples/events-by-signatures.ts
+ * ts-node src/examples/events-by-signatures.ts --archive <DIRECTORY>
+ */
+if (require.main === module) {
   // Example event types to filter for (or use 'AllEvents' to include all)
   const eventTypes: EventType[] = ['AllEvents'];
   
-  // Fetch and display events
-  getEventsBySignatures(signatures, eventTypes)
-    .then(events => {
-      console.log(inspect(events, { depth: null, colors: true }));
-    })
-    .catch(error => {
-      console.error("Error fetching events:", error);
-    });
-} 
\ No newline at end of file
+  const archiveIndex = process.argv.indexOf('--archive');
+  
+  if (archiveIndex !== -1) {
+    const directory = process.argv[archiveIndex + 1];
+    
+    if (!directory) {
+      console.error("Usage: ts-node src/examples/events-by-signatures.ts --archive <DIRECTORY>");
+      process.exit(1);
+    }
+    
+    console.log(inspect(getEventsFromArchive(directory, eventTypes), { depth: null, colors: true }));
+    
+    // The decoded events group into the same trades as events fetched from the RPC
+    const { activeTrades, completedTrades } = groupEventsIntoTrades(decodeArchiveEvents(directory));
+    console.log(`${activeTrades.length} active trades, ${completedTrades.length} completed trades`);
+  } else {
+    // Example signature(s) to fetch events for
+    const signatures = [
+      '2GdjT4eTDGKi8qjsCKHZJ5svZ9eLPr9gqbm2JuyiBYsNMqaqJasiXJZ3uFegFRHCjCJXxifLqmeHQEN53cyLYVQQ',
+      '474ZKhT9SEgp4Ks2j4RFquEgjuoDpMbsx3THBA7sUv9pRiLsAmXLDP9MThodMdQNtydvMMvS3ydTkgUaqPNpypEk',
+      'PPaWUikmNW9itnL5vWZtSQnhUZ4Fimbvd9FQqabxtubJ5wbdg1wFVXdJruNTZtjN645H9EHTfdJNeAQjvo6PhRw',
+      'zZDp5eyTDSCqbvomK9px4utUVU9ftT5qo19KW9fRBGAYTrWH5BhCWAGPjdzvUiTpKhZzrQ2h1ap35VJwwf5VN1w'
+
+    ];
+    
+    // The RPC pool is only created here, so archive mode never touches the network
+    const { connection } = createPooledConnection(RPC_URLS);
+
+    // Fetch and display events
+    getEventsBySignatures(connection, signatures, eventTypes)
+      .then(events => {
+        console.log(inspect(events, { depth: null, colors: true }));
+      })
+      .catch(error => {
+        console.error("Error fetching events:", error);
+      });
+  }
+}
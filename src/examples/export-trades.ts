@@ -0,0 +1,159 @@
+import { writeFileSync } from "fs";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { RPC_URL } from "../constants";
+import { PerpsClient } from "../client";
+import { EventIndex } from "../event-index";
+import { generateAllPositionPdas } from "../pda";
+import { ExportFormat, formatFillExportRows, getFillExportRows } from "../trade-export";
+import { Trade, groupEventsIntoTrades } from "../trades";
+
+/**
+ * This file exports a wallet's fills between two dates (inclusive) as CSV or JSON, with one row per fill, for
+ * import into tax tools. Events are indexed into the local event index first (see `index-position-events.ts`),
+ * so repeat exports only fetch the new transactions.
+ *
+ * Fees are split with the current custody fee parameters, see `getFillFeeBreakdown`. Trades opened before
+ * FROM_DATE but closed in the range are included: each position PDA is indexed further back until their opening
+ * increase is found. Fills whose block time is unknown are kept with an empty timestamp.
+ *
+ * Example usage (dates in DD.MM.YYYY format):
+ * ts-node src/examples/export-trades.ts <WALLET_ADDRESS> <FROM_DATE> <TO_DATE> [csv|json] [OUTPUT_FILE]
+ */
+// How far back the first step looks for the opening increases of trades closed in the range
+const INITIAL_LOOKBACK_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Indexes a position PDA back to `fromBlockTime`, then further back (doubling the lookback every step) until the
+ * trades with fills after `fromBlockTime` have their opening increase, or the PDA's history is fully indexed
+ *
+ * @returns The block time the PDA's events have to be read from
+ */
+async function indexPositionFromOpen(
+  index: EventIndex,
+  positionPda: PublicKey,
+  fromBlockTime: number,
+) {
+  let startBlockTime = fromBlockTime;
+  let lookbackSeconds = INITIAL_LOOKBACK_SECONDS;
+  let indexed = await index.indexPosition(positionPda, { fromBlockTime: startBlockTime });
+
+  const hasOrphanFills = () =>
+    groupEventsIntoTrades(
+      index.getEvents({
+        positionKeys: [positionPda],
+        fromBlockTime: startBlockTime,
+        includeMissingBlockTime: true,
+      }),
+    ).unmatchedEvents.some(({ blockTime }) => blockTime === null || blockTime >= fromBlockTime);
+
+  while (hasOrphanFills() && !index.getIndexedRange(positionPda)?.complete) {
+    startBlockTime -= lookbackSeconds;
+    lookbackSeconds *= 2;
+    indexed += await index.indexPosition(positionPda, { fromBlockTime: startBlockTime });
+  }
+
+  return { indexed, startBlockTime };
+}
+
+export async function exportTrades(
+  client: PerpsClient,
+  walletAddress: PublicKey | string,
+  fromDate: Date,
+  toDate: Date,
+  format: ExportFormat = "csv",
+) {
+  const fromBlockTime = Math.floor(fromDate.getTime() / 1000);
+  const toBlockTime = Math.floor(toDate.getTime() / 1000);
+  const positionPdas = generateAllPositionPdas(walletAddress);
+  const index = new EventIndex(client.connection);
+
+  try {
+    const trades: Trade[] = [];
+
+    for (const { positionPda, description } of positionPdas) {
+      const { indexed, startBlockTime } = await indexPositionFromOpen(index, positionPda, fromBlockTime);
+      console.error(`${description}: ${indexed} new transactions indexed`);
+
+      const { activeTrades, completedTrades, unmatchedEvents } = groupEventsIntoTrades(
+        index.getEvents({
+          positionKeys: [positionPda],
+          fromBlockTime: startBlockTime,
+          includeMissingBlockTime: true,
+        }),
+      );
+      const orphanFills = unmatchedEvents.filter(
+        ({ blockTime }) => blockTime === null || blockTime >= fromBlockTime,
+      );
+
+      // The PDA's full history is indexed, so these can't be attributed to a trade
+      if (orphanFills.length > 0) {
+        throw new Error(
+          `${description}: no opening increase found for ${orphanFills.map(({ signature }) => signature).join(", ")}`,
+        );
+      }
+
+      trades.push(...activeTrades, ...completedTrades);
+    }
+
+    const custodies = await client.getCustodies();
+    const rows = getFillExportRows(trades, custodies).filter(({ timestamp }) => {
+      // Kept so the fill isn't silently missing from the export
+      if (!timestamp) return true;
+
+      const blockTime = new Date(timestamp).getTime() / 1000;
+      return blockTime >= fromBlockTime && blockTime <= toBlockTime;
+    });
+    const rowsWithoutTimestamp = rows.filter(({ timestamp }) => !timestamp);
+
+    if (rowsWithoutTimestamp.length > 0) {
+      console.error(
+        `${rowsWithoutTimestamp.length} fills have no block time, check their dates: ${rowsWithoutTimestamp.map(({ signature }) => signature).join(", ")}`,
+      );
+    }
+
+    return formatFillExportRows(rows, format);
+  } finally {
+    index.close();
+  }
+}
+
+// Parses a DD.MM.YYYY date
+function parseDate(dateString: string) {
+  const [day, month, year] = dateString.split(".").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+if (require.main === module) {
+  const [walletAddress, fromDate, toDate, format = "csv", outputFile] =
+    process.argv.slice(2);
+
+  if (!walletAddress || !fromDate || !toDate || !["csv", "json"].includes(format)) {
+    console.error(
+      "Usage: ts-node src/examples/export-trades.ts <WALLET_ADDRESS> <FROM_DATE> <TO_DATE> [csv|json] [OUTPUT_FILE]",
+    );
+    process.exit(1);
+  }
+
+  // The end date is inclusive, so export up to the end of that day
+  const endOfToDate = new Date(parseDate(toDate).getTime() + 24 * 60 * 60 * 1000 - 1);
+
+  exportTrades(
+    new PerpsClient(new Connection(RPC_URL)),
+    walletAddress,
+    parseDate(fromDate),
+    endOfToDate,
+    format as ExportFormat,
+  )
+    .then((output) => {
+      if (outputFile) {
+        writeFileSync(outputFile, output);
+        console.error(`Exported to ${outputFile}`);
+      } else {
+        console.log(output);
+      }
+    })
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
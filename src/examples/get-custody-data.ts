@@ -1,20 +1,24 @@
-import { PublicKey } from "@solana/web3.js";
-import { CUSTODY_PUBKEY, JUPITER_PERPETUALS_PROGRAM } from "../constants";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { CUSTODY_PUBKEY, RPC_URL } from "../constants";
+import { PerpsClient } from "../client";
 
 // The JLP pool has 5 tokens under custody (SOL, wBTC, wETH, USDC, USDT). Each of these tokens have a custody
 // account onchain which contains data used by the Jupiter Perpetuals program, all of which is described here:
 // https://station.jup.ag/guides/perpetual-exchange/onchain-accounts#custody-account
 //
 // This function shows how to fetch a custody account onchain with Anchor:
-export async function getCustodyData() {
+export async function getCustodyData(client: PerpsClient) {
   try {
-    const solCustodyData =
-      await JUPITER_PERPETUALS_PROGRAM.account.custody.fetch(
-        new PublicKey(CUSTODY_PUBKEY.SOL),
-      );
+    const solCustodyData = await client.getCustody(
+      new PublicKey(CUSTODY_PUBKEY.SOL),
+    );
 
     console.log("Custody data: ", solCustodyData);
   } catch (error) {
     console.error("Failed to parse Jupiter Perps IDL", error);
   }
 }
+
+if (require.main === module) {
+  getCustodyData(new PerpsClient(new Connection(RPC_URL)));
+}
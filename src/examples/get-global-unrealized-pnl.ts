@@ -0,0 +1,44 @@
+import { Connection } from "@solana/web3.js";
+import { RPC_URL, USDC_DECIMALS } from "../constants";
+import { PerpsClient } from "../client";
+import { BNToUSDRepresentation } from "../utils";
+
+/**
+ * This file prints the traders' global unrealized PNL per asset for longs and shorts, priced with each asset's
+ * live Doves mark price, alongside the estimate derived from the custodies' `guaranteedUsd` and
+ * `globalShortSizes` (which doesn't require scanning every position).
+ *
+ * NOTE: This requires an RPC endpoint that supports getProgramAccounts.
+ *
+ * Example usage:
+ * ts-node src/examples/get-global-unrealized-pnl.ts
+ */
+export async function getGlobalUnrealizedPnl(client: PerpsClient) {
+  const pnl = await client.getGlobalUnrealizedPnl();
+
+  const format = (value: Parameters<typeof BNToUSDRepresentation>[0]) =>
+    BNToUSDRepresentation(value, USDC_DECIMALS);
+
+  pnl.assets.forEach((asset) => {
+    console.log(`\n${asset.asset} @ $${format(asset.tokenPrice)}`);
+    console.log(
+      `  Long unrealized PNL ($): ${format(asset.longPnlUsd)} (estimate: ${format(asset.longPnlEstimateUsd)}, error: ${format(asset.longEstimateErrorUsd)})`,
+    );
+    console.log(
+      `  Short unrealized PNL ($): ${format(asset.shortPnlUsd)} (estimate: ${format(asset.shortPnlEstimateUsd)}, error: ${format(asset.shortEstimateErrorUsd)})`,
+    );
+  });
+
+  console.log(
+    `\nGlobal long unrealized PNL ($): ${format(pnl.totalLongPnlUsd)} (estimate: ${format(pnl.totalLongPnlEstimateUsd)})`,
+  );
+  console.log(
+    `Global short unrealized PNL ($): ${format(pnl.totalShortPnlUsd)} (estimate: ${format(pnl.totalShortPnlEstimateUsd)})`,
+  );
+
+  return pnl;
+}
+
+if (require.main === module) {
+  getGlobalUnrealizedPnl(new PerpsClient(new Connection(RPC_URL)));
+}
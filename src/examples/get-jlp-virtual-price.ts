@@ -1,24 +1,41 @@
-import { BN } from "@coral-xyz/anchor";
-import { getMint } from "@solana/spl-token";
-import { getPoolAum } from "./get-pool-aum";
-import { JLP_MINT_PUBKEY, RPC_CONNECTION, USDC_DECIMALS } from "../constants";
+import { Connection } from "@solana/web3.js";
+import { RPC_URL, USDC_DECIMALS } from "../constants";
+import { PerpsClient } from "../client";
 import { BNToUSDRepresentation } from "../utils";
 
-export async function getJlpVirtualPrice() {
-  const poolAum = await getPoolAum();
-
-  const jlpMint = await getMint(RPC_CONNECTION, JLP_MINT_PUBKEY, "confirmed");
-
-  const jlpVirtualPrice = poolAum
-    // Give some buffer to the numerator so that we don't get a quotient that is large enough to give us precision for the JLP virtual price
-    .muln(Math.pow(10, USDC_DECIMALS))
-    .div(new BN(jlpMint.supply));
+export async function getJlpVirtualPrice(client: PerpsClient) {
+  const jlpVirtualPrice = await client.getJlpVirtualPrice();
 
   console.log(
     "JLP virtual price ($): ",
     // We want to show 4 decimal places for the JLP virtual price for precision
     BNToUSDRepresentation(jlpVirtualPrice, USDC_DECIMALS, 4),
   );
+
+  return jlpVirtualPrice;
 }
 
-getJlpVirtualPrice();
+// This function streams the JLP virtual price for `durationMs` whenever the pool's AUM or the JLP supply
+// changes, then unsubscribes
+export async function streamJlpVirtualPrice(
+  client: PerpsClient,
+  durationMs: number = 60_000,
+) {
+  const stream = await client.subscribeJlpVirtualPrice();
+
+  setTimeout(() => stream.unsubscribe(), durationMs);
+
+  for await (const update of stream) {
+    console.log(
+      `[slot ${update.slot}] JLP virtual price ($): ${BNToUSDRepresentation(update.virtualPrice, USDC_DECIMALS, 4)}`,
+      `AUM ($): ${BNToUSDRepresentation(update.aumUsd, USDC_DECIMALS)}`,
+      `Supply: ${BNToUSDRepresentation(update.jlpSupply, USDC_DECIMALS)}`,
+    );
+  }
+}
+
+if (require.main === module) {
+  const client = new PerpsClient(new Connection(RPC_URL));
+
+  getJlpVirtualPrice(client).then(() => streamJlpVirtualPrice(client));
+}
@@ -0,0 +1,79 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { RPC_URL, USDC_DECIMALS } from "../constants";
+import { PerpsClient } from "../client";
+import { decodeTransactionEvents, sortEvents } from "../events";
+import { getTransactionsBatched } from "../transaction-fetcher";
+import { groupEventsIntoTrades } from "../trades";
+import { BNToUSDRepresentation } from "../utils";
+
+/**
+ * This file explains the liquidations of a position: the position's collateral, size and accrued borrow fee when
+ * it was liquidated, the oracle price and the computed liquidation price, and how far the mark price was from the
+ * liquidation price after each earlier fill.
+ *
+ * Example usage:
+ * ts-node src/examples/get-liquidation-report.ts <POSITION_PDA>
+ */
+export async function getLiquidationReports(
+  client: PerpsClient,
+  positionPubkey: PublicKey | string,
+  limit = 100,
+) {
+  const signatureInfos = await client.connection.getSignaturesForAddress(
+    new PublicKey(positionPubkey),
+    { limit },
+  );
+
+  // Oldest first so transactions within the same slot stay in order. Failed transactions don't emit events
+  const signatures = signatureInfos
+    .filter(({ err }) => !err)
+    .map(({ signature }) => signature)
+    .reverse();
+  const { transactions } = await getTransactionsBatched(client.connection, signatures);
+  const events = transactions.flatMap((tx) => (tx ? decodeTransactionEvents(tx) : []));
+
+  const { completedTrades } = groupEventsIntoTrades(sortEvents(events), {
+    custodies: await client.getCustodies(),
+  });
+  const format = (value: Parameters<typeof BNToUSDRepresentation>[0]) =>
+    BNToUSDRepresentation(value, USDC_DECIMALS);
+
+  return completedTrades.flatMap((trade) => {
+    const report = trade.liquidationReport;
+
+    if (!report) return [];
+
+    console.log(`\nTrade ${trade.id} (${trade.positionSide}) liquidated in slot ${report.slot}`);
+    console.log(`  Signature: ${report.fill.event.signature}`);
+    console.log(`  Size: $${format(report.sizeUsd)}`);
+    console.log(`  Collateral: $${format(report.collateralUsd)}`);
+    console.log(`  Entry price: $${format(report.entryPrice)}`);
+    console.log(`  Oracle price: $${format(report.oraclePrice)}`);
+    console.log(`  Liquidation price: $${format(report.liquidationPrice)}`);
+    console.log(`  Accrued borrow fee: $${format(report.borrowFeeUsd)}`);
+    console.log(
+      `  Close fee: $${format(report.closeFeeUsd)}, price impact fee: $${format(report.priceImpactFeeUsd)}, liquidation fee: $${format(report.liquidationFeeUsd)}`,
+    );
+    console.log(`  PNL: $${format(report.pnlUsd)}, returned to owner: $${format(report.transferAmountUsd)}`);
+
+    console.log("  Mark to liquidation price after each fill:");
+    report.fillDistances.forEach((distance) => {
+      console.log(
+        `    ${distance.fill.side} $${format(distance.fill.sizeUsd)} @ $${format(distance.markPrice)}: liquidation price $${format(distance.liquidationPrice)}, distance $${format(distance.distanceUsd)} (${BNToUSDRepresentation(distance.distanceBps, 2)}%)`,
+      );
+    });
+
+    return [report];
+  });
+}
+
+if (require.main === module) {
+  const [positionPubkey] = process.argv.slice(2);
+
+  if (!positionPubkey) {
+    console.error("Usage: ts-node src/examples/get-liquidation-report.ts <POSITION_PDA>");
+    process.exit(1);
+  }
+
+  getLiquidationReports(new PerpsClient(new Connection(RPC_URL)), positionPubkey);
+}
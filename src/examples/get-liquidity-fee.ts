@@ -0,0 +1,268 @@
+import { BN } from "@coral-xyz/anchor";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { CUSTODY_PUBKEY, RPC_URL, USDC_DECIMALS } from "../constants";
+import { PerpsClient } from "../client";
+import { quoteAddLiquidityOffline, quoteRemoveLiquidityOffline } from "../liquidity-fees";
+import { getPoolRemainingAccounts, quoteAddLiquidity, quoteRemoveLiquidity } from "./jlp-liquidity";
+import { AmountAndFee, Custody, Pool } from "../types";
+import {
+  BNToUSDRepresentation,
+  getAssetNameFromCustody,
+  toUsdcDecimalsPrice,
+} from "../utils";
+
+/**
+ * This file quotes the JLP add and remove liquidity fees for a range of sizes using the offline fee curve in
+ * `liquidity-fees.ts`. When a `payer` (any wallet with enough SOL to cover the simulation's gas fees) is passed,
+ * each offline quote is compared against the program's own `getAddLiquidityAmountAndFee2` or
+ * `getRemoveLiquidityAmountAndFee2` simulation, and the simulated quotes can be added to the fixtures of the
+ * `liquidity-fees` tests.
+ *
+ * Example usage:
+ * ts-node src/examples/get-liquidity-fee.ts
+ * ts-node src/examples/get-liquidity-fee.ts <PAYER_ADDRESS> [ADD_FIXTURE_FILE] [REMOVE_FIXTURE_FILE]
+ */
+
+// The pool and custody state a liquidity quote was made at and the `AmountAndFee` returned, as decimal strings
+export interface LiquidityQuoteFixture {
+  description: string;
+  // "constructed", or the simulation the quote was recorded from
+  source: string;
+  slot: number | null;
+  pool: { aumUsd: string; addRemoveLiquidityBps: string; taxBps: string };
+  custody: { decimals: number; targetRatioBps: string; owned: string };
+  tokenPrice: string;
+  jlpSupply: string;
+  expected: { amount: string; fee: string; feeBps: string };
+}
+
+export interface AddLiquidityQuoteFixture extends LiquidityQuoteFixture {
+  tokenAmountIn: string;
+}
+
+export interface RemoveLiquidityQuoteFixture extends LiquidityQuoteFixture {
+  lpAmountIn: string;
+}
+
+interface QuoteState {
+  pool: Pool;
+  custody: Custody;
+  jlpSupply: BN;
+  tokenPrice: BN;
+  slot: number;
+}
+
+async function getQuoteState(client: PerpsClient, custodyPubkey: CUSTODY_PUBKEY): Promise<QuoteState> {
+  const [pool, custody, jlpSupply, markPrices, slot] = await Promise.all([
+    client.getPool(),
+    client.getCustody(custodyPubkey),
+    client.getJlpSupply(),
+    client.fetchMarkPrices(true),
+    client.connection.getSlot(client.commitment),
+  ]);
+
+  const markPrice = markPrices[custodyPubkey];
+
+  if (!markPrice) {
+    throw new Error(`No mark price for ${getAssetNameFromCustody(custodyPubkey)}`);
+  }
+
+  return { pool, custody, jlpSupply, tokenPrice: toUsdcDecimalsPrice(markPrice.price, markPrice.expo), slot };
+}
+
+function toQuoteFixture(
+  description: string,
+  source: string,
+  { pool, custody, jlpSupply, tokenPrice, slot }: QuoteState,
+  quote: AmountAndFee,
+): LiquidityQuoteFixture {
+  return {
+    description,
+    source,
+    slot,
+    pool: {
+      aumUsd: pool.aumUsd.toString(),
+      addRemoveLiquidityBps: pool.fees.addRemoveLiquidityBps.toString(),
+      taxBps: pool.fees.taxBps.toString(),
+    },
+    custody: {
+      decimals: custody.decimals,
+      targetRatioBps: custody.targetRatioBps.toString(),
+      owned: custody.assets.owned.toString(),
+    },
+    tokenPrice: tokenPrice.toString(),
+    jlpSupply: jlpSupply.toString(),
+    expected: {
+      amount: quote.amount.toString(),
+      fee: quote.fee.toString(),
+      feeBps: quote.feeBps.toString(),
+    },
+  };
+}
+
+const quotesMatch = (simulated: AmountAndFee, offline: AmountAndFee) =>
+  simulated.amount.eq(offline.amount) && simulated.fee.eq(offline.fee) && simulated.feeBps.eq(offline.feeBps);
+
+/**
+ * @returns The simulated quotes in the fixture format, empty if no `payer` is passed
+ */
+export async function scanAddLiquidityFees(
+  client: PerpsClient,
+  custodyPubkey: CUSTODY_PUBKEY,
+  depositSizesUsd: number[],
+  payer?: PublicKey,
+): Promise<AddLiquidityQuoteFixture[]> {
+  const state = await getQuoteState(client, custodyPubkey);
+  const { pool, custody, jlpSupply, tokenPrice } = state;
+  const remainingAccounts = payer ? await getPoolRemainingAccounts(client.program) : [];
+  const recordedQuotes: AddLiquidityQuoteFixture[] = [];
+
+  console.log(
+    `${getAssetNameFromCustody(custodyPubkey)} add liquidity fees at $${BNToUSDRepresentation(tokenPrice, USDC_DECIMALS)}:`,
+  );
+
+  for (const sizeUsd of depositSizesUsd) {
+    const tokenAmountIn = new BN(sizeUsd)
+      .mul(new BN(10).pow(new BN(custody.decimals + USDC_DECIMALS)))
+      .div(tokenPrice);
+
+    const offlineQuote = quoteAddLiquidityOffline({
+      pool,
+      custody,
+      tokenPrice,
+      jlpSupply,
+      tokenAmountIn,
+    });
+
+    let line = `  $${sizeUsd}: ${offlineQuote.feeBps.toString()} BPS, ${BNToUSDRepresentation(offlineQuote.amount, USDC_DECIMALS, 4)} JLP`;
+
+    if (payer) {
+      const simulatedQuote = await quoteAddLiquidity({
+        program: client.program,
+        custody: { publicKey: new PublicKey(custodyPubkey), account: custody },
+        tokenAmountIn,
+        payer,
+        remainingAccounts,
+      });
+
+      line += ` (simulated: ${simulatedQuote.feeBps.toString()} BPS, ${BNToUSDRepresentation(simulatedQuote.amount, USDC_DECIMALS, 4)} JLP${quotesMatch(simulatedQuote, offlineQuote) ? "" : ", MISMATCH"})`;
+
+      recordedQuotes.push({
+        ...toQuoteFixture(
+          `$${sizeUsd} ${getAssetNameFromCustody(custodyPubkey)} deposit`,
+          "getAddLiquidityAmountAndFee2 simulation",
+          state,
+          simulatedQuote,
+        ),
+        tokenAmountIn: tokenAmountIn.toString(),
+      });
+    }
+
+    console.log(line);
+  }
+
+  return recordedQuotes;
+}
+
+/**
+ * @returns The simulated quotes in the fixture format, empty if no `payer` is passed
+ */
+export async function scanRemoveLiquidityFees(
+  client: PerpsClient,
+  custodyPubkey: CUSTODY_PUBKEY,
+  withdrawalSizesUsd: number[],
+  payer?: PublicKey,
+): Promise<RemoveLiquidityQuoteFixture[]> {
+  const state = await getQuoteState(client, custodyPubkey);
+  const { pool, custody, jlpSupply, tokenPrice } = state;
+  const remainingAccounts = payer ? await getPoolRemainingAccounts(client.program) : [];
+  const recordedQuotes: RemoveLiquidityQuoteFixture[] = [];
+
+  console.log(
+    `${getAssetNameFromCustody(custodyPubkey)} remove liquidity fees at $${BNToUSDRepresentation(tokenPrice, USDC_DECIMALS)}:`,
+  );
+
+  for (const sizeUsd of withdrawalSizesUsd) {
+    // JLP has the same 6 decimals as USDC
+    const lpAmountIn = new BN(sizeUsd)
+      .mul(new BN(10).pow(new BN(USDC_DECIMALS)))
+      .mul(jlpSupply)
+      .div(pool.aumUsd);
+
+    const offlineQuote = quoteRemoveLiquidityOffline({
+      pool,
+      custody,
+      tokenPrice,
+      jlpSupply,
+      lpAmountIn,
+    });
+
+    let line = `  $${sizeUsd}: ${offlineQuote.feeBps.toString()} BPS, ${BNToUSDRepresentation(offlineQuote.amount, custody.decimals, 4)} tokens`;
+
+    if (payer) {
+      const simulatedQuote = await quoteRemoveLiquidity({
+        program: client.program,
+        custody: { publicKey: new PublicKey(custodyPubkey), account: custody },
+        lpAmountIn,
+        payer,
+        remainingAccounts,
+      });
+
+      line += ` (simulated: ${simulatedQuote.feeBps.toString()} BPS, ${BNToUSDRepresentation(simulatedQuote.amount, custody.decimals, 4)} tokens${quotesMatch(simulatedQuote, offlineQuote) ? "" : ", MISMATCH"})`;
+
+      recordedQuotes.push({
+        ...toQuoteFixture(
+          `$${sizeUsd} ${getAssetNameFromCustody(custodyPubkey)} withdrawal`,
+          "getRemoveLiquidityAmountAndFee2 simulation",
+          state,
+          simulatedQuote,
+        ),
+        lpAmountIn: lpAmountIn.toString(),
+      });
+    }
+
+    console.log(line);
+  }
+
+  return recordedQuotes;
+}
+
+// Adds `quotes` to the fixture file, replacing quotes with the same description recorded at the same slot
+export function saveQuoteFixtures<T extends LiquidityQuoteFixture>(fixtureFile: string, quotes: T[]) {
+  const existingQuotes: T[] = existsSync(fixtureFile)
+    ? JSON.parse(readFileSync(fixtureFile, "utf8"))
+    : [];
+  const isReplaced = (quote: T) =>
+    quotes.some(({ description, slot }) => quote.description === description && quote.slot === slot);
+
+  writeFileSync(
+    fixtureFile,
+    `${JSON.stringify([...existingQuotes.filter((quote) => !isReplaced(quote)), ...quotes], null, 2)}\n`,
+  );
+}
+
+if (require.main === module) {
+  const [payerAddress, addFixtureFile, removeFixtureFile] = process.argv.slice(2);
+  const client = new PerpsClient(new Connection(RPC_URL));
+  const payer = payerAddress ? new PublicKey(payerAddress) : undefined;
+  const sizesUsd = [100, 1_000, 10_000, 100_000, 1_000_000];
+
+  (async () => {
+    const addQuotes = await scanAddLiquidityFees(client, CUSTODY_PUBKEY.SOL, sizesUsd, payer);
+    const removeQuotes = await scanRemoveLiquidityFees(client, CUSTODY_PUBKEY.SOL, sizesUsd, payer);
+
+    if (addFixtureFile) {
+      saveQuoteFixtures(addFixtureFile, addQuotes);
+      console.log(`Added ${addQuotes.length} simulated quotes to ${addFixtureFile}`);
+    }
+
+    if (removeFixtureFile) {
+      saveQuoteFixtures(removeFixtureFile, removeQuotes);
+      console.log(`Added ${removeQuotes.length} simulated quotes to ${removeFixtureFile}`);
+    }
+  })().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
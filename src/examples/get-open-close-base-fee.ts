@@ -1,21 +1,19 @@
 import { BN } from "@coral-xyz/anchor";
-import {
-  BPS_POWER,
-  CUSTODY_PUBKEY,
-  JUPITER_PERPETUALS_PROGRAM,
-  USDC_DECIMALS,
-} from "../constants";
+import { BPS_POWER, CUSTODY_PUBKEY, RPC_URL, USDC_DECIMALS } from "../constants";
+import { PerpsClient } from "../client";
 import { BNToUSDRepresentation } from "../utils";
-import { PublicKey } from "@solana/web3.js";
+import { Connection, PublicKey } from "@solana/web3.js";
 
 /**
  * Calculate the base fee for opening or closing a position
  * 
+ * @param client The client used to fetch the custody account
  * @param tradeSizeUsd The size of the trade in USD (atomic units)
  * @param custodyPubkey The public key of the asset's custody account
  * @param isOpen Whether to calculate open fee (true) or close fee (false)
  */
 export async function getOpenCloseBaseFee(
+  client: PerpsClient,
   tradeSizeUsd: BN,
   custodyPubkey: PublicKey | string,
   isOpen: boolean = true
@@ -24,8 +22,7 @@ export async function getOpenCloseBaseFee(
   console.log(`Trade size: $${BNToUSDRepresentation(tradeSizeUsd, USDC_DECIMALS)}`);
   
   // Fetch the custody account data
-  const custody =
-    await JUPITER_PERPETUALS_PROGRAM.account.custody.fetch(custodyPubkey);
+  const custody = await client.getCustody(custodyPubkey);
 
   // Get the appropriate fee rate based on whether we're opening or closing
   const baseFeeBps = isOpen ? custody.increasePositionBps : custody.decreasePositionBps;
@@ -41,32 +38,34 @@ export async function getOpenCloseBaseFee(
 }
 
 // Calculate fees for multiple assets with different sizes
-async function compareAllFees() {
+async function compareAllFees(client: PerpsClient) {
   // Create a consistent trade size for comparison (1000 USD)
   const tradeSize = new BN(1000).mul(new BN(10).pow(new BN(USDC_DECIMALS))); // 1000 USD in atomic units
   const largeTradeSize = new BN(10000).mul(new BN(10).pow(new BN(USDC_DECIMALS))); // 10000 USD in atomic units
   
   console.log("===== COMPARING OPENING FEES =====");
   // SOL Open Fee
-  await getOpenCloseBaseFee(tradeSize, CUSTODY_PUBKEY.SOL, true);
-  await getOpenCloseBaseFee(largeTradeSize, CUSTODY_PUBKEY.SOL, true);
+  await getOpenCloseBaseFee(client, tradeSize, CUSTODY_PUBKEY.SOL, true);
+  await getOpenCloseBaseFee(client, largeTradeSize, CUSTODY_PUBKEY.SOL, true);
   
   // BTC Open Fee
-  await getOpenCloseBaseFee(tradeSize, CUSTODY_PUBKEY.BTC, true);
+  await getOpenCloseBaseFee(client, tradeSize, CUSTODY_PUBKEY.BTC, true);
   
   // ETH Open Fee
-  await getOpenCloseBaseFee(tradeSize, CUSTODY_PUBKEY.ETH, true);
+  await getOpenCloseBaseFee(client, tradeSize, CUSTODY_PUBKEY.ETH, true);
   
   console.log("\n===== COMPARING CLOSING FEES =====");
   // SOL Close Fee
-  await getOpenCloseBaseFee(tradeSize, CUSTODY_PUBKEY.SOL, false);
+  await getOpenCloseBaseFee(client, tradeSize, CUSTODY_PUBKEY.SOL, false);
   
   // BTC Close Fee
-  await getOpenCloseBaseFee(tradeSize, CUSTODY_PUBKEY.BTC, false);
+  await getOpenCloseBaseFee(client, tradeSize, CUSTODY_PUBKEY.BTC, false);
   
   // ETH Close Fee
-  await getOpenCloseBaseFee(tradeSize, CUSTODY_PUBKEY.ETH, false);
+  await getOpenCloseBaseFee(client, tradeSize, CUSTODY_PUBKEY.ETH, false);
 }
 
 // Run the comparison
-compareAllFees();
\ No newline at end of file
+if (require.main === module) {
+  compareAllFees(new PerpsClient(new Connection(RPC_URL)));
+}
\ No newline at end of file
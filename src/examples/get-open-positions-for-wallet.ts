@@ -1,48 +1,19 @@
-import { PublicKey } from "@solana/web3.js";
+import { Connection, PublicKey } from "@solana/web3.js";
 import { type IdlAccounts } from "@coral-xyz/anchor";
 import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
-import { JUPITER_PERPETUALS_PROGRAM, RPC_CONNECTION } from "../constants";
+import { RPC_URL } from "../constants";
+import { PerpsClient } from "../client";
 
 // This function fetches all the open positions for a given wallet address, similar to `getOpenPositions`.
-export async function getOpenPositionsForWallet(walletAddress: string) {
+export async function getOpenPositionsForWallet(
+  client: PerpsClient,
+  walletAddress: string,
+) {
   try {
-    const gpaResult = await RPC_CONNECTION.getProgramAccounts(
-      JUPITER_PERPETUALS_PROGRAM.programId,
-      {
-        commitment: "confirmed",
-        filters: [
-          // Pass in a wallet address here to filter for positions for
-          // a specific wallet address
-          {
-            memcmp: {
-              bytes: new PublicKey(walletAddress).toBase58(),
-              offset: 8,
-            },
-          },
-          {
-            memcmp:
-              JUPITER_PERPETUALS_PROGRAM.coder.accounts.memcmp("position"),
-          },
-        ],
-      },
-    );
-
-    const positions = gpaResult.map((item) => {
-      return {
-        publicKey: item.pubkey,
-        account: JUPITER_PERPETUALS_PROGRAM.coder.accounts.decode(
-          "position",
-          item.account.data,
-        ) as IdlAccounts<Perpetuals>["position"],
-      };
-    });
-
     // Old positions accounts are not closed, but have `sizeUsd = 0`
     // i.e. open positions have a non-zero `sizeUsd`
-    // Remove this filter to retrieve closed positions as well
-    // const openPositions = positions.filter((position) =>
-    //   position.account.sizeUsd.gtn(0),
-    // );
+    // Filter on `position.account.sizeUsd.gtn(0)` to drop closed positions
+    const positions = await client.getOpenPositionsForWallet(walletAddress);
 
     console.log(
       `Positions for wallet address ${walletAddress}: `,
@@ -52,14 +23,14 @@ export async function getOpenPositionsForWallet(walletAddress: string) {
     // This `onProgramAccountChange` call subscribes to position changes for the wallet address, which is the same
     // as the logic above but via streaming instead of polling.
     /*
-    RPC_CONNECTION.onProgramAccountChange(
-      JUPITER_PERPETUALS_PROGRAM.programId,
+    client.connection.onProgramAccountChange(
+      client.program.programId,
       async ({
         accountId: positionPubkey,
         accountInfo: { data: positionBuffer },
       }) => {
         try {
-          const position = JUPITER_PERPETUALS_PROGRAM.coder.accounts.decode(
+          const position = client.program.coder.accounts.decode(
             "position",
             positionBuffer,
           ) as IdlAccounts<Perpetuals>["position"];
@@ -82,8 +53,7 @@ export async function getOpenPositionsForWallet(walletAddress: string) {
             },
           },
           {
-            memcmp:
-              JUPITER_PERPETUALS_PROGRAM.coder.accounts.memcmp("position"),
+            memcmp: client.program.coder.accounts.memcmp("position"),
           },
         ],
       },
@@ -97,5 +67,10 @@ export async function getOpenPositionsForWallet(walletAddress: string) {
   }
 }
 
-// Call the function with the specified wallet address
-getOpenPositionsForWallet("4qXroAUadM5akVdBrt6ZNL3iRLVE3YboCF5TiKkFsZSp");
+if (require.main === module) {
+  // Call the function with the specified wallet address
+  getOpenPositionsForWallet(
+    new PerpsClient(new Connection(RPC_URL)),
+    "4qXroAUadM5akVdBrt6ZNL3iRLVE3YboCF5TiKkFsZSp",
+  );
+}
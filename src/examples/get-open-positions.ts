@@ -1,6 +1,6 @@
-import { type IdlAccounts } from "@coral-xyz/anchor";
-import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
-import { JUPITER_PERPETUALS_PROGRAM } from "../constants";
+import { Connection } from "@solana/web3.js";
+import { RPC_URL } from "../constants";
+import { PerpsClient } from "../client";
 
 // This function returns all open positions (i.e. `Position` accounts with `sizeUsd > 0`)
 // Note that your RPC provider needs to enable `getProgramAccounts` for this to work. This
@@ -8,37 +8,9 @@ import { JUPITER_PERPETUALS_PROGRAM } from "../constants";
 // does not timeout before it returns the data.
 //
 // More info on the `Position` account here: https://station.jup.ag/guides/perpetual-exchange/onchain-accounts#position-account
-export async function getOpenPositions() {
+export async function getOpenPositions(client: PerpsClient) {
   try {
-    const gpaResult =
-      await JUPITER_PERPETUALS_PROGRAM.provider.connection.getProgramAccounts(
-        JUPITER_PERPETUALS_PROGRAM.programId,
-        {
-          commitment: "confirmed",
-          filters: [
-            {
-              memcmp:
-                JUPITER_PERPETUALS_PROGRAM.coder.accounts.memcmp("position"),
-            },
-          ],
-        },
-      );
-
-    const positions = gpaResult.map((item) => {
-      return {
-        publicKey: item.pubkey,
-        account: JUPITER_PERPETUALS_PROGRAM.coder.accounts.decode(
-          "position",
-          item.account.data,
-        ) as IdlAccounts<Perpetuals>["position"],
-      };
-    });
-
-    // Old positions accounts are not closed, but have `sizeUsd = 0`
-    // i.e. open positions have a non-zero `sizeUsd`
-    const openPositions = positions.filter((position) =>
-      position.account.sizeUsd.gtn(0),
-    );
+    const openPositions = await client.getOpenPositions();
 
     console.log("Open positions: ", openPositions);
   } catch (error) {
@@ -46,4 +18,6 @@ export async function getOpenPositions() {
   }
 }
 
-getOpenPositions();
\ No newline at end of file
+if (require.main === module) {
+  getOpenPositions(new PerpsClient(new Connection(RPC_URL)));
+}
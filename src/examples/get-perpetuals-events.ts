@@ -1,70 +1,13 @@
-import { DISCRIMINATOR_SIZE, IdlEvents, utils } from "@coral-xyz/anchor";
-import {
-  JUPITER_PERPETUALS_PROGRAM,
-  RPC_CONNECTION,
-  USDC_DECIMALS,
-} from "../constants";
+import { RPC_URLS } from "../constants";
 import { PublicKey } from "@solana/web3.js";
-import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
 import { inspect } from 'util';
-import { BN } from "@coral-xyz/anchor";
-import { BNToUSDRepresentation } from "../utils";
+import { PerpsClient } from "../client";
+import { decodeTransactionEvents } from "../events";
+import { EventWithTx, toEventWithTx } from "../event-format";
+import { createPooledConnection } from "../rpc-pool";
 
-type AnchorIdlEvent<EventName extends keyof IdlEvents<Perpetuals>> = {
-  name: EventName;
-  data: IdlEvents<Perpetuals>[EventName];
-};
-
-// Helper function to format event data to make it human-readable
-function formatEventData(event: any): any {
-  if (!event) return null;
-  
-  const { name, data } = event;
-  
-  // Create a new clean object instead of modifying the original
-  const cleanData: any = {};
-  
-  // Convert PublicKeys to strings and format numbers
-  Object.keys(data).forEach(key => {
-    const value = data[key];
-    
-    // Handle PublicKey objects
-    if (value instanceof PublicKey) {
-      cleanData[key] = value.toString();
-    }
-    // Handle BigNumbers (BN)
-    else if (value instanceof BN) {
-      if (key.includes('Usd') || key.includes('usd') || key.includes('Price') || key.includes('price') || key === 'pnlDelta') {
-        cleanData[key] = `$${BNToUSDRepresentation(value, USDC_DECIMALS)}`;
-      } else if (key.includes('Time')) {
-        cleanData[key] = new Date(value.toNumber() * 1000).toISOString();
-      } else {
-        cleanData[key] = value.toString();
-      }
-    }
-    // Handle arrays
-    else if (Array.isArray(value)) {
-      cleanData[key] = value;
-    }
-    // Handle side enum
-    else if (key === 'positionSide') {
-      cleanData[key] = value === 1 ? "Long" : "Short";
-    }
-    // Handle null values
-    else if (value === null) {
-      cleanData[key] = null;
-    }
-    // Handle regular values
-    else {
-      cleanData[key] = value;
-    }
-  });
-  
-  return {
-    name,
-    data: cleanData
-  };
-}
+// Requests are paced by the RPC scheduler, which backs off when the endpoint rate limits them
+const client = new PerpsClient(createPooledConnection(RPC_URLS).connection);
 
 // The Jupiter Perpetuals program emits events (via Anchor's CPI events: https://book.anchor-lang.com/anchor_in_depth/events.html)
 // for most trade events. These events can be parsed and analyzed to track things like trades, executed TPSL requests, liquidations
@@ -76,7 +19,7 @@ export async function getPositionEvents() {
   
   // Limit to only 5 most recent transactions
   console.log("Getting signatures...");
-  const confirmedSignatureInfos = await RPC_CONNECTION.getSignaturesForAddress(
+  const confirmedSignatureInfos = await client.connection.getSignaturesForAddress(
     positionPDA,
     { limit: 10 } // Only fetch 5 transactions
   );
@@ -88,8 +31,8 @@ export async function getPositionEvents() {
   
   console.log(`Found ${confirmedSignatureInfos.length} transactions`);
   
-  // Process ONE transaction at a time with longer delays
-  const allEvents = [];
+  // Process one transaction at a time
+  const allEvents: EventWithTx[] = [];
   
   for (let i = 0; i < confirmedSignatureInfos.length; i++) {
     if (confirmedSignatureInfos[i].err) {
@@ -97,16 +40,10 @@ export async function getPositionEvents() {
       continue;
     }
     
-    // Add a 3 second delay between each transaction processing
-    if (i > 0) {
-      console.log(`Waiting 3 seconds before processing next transaction...`);
-      await new Promise(resolve => setTimeout(resolve, 5000));
-    }
-    
     try {
       console.log(`Processing transaction ${i+1}/${confirmedSignatureInfos.length}: ${confirmedSignatureInfos[i].signature}`);
       
-      const tx = await RPC_CONNECTION.getTransaction(
+      const tx = await client.connection.getTransaction(
         confirmedSignatureInfos[i].signature,
         { commitment: "confirmed", maxSupportedTransactionVersion: 0 }
       );
@@ -116,38 +53,8 @@ export async function getPositionEvents() {
         continue;
       }
       
-      const txEvents = tx.meta.innerInstructions.flatMap(ix => {
-        return ix.instructions.map(iix => {
-          try {
-            const ixData = utils.bytes.bs58.decode(iix.data);
-            const eventData = utils.bytes.base64.encode(
-              ixData.subarray(DISCRIMINATOR_SIZE)
-            );
-            const decodedEvent = JUPITER_PERPETUALS_PROGRAM.coder.events.decode(eventData);
-            
-            // Format the event data for human readability
-            const formattedEvent = formatEventData(decodedEvent);
-            
-            // Get transaction fee (safe because we already checked tx.meta != null)
-            const feeInSOL = tx.meta!.fee / 1_000_000_000; // Convert lamports to SOL
-            
-            return {
-              event: formattedEvent,
-              tx: {
-                signature: confirmedSignatureInfos[i].signature,
-                blockTime: tx.blockTime 
-                  ? new Date(tx.blockTime * 1000).toISOString()
-                  : null,
-                fee: `${feeInSOL} SOL`,
-                feeInLamports: tx.meta!.fee
-              }
-            };
-          } catch (error) {
-            console.log("Failed to decode instruction data");
-            return null;
-          }
-        }).filter(Boolean);
-      });
+      // Format the event data for human readability
+      const txEvents = decodeTransactionEvents(tx).map(toEventWithTx);
       
       allEvents.push(...txEvents);
       
@@ -1,23 +1,17 @@
-import {
-  JLP_POOL_ACCOUNT_PUBKEY,
-  JUPITER_PERPETUALS_PROGRAM,
-} from "../constants";
-
-const compoundToAPY = (apr: number, frequency = 365) => {
-  const apy = (Math.pow(apr / 100 / frequency + 1, frequency) - 1) * 100;
-  return apy;
-};
+import { Connection } from "@solana/web3.js";
+import { RPC_URL } from "../constants";
+import { PerpsClient } from "../client";
 
 // This function fetches the `poolApr.feeAprBps` which is updated roughly once a week.
 // The following documentation contains more info on how the pool APY / APR is calculated:
 // https://station.jup.ag/guides/jlp/How-JLP-Works#jlp-fee-distribution-and-apr-calculation
-export async function getPoolApy() {
-  const pool = await JUPITER_PERPETUALS_PROGRAM.account.pool.fetch(
-    JLP_POOL_ACCOUNT_PUBKEY,
-  );
+export async function getPoolApy(client: PerpsClient) {
+  const { apr, apy } = await client.getPoolApy();
 
-  const poolApr = pool.poolApr.feeAprBps.toNumber() / 100;
+  console.log("Pool APR (%):", apr);
+  console.log("Pool APY (%):", apy);
+}
 
-  console.log("Pool APR (%):", poolApr);
-  console.log("Pool APY (%):", compoundToAPY(poolApr));
+if (require.main === module) {
+  getPoolApy(new PerpsClient(new Connection(RPC_URL)));
 }
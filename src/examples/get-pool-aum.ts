@@ -1,45 +1,57 @@
-import {
-  JLP_POOL_ACCOUNT_PUBKEY,
-  JUPITER_PERPETUALS_PROGRAM,
-  RPC_CONNECTION,
-  USDC_DECIMALS,
-} from "../constants";
-import { type IdlAccounts } from "@coral-xyz/anchor";
-import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
-import { BNToUSDRepresentation } from "../utils";
+import { Connection } from "@solana/web3.js";
+import { RPC_URL, USDC_DECIMALS } from "../constants";
+import { PerpsClient } from "../client";
+import { BNToUSDRepresentation, getAssetNameFromCustody } from "../utils";
 
 // This function fetches the pool's AUM which is updated whenever:
 // 1) Liquidity is added to the pool
 // 2) Liquidity is removed from the pool
 // 3) The `refresh_assets_under_management` instruction is called (which is refreshed constantly in a background job)
-//
-// The function also shows how to subscribe to the pool's account data change which lets you stream
-// the AUM change in real time (useful for arbitraging the JLP, for example)
-export async function getPoolAum() {
-  const pool = await JUPITER_PERPETUALS_PROGRAM.account.pool.fetch(
-    JLP_POOL_ACCOUNT_PUBKEY,
-  );
-
-  const poolAum = pool.aumUsd;
+export async function getPoolAum(client: PerpsClient) {
+  const poolAum = await client.getPoolAum();
 
   console.log("Pool AUM ($):", BNToUSDRepresentation(poolAum, USDC_DECIMALS));
 
-  RPC_CONNECTION.onProgramAccountChange(
-    JUPITER_PERPETUALS_PROGRAM.programId,
-    ({ accountId, accountInfo }) => {
-      if (accountId.equals(JLP_POOL_ACCOUNT_PUBKEY)) {
-        const pool = JUPITER_PERPETUALS_PROGRAM.coder.accounts.decode(
-          "pool",
-          accountInfo.data,
-        ) as IdlAccounts<Perpetuals>["pool"];
-
-        console.log(
-          "Pool AUM: ($): ",
-          BNToUSDRepresentation(pool.aumUsd, USDC_DECIMALS),
-        );
-      }
-    },
+  return poolAum;
+}
+
+// This function recomputes the pool's AUM from the custodies' state and the live oracle prices, and compares it
+// to the on-chain AUM. The drift is the mispricing of JLP until the next AUM refresh.
+export async function getPoolAumDrift(client: PerpsClient) {
+  const result = await client.computePoolAum();
+
+  result.custodies.forEach((custody) => {
+    console.log(
+      `${getAssetNameFromCustody(custody.custody)} AUM ($):`,
+      BNToUSDRepresentation(custody.aumUsd, USDC_DECIMALS),
+    );
+  });
+
+  console.log("Computed pool AUM ($):", BNToUSDRepresentation(result.aumUsd, USDC_DECIMALS));
+  console.log("On-chain pool AUM ($):", BNToUSDRepresentation(result.onChainAumUsd, USDC_DECIMALS));
+  console.log(
+    `Drift ($): ${BNToUSDRepresentation(result.driftUsd, USDC_DECIMALS)} (${result.driftBps.toString()} BPS)`,
   );
 
-  return poolAum;
+  return result;
+}
+
+// This function shows how to subscribe to the pool's account data change which lets you stream
+// the AUM change in real time (useful for arbitraging the JLP, for example). Call the returned
+// function to stop streaming.
+export function streamPoolAum(client: PerpsClient) {
+  return client.subscribePoolAum((aumUsd) => {
+    console.log(
+      "Pool AUM: ($): ",
+      BNToUSDRepresentation(aumUsd, USDC_DECIMALS),
+    );
+  });
+}
+
+if (require.main === module) {
+  const client = new PerpsClient(new Connection(RPC_URL));
+
+  getPoolAum(client)
+    .then(() => getPoolAumDrift(client))
+    .then(() => streamPoolAum(client));
 }
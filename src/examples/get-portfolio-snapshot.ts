@@ -0,0 +1,51 @@
+import { Connection } from "@solana/web3.js";
+import { RPC_URL, USDC_DECIMALS } from "../constants";
+import { PerpsClient } from "../client";
+import { BNToUSDRepresentation } from "../utils";
+
+/**
+ * This file loads a wallet's positions together with their custodies and mark prices in a single RPC request, and
+ * values every open position (PNL before fees and liquidation price) with accounts from the same slot.
+ *
+ * Example usage:
+ * ts-node src/examples/get-portfolio-snapshot.ts <WALLET_ADDRESS>
+ */
+export async function getPortfolioSnapshot(client: PerpsClient, walletAddress: string) {
+  const snapshot = await client.getPortfolioSnapshot(walletAddress);
+  const format = (value: Parameters<typeof BNToUSDRepresentation>[0]) =>
+    BNToUSDRepresentation(value, USDC_DECIMALS);
+
+  console.log(`Portfolio of ${walletAddress} at slot ${snapshot.slot}`);
+
+  snapshot.openPositions.forEach(({ position, markPrice, pnlUsd, liquidation }) => {
+    console.log(`\n${position.readable.description} (${position.publicKey.toBase58()})`);
+    console.log(`  Size: $${position.readable.sizeUsd}`);
+    console.log(`  Collateral: $${position.readable.collateralUsd}`);
+    console.log(`  Entry price: $${position.readable.price}`);
+    console.log(`  Mark price: ${markPrice ? `$${markPrice.priceUsd}` : "unavailable"}`);
+    console.log(`  PNL: ${pnlUsd ? `$${format(pnlUsd)}` : "unavailable"}`);
+
+    if (liquidation) {
+      console.log(`  Liquidation price: $${format(liquidation.liquidationPrice)}`);
+    }
+  });
+
+  console.log(`\nOpen positions: ${snapshot.openPositions.length}`);
+  console.log(`Closed positions: ${snapshot.closedPositions.length}`);
+  console.log(`Total size: $${format(snapshot.totalSizeUsd)}`);
+  console.log(`Total collateral: $${format(snapshot.totalCollateralUsd)}`);
+  console.log(`Total PNL: $${format(snapshot.totalPnlUsd)}`);
+
+  return snapshot;
+}
+
+if (require.main === module) {
+  const [walletAddress] = process.argv.slice(2);
+
+  if (!walletAddress) {
+    console.error("Usage: ts-node src/examples/get-portfolio-snapshot.ts <WALLET_ADDRESS>");
+    process.exit(1);
+  }
+
+  getPortfolioSnapshot(new PerpsClient(new Connection(RPC_URL)), walletAddress);
+}
@@ -1,13 +1,6 @@
-import { PublicKey } from "@solana/web3.js";
-import { type IdlAccounts } from "@coral-xyz/anchor";
-import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
-import {
-  CUSTODY_PUBKEY,
-  JUPITER_PERPETUALS_PROGRAM,
-  RPC_CONNECTION,
-  USDC_DECIMALS,
-} from "../constants";
-import { BNToUSDRepresentation } from "../utils";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { RPC_URL } from "../constants";
+import { PerpsClient } from "../client";
 
 /**
  * This file demonstrates how to fetch position data for a given position PDA.
@@ -20,88 +13,29 @@ import { BNToUSDRepresentation } from "../utils";
  * The file will fetch and display all available data for the position.
  */
 
-// Helper function to get asset name from custody pubkey
-function getAssetNameFromCustody(custodyPubkey: string): string {
-  switch(custodyPubkey) {
-    case CUSTODY_PUBKEY.SOL:
-      return "SOL";
-    case CUSTODY_PUBKEY.ETH:
-      return "ETH";
-    case CUSTODY_PUBKEY.BTC:
-      return "BTC";
-    case CUSTODY_PUBKEY.USDC:
-      return "USDC";
-    case CUSTODY_PUBKEY.USDT:
-      return "USDT";
-    default:
-      return "Unknown";
-  }
-}
-
 /**
- * Fetches position data for a given position PDA.
+ * Fetches and prints position data for a given position PDA.
+ * @param client The client used to fetch the position account
  * @param positionPda The PublicKey of the position PDA
  * @returns The decoded position data with readable format, or null if no position exists
  */
 export async function getPositionByPda(
+  client: PerpsClient,
   positionPda: string | PublicKey
 ) {
   try {
-    const positionPubkey = typeof positionPda === 'string' 
-      ? new PublicKey(positionPda)
-      : positionPda;
+    const positionPubkey = new PublicKey(positionPda);
     
     // Fetch the position account
     console.log(`Fetching position data for PDA: ${positionPubkey.toBase58()}`);
-    const accountInfo = await RPC_CONNECTION.getAccountInfo(positionPubkey);
+    const positionData = await client.getPositionByPda(positionPubkey);
     
-    if (!accountInfo) {
+    if (!positionData) {
       console.log("Position does not exist");
       return null;
     }
     
-    // Decode the position data
-    const decodedPosition = JUPITER_PERPETUALS_PROGRAM.coder.accounts.decode(
-      "position",
-      accountInfo.data
-    ) as IdlAccounts<Perpetuals>["position"];
-    
-    // Determine asset and collateral names from the decoded position data
-    const assetCustodyAddress = decodedPosition.custody.toBase58();
-    const collateralCustodyAddress = decodedPosition.collateralCustody.toBase58();
-    
-    const assetName = getAssetNameFromCustody(assetCustodyAddress);
-    const collateralName = getAssetNameFromCustody(collateralCustodyAddress);
-    const side = decodedPosition.side.long !== undefined ? "Long" : "Short";
-    
-    // Generate description based on asset, collateral and side
-    const description = `${side} ${assetName} (using ${collateralName} as collateral)`;
-    
-    const positionData = {
-      publicKey: positionPubkey,
-      account: decodedPosition,
-      positionInfo: {
-        type: side,
-        custody: assetCustodyAddress,
-        collateralCustody: collateralCustodyAddress,
-        description
-      },
-      readable: {
-        description,
-        side,
-        asset: assetName,
-        collateral: collateralName,
-        openTime: new Date(decodedPosition.openTime.toNumber() * 1000).toISOString(),
-        updateTime: new Date(decodedPosition.updateTime.toNumber() * 1000).toISOString(),
-        price: BNToUSDRepresentation(decodedPosition.price, USDC_DECIMALS),
-        sizeUsd: BNToUSDRepresentation(decodedPosition.sizeUsd, USDC_DECIMALS),
-        collateralUsd: BNToUSDRepresentation(decodedPosition.collateralUsd, USDC_DECIMALS),
-        realisedPnlUsd: BNToUSDRepresentation(decodedPosition.realisedPnlUsd, USDC_DECIMALS),
-        rawPrice: decodedPosition.price.toString(),
-        rawRealisedPnl: decodedPosition.realisedPnlUsd.toString(),
-        isOpen: decodedPosition.sizeUsd.gtn(0)
-      }
-    };
+    const decodedPosition = positionData.account;
     
     // Print full position details including raw data
     console.log('\n========== POSITION DETAILS ==========');
@@ -164,5 +98,10 @@ export async function getPositionByPda(
 }
 
 // Example usage with just the PDA
-getPositionByPda("5BEUw4D4MQvgknkpG8uDTq5DgxJha6Fft4ei1QX5VGjK");
+if (require.main === module) {
+  getPositionByPda(
+    new PerpsClient(new Connection(RPC_URL)),
+    "5BEUw4D4MQvgknkpG8uDTq5DgxJha6Fft4ei1QX5VGjK",
+  );
+}
 
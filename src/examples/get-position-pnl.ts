@@ -1,36 +1,38 @@
 import { BN } from "@coral-xyz/anchor";
-import { JUPITER_PERPETUALS_PROGRAM, USDC_DECIMALS } from "../constants";
-import { PublicKey } from "@solana/web3.js";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { RPC_URL, USDC_DECIMALS } from "../constants";
+import { PerpsClient } from "../client";
 import { BNToUSDRepresentation } from "../utils";
 
 // Note that the calculation below gets the position's PNL before fees
-export async function getPositionPnl(positionPubkey: PublicKey) {
-  const position =
-    await JUPITER_PERPETUALS_PROGRAM.account.position.fetch(positionPubkey);
-
-  // NOTE: We assume the token price is $100 (scaled to 6 decimal places as per the USDC mint) as an example here for simplicity
-  const tokenPrice = new BN(84573.05);
-
-  const hasProfit = position.side.long
-    ? tokenPrice.gt(position.price)
-    : position.price.gt(tokenPrice);
-
-  const tokenPriceDelta = tokenPrice.sub(position.price).abs();
-
-  const pnl = position.sizeUsd.mul(tokenPriceDelta).div(position.price);
+export async function getPositionPnl(
+  client: PerpsClient,
+  positionPubkey: PublicKey,
+  tokenPrice: BN,
+) {
+  const pnl = await client.getPositionPnl(positionPubkey, tokenPrice);
 
   console.log(
     "Position PNL ($): ",
-    BNToUSDRepresentation(hasProfit ? pnl : pnl.neg(), USDC_DECIMALS),
+    BNToUSDRepresentation(pnl, USDC_DECIMALS),
   );
+
+  return pnl;
 }
 
-// Use a position PDA instead of wallet address
-// This is the PDA for "Long SOL (using SOL as collateral)" for the wallet address
-getPositionPnl(new PublicKey("EgvqoPV3QnUMEvhTSnxiqouye7bmDpT3p8HtuQ3AtiwJ"));
+if (require.main === module) {
+  const client = new PerpsClient(new Connection(RPC_URL));
+
+  // NOTE: We assume the token price is $100 (scaled to 6 decimal places as per the USDC mint) as an example here for simplicity
+  const tokenPrice = new BN(100_000_000);
 
-// Uncomment to check Short SOL with USDC
-// getPositionPnl(new PublicKey("2oVLxJwCdU4eDqy7Koe5QGH71W26bxBuYaTYk6kYg23z"));
+  // Use a position PDA instead of wallet address
+  // This is the PDA for "Long SOL (using SOL as collateral)" for the wallet address
+  getPositionPnl(client, new PublicKey("EgvqoPV3QnUMEvhTSnxiqouye7bmDpT3p8HtuQ3AtiwJ"), tokenPrice);
 
-// Uncomment to check Short SOL with USDT
-// getPositionPnl(new PublicKey("GjhRnptPCa6qXuTyK9UsvA2NBRpKGPURXjVHFCnoq5qH"));
\ No newline at end of file
+  // Uncomment to check Short SOL with USDC
+  // getPositionPnl(client, new PublicKey("2oVLxJwCdU4eDqy7Koe5QGH71W26bxBuYaTYk6kYg23z"), tokenPrice);
+
+  // Uncomment to check Short SOL with USDT
+  // getPositionPnl(client, new PublicKey("GjhRnptPCa6qXuTyK9UsvA2NBRpKGPURXjVHFCnoq5qH"), tokenPrice);
+}
@@ -1,13 +1,6 @@
-import { PublicKey } from "@solana/web3.js";
-import { type IdlAccounts, BN } from "@coral-xyz/anchor";
-import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
-import {
-  JUPITER_PERPETUALS_PROGRAM,
-  JUPITER_PERPETUALS_PROGRAM_ID,
-  RPC_CONNECTION,
-  USDC_DECIMALS,
-} from "../constants";
-import { BNToUSDRepresentation } from "../utils";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { RPC_URL } from "../constants";
+import { PerpsClient } from "../client";
 
 /**
  * This file retrieves all existing position requests for a given position PDA.
@@ -23,10 +16,14 @@ import { BNToUSDRepresentation } from "../utils";
 
 /**
  * Finds all existing position request accounts for a given position PDA
+ * @param client The client used to query program accounts
  * @param positionPda The position PDA to find requests for
  * @returns Array of decoded position request accounts with their public keys
  */
-export async function getPositionRequestsForPosition(positionPda: string | PublicKey) {
+export async function getPositionRequestsForPosition(
+  client: PerpsClient,
+  positionPda: string | PublicKey
+) {
   try {
     const positionPubkey = typeof positionPda === 'string' 
       ? new PublicKey(positionPda)
@@ -34,27 +31,9 @@ export async function getPositionRequestsForPosition(positionPda: string | Publi
     
     console.log(`Finding position requests for position: ${positionPubkey.toBase58()}`);
     
-    // Prepare the filter to find all position request accounts for this position
-    const filters = [
-      {
-        memcmp: {
-          offset: 8, // Skip the account discriminator (8 bytes)
-          bytes: positionPubkey.toBase58() // Filter by position pubkey in the data
-        }
-      }
-    ];
-    
     try {
       // Use getProgramAccounts to find all matching accounts
-      const accounts = await RPC_CONNECTION.getProgramAccounts(
-        JUPITER_PERPETUALS_PROGRAM_ID,
-        {
-          filters: [
-            { dataSize: 333 }, // Size of position request accounts (may need adjustment based on exact size)
-            ...filters
-          ]
-        }
-      );
+      const accounts = await client.getPositionRequestsForPosition(positionPubkey);
       
       console.log(`Found ${accounts.length} position request accounts`);
       
@@ -62,31 +41,15 @@ export async function getPositionRequestsForPosition(positionPda: string | Publi
         return [];
       }
       
-      // Decode each account
-      const decodedAccounts = accounts.map(account => {
-        try {
-          const decodedData = JUPITER_PERPETUALS_PROGRAM.coder.accounts.decode(
-            "positionRequest",
-            account.account.data
-          ) as IdlAccounts<Perpetuals>["positionRequest"];
-          
-          // Create a readable representation with just the fields we know exist
-          const readable = {
-            position: decodedData.position.toBase58(),
-            owner: decodedData.owner.toBase58(),
-            requestType: decodedData.requestType.increase !== undefined ? "increase" : "decrease",
-          };
-          
-          return {
-            publicKey: account.pubkey,
-            account: decodedData,
-            readable
-          };
-        } catch (error) {
-          console.error(`Failed to decode account ${account.pubkey.toBase58()}`, error);
-          return null;
+      // Create a readable representation with just the fields we know exist
+      const decodedAccounts = accounts.map(account => ({
+        ...account,
+        readable: {
+          position: account.account.position.toBase58(),
+          owner: account.account.owner.toBase58(),
+          requestType: account.account.requestType.increase !== undefined ? "increase" : "decrease",
         }
-      }).filter(account => account !== null);
+      }));
       
       // Display the decoded accounts
       decodedAccounts.forEach((account, index) => {
@@ -138,5 +101,7 @@ For testing purposes, you can use other approaches like:
 
 // Example: Get position requests for a specific position
 // Using the Long SOL position PDA we saw earlier
-const positionPda = "5BEUw4D4MQvgknkpG8uDTq5DgxJha6Fft4ei1QX5VGjK";
-getPositionRequestsForPosition(positionPda); 
\ No newline at end of file
+if (require.main === module) {
+  const positionPda = "5BEUw4D4MQvgknkpG8uDTq5DgxJha6Fft4ei1QX5VGjK";
+  getPositionRequestsForPosition(new PerpsClient(new Connection(RPC_URL)), positionPda);
+}
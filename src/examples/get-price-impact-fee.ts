@@ -1,21 +1,23 @@
 import { BN } from "@coral-xyz/anchor";
 import { PublicKey } from "@solana/web3.js";
-import { BPS_POWER, JUPITER_PERPETUALS_PROGRAM } from "../constants";
-import { divCeil } from "../utils";
+import { USDC_DECIMALS } from "../constants";
+import { PerpsClient } from "../client";
+import { BNToUSDRepresentation } from "../utils";
 
 export async function getPriceImpactFee(
+  client: PerpsClient,
   tradeSizeUsd: BN,
   custodyPubkey: PublicKey,
 ) {
-  const custody =
-    await JUPITER_PERPETUALS_PROGRAM.account.custody.fetch(custodyPubkey);
-
-  const priceImpactFeeBps = divCeil(
-    tradeSizeUsd.mul(BPS_POWER),
-    custody.pricing.tradeImpactFeeScalar,
+  const priceImpactFeeUsd = await client.getPriceImpactFee(
+    tradeSizeUsd,
+    custodyPubkey,
   );
 
-  const priceImpactFeeUsd = tradeSizeUsd.mul(priceImpactFeeBps).div(BPS_POWER);
+  console.log(
+    "Price impact fee ($): ",
+    BNToUSDRepresentation(priceImpactFeeUsd, USDC_DECIMALS),
+  );
 
-  console.log("Price impact fee ($): ", priceImpactFeeUsd);
+  return priceImpactFeeUsd;
 }
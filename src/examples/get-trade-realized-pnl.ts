@@ -0,0 +1,89 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { RPC_URL, USDC_DECIMALS } from "../constants";
+import { PerpsClient } from "../client";
+import { decodeTransactionEvents, sortEvents } from "../events";
+import { LotMethod, getTradeAccounting } from "../trade-accounting";
+import { getTransactionsBatched } from "../transaction-fetcher";
+import { groupEventsIntoTrades } from "../trades";
+import { BNToUSDRepresentation } from "../utils";
+
+/**
+ * This file prints the realized PNL, fees and funding of every partial close of a position's trades, with each
+ * decrease allocated against the position's increases (lots) by FIFO or by average cost.
+ *
+ * Example usage:
+ * ts-node src/examples/get-trade-realized-pnl.ts <POSITION_PDA> [fifo|average-cost]
+ */
+export async function getTradeRealizedPnl(
+  client: PerpsClient,
+  positionPubkey: PublicKey | string,
+  method: LotMethod = "fifo",
+  limit = 100,
+) {
+  const signatureInfos = await client.connection.getSignaturesForAddress(
+    new PublicKey(positionPubkey),
+    { limit },
+  );
+
+  // Oldest first so transactions within the same slot stay in order. Failed transactions don't emit events
+  const signatures = signatureInfos
+    .filter(({ err }) => !err)
+    .map(({ signature }) => signature)
+    .reverse();
+  const { transactions } = await getTransactionsBatched(client.connection, signatures);
+  const events = transactions.flatMap((tx) => (tx ? decodeTransactionEvents(tx) : []));
+
+  const { activeTrades, completedTrades } = groupEventsIntoTrades(sortEvents(events));
+  const custodies = await client.getCustodies();
+  const format = (value: Parameters<typeof BNToUSDRepresentation>[0]) =>
+    BNToUSDRepresentation(value, USDC_DECIMALS);
+
+  return [...activeTrades, ...completedTrades].map((trade) => {
+    const accounting = getTradeAccounting(trade, custodies, { method });
+
+    console.log(`\nTrade ${trade.id} (${trade.positionSide}, ${trade.status})`);
+
+    accounting.closes.forEach((close, i) => {
+      console.log(
+        `  Close ${i + 1}: size $${format(close.fill.sizeUsd)} @ $${format(close.fill.price)} (${close.fill.orderType})`,
+      );
+      close.allocations.forEach((allocation) => {
+        console.log(
+          `    Lot opened @ $${format(allocation.lotEntryPrice)}: $${format(allocation.sizeUsd)} at entry $${format(allocation.entryPrice)}, PNL $${format(allocation.pnlUsd)}`,
+        );
+      });
+      console.log(
+        `    Realized PNL: $${format(close.realizedPnlUsd)} (reported: $${format(close.reportedPnlUsd)})`,
+      );
+      console.log(
+        `    Open fees: $${format(close.openFeeUsd)}, close fee: $${format(close.closeFeeUsd)}, funding: $${format(close.fundingUsd)}`,
+      );
+      console.log(`    Net PNL: $${format(close.netPnlUsd)}`);
+
+      if (!close.unallocatedSizeUsd.isZero()) {
+        console.log(`    Unallocated size (missing increases): $${format(close.unallocatedSizeUsd)}`);
+      }
+    });
+
+    console.log(
+      `  Total (${method}): realized PNL $${format(accounting.realizedPnlUsd)}, fees $${format(accounting.feesUsd)}, funding $${format(accounting.fundingUsd)}, net PNL $${format(accounting.netPnlUsd)}`,
+    );
+
+    return accounting;
+  });
+}
+
+if (require.main === module) {
+  const [positionPubkey, method] = process.argv.slice(2);
+
+  if (!positionPubkey) {
+    console.error("Usage: ts-node src/examples/get-trade-realized-pnl.ts <POSITION_PDA> [fifo|average-cost]");
+    process.exit(1);
+  }
+
+  getTradeRealizedPnl(
+    new PerpsClient(new Connection(RPC_URL)),
+    positionPubkey,
+    method === "average-cost" ? "average-cost" : "fifo",
+  );
+}
@@ -0,0 +1,73 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { RPC_URL, USDC_DECIMALS } from "../constants";
+import { EventIndex } from "../event-index";
+import { generateAllPositionPdas } from "../pda";
+import { groupEventsIntoTrades } from "../trades";
+import { BNToUSDRepresentation } from "../utils";
+
+/**
+ * This file indexes the Perpetuals events for all of a wallet's position PDAs into a local SQLite file and
+ * prints the wallet's trades from the store. The first run walks each PDA's full history (or back to
+ * `fromBlockTime`), later runs only fetch the signatures added since the last run, plus the older ones when
+ * `DAYS_BACK` reaches further back than before, so repeat runs are nearly instant.
+ *
+ * Example usage:
+ * ts-node src/examples/index-position-events.ts <WALLET_ADDRESS> [DAYS_BACK]
+ */
+export async function indexPositionEvents(
+  connection: Connection,
+  walletAddress: PublicKey | string,
+  daysBack = 30,
+) {
+  const index = new EventIndex(connection);
+  const positionPdas = generateAllPositionPdas(walletAddress);
+  const fromBlockTime = Math.floor(Date.now() / 1000) - daysBack * 24 * 60 * 60;
+
+  try {
+    for (const { positionPda, description } of positionPdas) {
+      const indexed = await index.indexPosition(positionPda, {
+        fromBlockTime,
+        onProgress: ({ indexed, total }) => {
+          if (indexed % 25 === 0 || indexed === total) {
+            console.log(`  ${description}: ${indexed}/${total} transactions`);
+          }
+        },
+      });
+
+      console.log(`${description}: ${indexed} new transactions indexed`);
+    }
+
+    const events = index.getEvents({
+      positionKeys: positionPdas.map(({ positionPda }) => positionPda),
+      fromBlockTime,
+    });
+    const { activeTrades, completedTrades } = groupEventsIntoTrades(events);
+
+    console.log(`\n${events.length} events, ${activeTrades.length} active trades, ${completedTrades.length} completed trades`);
+
+    [...activeTrades, ...completedTrades].forEach((trade) => {
+      console.log(
+        `${trade.id} (${trade.positionSide}, ${trade.status}): size $${BNToUSDRepresentation(trade.maxSizeUsd, USDC_DECIMALS)}, PNL $${BNToUSDRepresentation(trade.pnlUsd, USDC_DECIMALS)}, fees $${BNToUSDRepresentation(trade.totalFeesUsd, USDC_DECIMALS)}`,
+      );
+    });
+
+    return { activeTrades, completedTrades };
+  } finally {
+    index.close();
+  }
+}
+
+if (require.main === module) {
+  const [walletAddress, daysBack] = process.argv.slice(2);
+
+  if (!walletAddress) {
+    console.error("Usage: ts-node src/examples/index-position-events.ts <WALLET_ADDRESS> [DAYS_BACK]");
+    process.exit(1);
+  }
+
+  indexPositionEvents(
+    new Connection(RPC_URL),
+    walletAddress,
+    daysBack ? Number(daysBack) : undefined,
+  );
+}
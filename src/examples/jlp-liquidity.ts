@@ -0,0 +1,352 @@
+import { BN, Program } from "@coral-xyz/anchor";
+import {
+  AccountMeta,
+  Blockhash,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createSyncNativeInstruction,
+  getAssociatedTokenAddressSync,
+  NATIVE_MINT,
+} from "@solana/spl-token";
+import { AmountAndFee, CustodyAccount } from "../types";
+import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import {
+  generatePerpetualsPda,
+  generateTransferAuthorityPda,
+} from "../pda";
+import { buildUnsignedTransaction, simulateReturnData } from "../transaction";
+import {
+  BPS_POWER,
+  CUSTODY_PUBKEYS,
+  JLP_MINT_PUBKEY,
+  JLP_POOL_ACCOUNT_PUBKEY,
+} from "../constants";
+
+/**
+ * This file builds JLP deposit (`addLiquidity2`) and withdrawal (`removeLiquidity2`) transactions for the
+ * pool's custodies. Each builder first simulates the matching view instruction (`getAddLiquidityAmountAndFee2`
+ * or `getRemoveLiquidityAmountAndFee2`) to quote the exact amount out and fee, and uses the quote to derive
+ * the slippage-protected minimum out.
+ *
+ * The liquidity instructions value the whole pool (its AUM) to price JLP, so besides the deposited or withdrawn
+ * custody they read every custody of the pool and its Doves and Pythnet price accounts as remaining accounts.
+ */
+
+function assertPoolCustody(custody: CustodyAccount) {
+  if (!CUSTODY_PUBKEYS.some((pubkey) => pubkey.equals(custody.publicKey))) {
+    throw new Error(
+      `${custody.publicKey.toBase58()} is not a custody of the JLP pool`,
+    );
+  }
+}
+
+// Price accounts shared by the quote and liquidity instructions
+function getCustodyPriceAccounts(custody: CustodyAccount) {
+  return {
+    custody: custody.publicKey,
+    custodyDovesPriceAccount: custody.account.dovesOracle,
+    custodyPythnetPriceAccount: custody.account.oracle.oracleAccount,
+  };
+}
+
+/**
+ * The pool's custodies, followed by their Doves price accounts and then their Pythnet price accounts, in the
+ * order of `pool.custodies`
+ */
+export async function getPoolRemainingAccounts(
+  program: Program<Perpetuals>,
+): Promise<AccountMeta[]> {
+  const pool = await program.account.pool.fetch(JLP_POOL_ACCOUNT_PUBKEY);
+  const custodies = await program.account.custody.fetchMultiple(pool.custodies);
+
+  const accounts = pool.custodies.map((publicKey, index) => {
+    const custody = custodies[index];
+
+    if (!custody) {
+      throw new Error(`Custody ${publicKey.toBase58()} of the JLP pool not found`);
+    }
+
+    return { publicKey, account: custody };
+  });
+
+  return [
+    ...accounts.map(({ publicKey }) => publicKey),
+    ...accounts.map(({ account }) => account.dovesOracle),
+    ...accounts.map(({ account }) => account.oracle.oracleAccount),
+  ].map((pubkey) => ({ pubkey, isSigner: false, isWritable: false }));
+}
+
+// Applies `slippageBps` to the quoted amount to get the minimum amount the user accepts
+export function getMinAmountOut(quotedAmount: BN, slippageBps: number) {
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > BPS_POWER.toNumber()) {
+    throw new Error(`slippageBps must be an integer between 0 and ${BPS_POWER.toString()}, got ${slippageBps}`);
+  }
+
+  return quotedAmount.mul(BPS_POWER.subn(slippageBps)).div(BPS_POWER);
+}
+
+/**
+ * Quotes the JLP minted and the fee charged for depositing `tokenAmountIn` of the custody's token
+ *
+ * @param payer Any account with enough SOL to cover the simulation's gas fees, usually the user's wallet
+ * @param remainingAccounts The pool's custodies and price accounts, fetched with `getPoolRemainingAccounts` if omitted
+ */
+export async function quoteAddLiquidity({
+  program,
+  custody,
+  tokenAmountIn,
+  payer,
+  remainingAccounts,
+}: {
+  program: Program<Perpetuals>;
+  custody: CustodyAccount;
+  tokenAmountIn: BN;
+  payer: PublicKey;
+  remainingAccounts?: AccountMeta[];
+}): Promise<AmountAndFee> {
+  assertPoolCustody(custody);
+
+  const quoteIx = await program.methods
+    .getAddLiquidityAmountAndFee2({ tokenAmountIn })
+    .accounts({
+      perpetuals: generatePerpetualsPda().perpetuals,
+      pool: JLP_POOL_ACCOUNT_PUBKEY,
+      ...getCustodyPriceAccounts(custody),
+      lpTokenMint: JLP_MINT_PUBKEY,
+    })
+    .remainingAccounts(remainingAccounts ?? (await getPoolRemainingAccounts(program)))
+    .instruction();
+
+  const returnData = await simulateReturnData({
+    connection: program.provider.connection,
+    instruction: quoteIx,
+    payer,
+  });
+
+  return program.coder.types.decode("AmountAndFee", returnData);
+}
+
+/**
+ * Quotes the custody tokens received and the fee charged for burning `lpAmountIn` JLP
+ *
+ * @param payer Any account with enough SOL to cover the simulation's gas fees, usually the user's wallet
+ * @param remainingAccounts The pool's custodies and price accounts, fetched with `getPoolRemainingAccounts` if omitted
+ */
+export async function quoteRemoveLiquidity({
+  program,
+  custody,
+  lpAmountIn,
+  payer,
+  remainingAccounts,
+}: {
+  program: Program<Perpetuals>;
+  custody: CustodyAccount;
+  lpAmountIn: BN;
+  payer: PublicKey;
+  remainingAccounts?: AccountMeta[];
+}): Promise<AmountAndFee> {
+  assertPoolCustody(custody);
+
+  const quoteIx = await program.methods
+    .getRemoveLiquidityAmountAndFee2({ lpAmountIn })
+    .accounts({
+      perpetuals: generatePerpetualsPda().perpetuals,
+      pool: JLP_POOL_ACCOUNT_PUBKEY,
+      ...getCustodyPriceAccounts(custody),
+      lpTokenMint: JLP_MINT_PUBKEY,
+    })
+    .remainingAccounts(remainingAccounts ?? (await getPoolRemainingAccounts(program)))
+    .instruction();
+
+  const returnData = await simulateReturnData({
+    connection: program.provider.connection,
+    instruction: quoteIx,
+    payer,
+  });
+
+  return program.coder.types.decode("AmountAndFee", returnData);
+}
+
+/**
+ * Builds an unsigned transaction that deposits `tokenAmountIn` of the custody's token into the pool for JLP
+ *
+ * @param slippageBps The maximum deviation from the quoted JLP amount the user accepts
+ * @returns The unsigned transaction, the simulated quote and the `minLpAmountOut` used in the instruction
+ */
+export async function constructAddLiquidityTransaction({
+  program,
+  owner,
+  custody,
+  tokenAmountIn,
+  slippageBps,
+  recentBlockhash,
+}: {
+  program: Program<Perpetuals>;
+  owner: PublicKey;
+  custody: CustodyAccount;
+  tokenAmountIn: BN;
+  slippageBps: number;
+  recentBlockhash: Blockhash;
+}) {
+  const remainingAccounts = await getPoolRemainingAccounts(program);
+  const quote = await quoteAddLiquidity({
+    program,
+    custody,
+    tokenAmountIn,
+    payer: owner,
+    remainingAccounts,
+  });
+  const minLpAmountOut = getMinAmountOut(quote.amount, slippageBps);
+
+  const mint = custody.account.mint;
+  const fundingAccount = getAssociatedTokenAddressSync(mint, owner);
+  const lpTokenAccount = getAssociatedTokenAddressSync(JLP_MINT_PUBKEY, owner);
+
+  const preInstructions: TransactionInstruction[] = [
+    createAssociatedTokenAccountIdempotentInstruction(
+      owner,
+      lpTokenAccount,
+      owner,
+      JLP_MINT_PUBKEY,
+    ),
+  ];
+  const postInstructions: TransactionInstruction[] = [];
+
+  // Wrap to wSOL if needed so we can treat SOL as an SPL token
+  // https://spl.solana.com/token#example-wrapping-sol-in-a-token
+  if (mint.equals(NATIVE_MINT)) {
+    preInstructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(
+        owner,
+        fundingAccount,
+        owner,
+        NATIVE_MINT,
+      ),
+      SystemProgram.transfer({
+        fromPubkey: owner,
+        toPubkey: fundingAccount,
+        lamports: BigInt(tokenAmountIn.toString()),
+      }),
+      createSyncNativeInstruction(fundingAccount),
+    );
+
+    postInstructions.push(
+      createCloseAccountInstruction(fundingAccount, owner, owner),
+    );
+  }
+
+  const addLiquidityIx = await program.methods
+    .addLiquidity2({
+      tokenAmountIn,
+      minLpAmountOut,
+      tokenAmountPreSwap: null,
+    })
+    .accounts({
+      owner,
+      fundingAccount,
+      lpTokenAccount,
+      transferAuthority: generateTransferAuthorityPda().transferAuthority,
+      perpetuals: generatePerpetualsPda().perpetuals,
+      pool: JLP_POOL_ACCOUNT_PUBKEY,
+      ...getCustodyPriceAccounts(custody),
+      custodyTokenAccount: custody.account.tokenAccount,
+      lpTokenMint: JLP_MINT_PUBKEY,
+    })
+    .remainingAccounts(remainingAccounts)
+    .instruction();
+
+  const tx = await buildUnsignedTransaction({
+    connection: program.provider.connection,
+    instructions: [...preInstructions, addLiquidityIx, ...postInstructions],
+    payer: owner,
+    recentBlockhash,
+  });
+
+  return { tx, quote, minLpAmountOut };
+}
+
+/**
+ * Builds an unsigned transaction that burns `lpAmountIn` JLP for the custody's token. SOL withdrawals are
+ * unwrapped to native SOL in the same transaction.
+ *
+ * @param slippageBps The maximum deviation from the quoted token amount the user accepts
+ * @returns The unsigned transaction, the simulated quote and the `minAmountOut` used in the instruction
+ */
+export async function constructRemoveLiquidityTransaction({
+  program,
+  owner,
+  custody,
+  lpAmountIn,
+  slippageBps,
+  recentBlockhash,
+}: {
+  program: Program<Perpetuals>;
+  owner: PublicKey;
+  custody: CustodyAccount;
+  lpAmountIn: BN;
+  slippageBps: number;
+  recentBlockhash: Blockhash;
+}) {
+  const remainingAccounts = await getPoolRemainingAccounts(program);
+  const quote = await quoteRemoveLiquidity({
+    program,
+    custody,
+    lpAmountIn,
+    payer: owner,
+    remainingAccounts,
+  });
+  const minAmountOut = getMinAmountOut(quote.amount, slippageBps);
+
+  const mint = custody.account.mint;
+  const receivingAccount = getAssociatedTokenAddressSync(mint, owner);
+  const lpTokenAccount = getAssociatedTokenAddressSync(JLP_MINT_PUBKEY, owner);
+
+  const preInstructions: TransactionInstruction[] = [
+    createAssociatedTokenAccountIdempotentInstruction(
+      owner,
+      receivingAccount,
+      owner,
+      mint,
+    ),
+  ];
+  const postInstructions: TransactionInstruction[] = [];
+
+  if (mint.equals(NATIVE_MINT)) {
+    postInstructions.push(
+      createCloseAccountInstruction(receivingAccount, owner, owner),
+    );
+  }
+
+  const removeLiquidityIx = await program.methods
+    .removeLiquidity2({
+      lpAmountIn,
+      minAmountOut,
+    })
+    .accounts({
+      owner,
+      receivingAccount,
+      lpTokenAccount,
+      transferAuthority: generateTransferAuthorityPda().transferAuthority,
+      perpetuals: generatePerpetualsPda().perpetuals,
+      pool: JLP_POOL_ACCOUNT_PUBKEY,
+      ...getCustodyPriceAccounts(custody),
+      custodyTokenAccount: custody.account.tokenAccount,
+      lpTokenMint: JLP_MINT_PUBKEY,
+    })
+    .remainingAccounts(remainingAccounts)
+    .instruction();
+
+  const tx = await buildUnsignedTransaction({
+    connection: program.provider.connection,
+    instructions: [...preInstructions, removeLiquidityIx, ...postInstructions],
+    payer: owner,
+    recentBlockhash,
+  });
+
+  return { tx, quote, minAmountOut };
+}
@@ -1,45 +1,37 @@
-import { Connection, Keypair, PublicKey } from "@solana/web3.js";
-import { AnchorProvider, BN, Program, Wallet } from "@coral-xyz/anchor";
-import { IDL as DovesIDL } from "../idl/doves-idl";
-import { CUSTODY_PUBKEY } from "../constants";
+import { PublicKey } from "@solana/web3.js";
+import { BN } from "@coral-xyz/anchor";
+import {
+  CUSTODY_PUBKEY,
+  DOVES_ORACLE_PUBKEYS,
+  DOVES_PROGRAM_ID,
+  RPC_URLS,
+} from "../constants";
+import { PerpsClient } from "../client";
+import { createPooledConnection } from "../rpc-pool";
 import { BNToUSDRepresentation } from "../utils";
 
 /* Constants */
 
-const connection = new Connection("https://api.mainnet-beta.solana.com");
-
-const DOVES_PROGRAM_ID = new PublicKey(
-  "DoVEsk76QybCEHQGzkvYPWLQu9gzNoZZZt3TPiL597e",
-);
-
-const dovesProgram = new Program(
-  DovesIDL,
-  DOVES_PROGRAM_ID,
-  new AnchorProvider(connection, new Wallet(Keypair.generate()), {
-    preflightCommitment: "processed",
-  }),
-);
-
 const CUSTODY_DETAILS = {
   [CUSTODY_PUBKEY.SOL]: {
     mint: new PublicKey("So11111111111111111111111111111111111111112"),
-    dovesOracle: new PublicKey("39cWjvHrpHNz2SbXv6ME4NPhqBDBd4KsjUYv5JkHEAJU"),
+    dovesOracle: DOVES_ORACLE_PUBKEYS[CUSTODY_PUBKEY.SOL],
   },
   [CUSTODY_PUBKEY.ETH]: {
     mint: new PublicKey("7vfCXTUXx5WJV5JADk17DUJ4ksgau7utNKj4b963voxs"),
-    dovesOracle: new PublicKey("5URYohbPy32nxK1t3jAHVNfdWY2xTubHiFvLrE3VhXEp"),
+    dovesOracle: DOVES_ORACLE_PUBKEYS[CUSTODY_PUBKEY.ETH],
   },
   [CUSTODY_PUBKEY.BTC]: {
     mint: new PublicKey("3NZ9JMVBmGAqocybic2c7LQCJScmgsAZ6vQqTDzcqmJh"),
-    dovesOracle: new PublicKey("4HBbPx9QJdjJ7GUe6bsiJjGybvfpDhQMMPXP1UEa7VT5"),
+    dovesOracle: DOVES_ORACLE_PUBKEYS[CUSTODY_PUBKEY.BTC],
   },
   [CUSTODY_PUBKEY.USDC]: {
     mint: new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"),
-    dovesOracle: new PublicKey("A28T5pKtscnhDo6C1Sz786Tup88aTjt8uyKewjVvPrGk"),
+    dovesOracle: DOVES_ORACLE_PUBKEYS[CUSTODY_PUBKEY.USDC],
   },
   [CUSTODY_PUBKEY.USDT]: {
     mint: new PublicKey("Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB"),
-    dovesOracle: new PublicKey("AGW7q2a3WxCzh5TB2Q6yNde1Nf41g3HLaaXdybz7cbBU"),
+    dovesOracle: DOVES_ORACLE_PUBKEYS[CUSTODY_PUBKEY.USDT],
   },
 };
 
@@ -84,9 +76,12 @@ type CustodyToOraclePrice = Record<string, DovesOraclePrice>;
 
 /* Functions */
 
-async function fetchAndUpdateOraclePriceData(cache: CustodyToOraclePrice) {
+async function fetchAndUpdateOraclePriceData(
+  client: PerpsClient,
+  cache: CustodyToOraclePrice,
+) {
   const dovesPubkey = DOVES_ORACLES.map(({ publicKey }) => publicKey);
-  const feeds = await dovesProgram.account.priceFeed.fetchMultiple(dovesPubkey);
+  const feeds = await client.dovesProgram.account.priceFeed.fetchMultiple(dovesPubkey);
 
   DOVES_ORACLES.forEach(({ custody }, index) => {
     const feed = feeds[index];
@@ -108,7 +103,10 @@ async function fetchAndUpdateOraclePriceData(cache: CustodyToOraclePrice) {
   });
 }
 
-export async function subscribeOraclePrices(intervalMs: number = 100) {
+export async function subscribeOraclePrices(
+  client: PerpsClient,
+  intervalMs: number = 100,
+) {
   const cache = DOVES_ORACLES.reduce((cache, entries) => {
     cache[entries.custody.toString()] = {
       price: new BN(0),
@@ -121,12 +119,12 @@ export async function subscribeOraclePrices(intervalMs: number = 100) {
   }, {} as CustodyToOraclePrice);
 
   // Initialize the oracle price cache
-  await fetchAndUpdateOraclePriceData(cache);
+  await fetchAndUpdateOraclePriceData(client, cache);
 
   // Poll for price updates every `intervalMs` milliseconds
   const pollPriceUpdates = async () => {
     try {
-      await fetchAndUpdateOraclePriceData(cache);
+      await fetchAndUpdateOraclePriceData(client, cache);
       console.log(cache);
     } catch (err) {
       console.error("Failed to fetch and update oracle price: ", err);
@@ -139,7 +137,7 @@ export async function subscribeOraclePrices(intervalMs: number = 100) {
 
   // Stream price updates in addition to polling for price updates above. This alone is enough for most cases
   // but polling helps in case `onProgramAccountChange` misses price updates
-  connection.onProgramAccountChange(
+  client.connection.onProgramAccountChange(
     DOVES_PROGRAM_ID,
     ({ accountId, accountInfo }) => {
       const oracle = DOVES_ORACLES.find((oracle) =>
@@ -152,7 +150,7 @@ export async function subscribeOraclePrices(intervalMs: number = 100) {
         );
       }
 
-      const priceFeed = dovesProgram.coder.accounts.decode(
+      const priceFeed = client.dovesProgram.coder.accounts.decode(
         "priceFeed",
         accountInfo.data,
       );
@@ -175,4 +173,7 @@ export async function subscribeOraclePrices(intervalMs: number = 100) {
   return cache;
 }
 
-subscribeOraclePrices();
+if (require.main === module) {
+  // Polls are sent to the healthiest endpoint, the subscriptions use the first one
+  subscribeOraclePrices(new PerpsClient(createPooledConnection(RPC_URLS).connection));
+}
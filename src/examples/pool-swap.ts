@@ -0,0 +1,232 @@
+import { BN } from "@coral-xyz/anchor";
+import {
+  Blockhash,
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createSyncNativeInstruction,
+  getAssociatedTokenAddressSync,
+  NATIVE_MINT,
+} from "@solana/spl-token";
+import {
+  CUSTODY_PUBKEY,
+  JLP_POOL_ACCOUNT_PUBKEY,
+  RPC_URL,
+  USDC_DECIMALS,
+} from "../constants";
+import { PerpsClient } from "../client";
+import { generatePerpetualsPda, generateTransferAuthorityPda } from "../pda";
+import { quoteSwapOffline, SwapQuote } from "../swap";
+import { Custody } from "../types";
+import { buildUnsignedTransaction } from "../transaction";
+import { getMinAmountOut } from "./jlp-liquidity";
+import { fetchMarkPrices } from "./mark-price";
+import { BNToUSDRepresentation, getAssetNameFromCustody, toUsdcDecimalsPrice } from "../utils";
+
+/**
+ * This file quotes and builds `swap2` transactions, which swap tokens directly against the JLP pool's custodies.
+ *
+ * The quote uses the Doves oracle prices and the pool's swap fee parameters. The program prices swaps with the
+ * same oracles when the transaction executes, so use a slippage-protected `minAmountOut` to guard against price
+ * moves between quoting and execution.
+ *
+ * Example usage:
+ * ts-node src/examples/pool-swap.ts
+ */
+
+/**
+ * Quotes a swap of `amountIn` (in the input token's atomic units) from one custody to another
+ *
+ * @param receivingCustodyPubkey The custody of the input token (the custody that receives the user's tokens)
+ * @param dispensingCustodyPubkey The custody of the output token (the custody that dispenses tokens to the user)
+ */
+export async function quoteSwap(
+  client: PerpsClient,
+  receivingCustodyPubkey: CUSTODY_PUBKEY,
+  dispensingCustodyPubkey: CUSTODY_PUBKEY,
+  amountIn: BN,
+): Promise<SwapQuote> {
+  if (receivingCustodyPubkey === dispensingCustodyPubkey) {
+    throw new Error("Cannot swap a custody's token for itself");
+  }
+
+  const [receivingCustody, dispensingCustody] = await Promise.all([
+    client.getCustody(receivingCustodyPubkey),
+    client.getCustody(dispensingCustodyPubkey),
+  ]);
+
+  return quoteSwapForCustodies(
+    client,
+    receivingCustodyPubkey,
+    receivingCustody,
+    dispensingCustodyPubkey,
+    dispensingCustody,
+    amountIn,
+  );
+}
+
+// Quotes a swap between custodies the caller already fetched
+async function quoteSwapForCustodies(
+  client: PerpsClient,
+  receivingCustodyPubkey: CUSTODY_PUBKEY,
+  receivingCustody: Custody,
+  dispensingCustodyPubkey: CUSTODY_PUBKEY,
+  dispensingCustody: Custody,
+  amountIn: BN,
+): Promise<SwapQuote> {
+  const [pool, markPrices] = await Promise.all([
+    client.getPool(),
+    fetchMarkPrices(client, true),
+  ]);
+
+  const receivingPrice = markPrices[receivingCustodyPubkey];
+  const dispensingPrice = markPrices[dispensingCustodyPubkey];
+
+  if (!receivingPrice || !dispensingPrice) {
+    throw new Error("Failed to fetch the oracle prices for the swap");
+  }
+
+  return quoteSwapOffline({
+    pool,
+    receivingCustody,
+    dispensingCustody,
+    receivingTokenPrice: toUsdcDecimalsPrice(receivingPrice.price, receivingPrice.expo),
+    dispensingTokenPrice: toUsdcDecimalsPrice(dispensingPrice.price, dispensingPrice.expo),
+    amountIn,
+  });
+}
+
+/**
+ * Builds an unsigned `swap2` transaction. SOL is wrapped and unwrapped automatically.
+ *
+ * @param slippageBps The maximum deviation from the quoted output the user accepts, between 0 and 10000
+ * @returns The unsigned transaction, the quote and the `minAmountOut` used in the instruction
+ */
+export async function constructSwapTransaction({
+  client,
+  owner,
+  receivingCustodyPubkey,
+  dispensingCustodyPubkey,
+  amountIn,
+  slippageBps,
+  recentBlockhash,
+}: {
+  client: PerpsClient;
+  owner: PublicKey;
+  receivingCustodyPubkey: CUSTODY_PUBKEY;
+  dispensingCustodyPubkey: CUSTODY_PUBKEY;
+  amountIn: BN;
+  slippageBps: number;
+  recentBlockhash: Blockhash;
+}) {
+  if (receivingCustodyPubkey === dispensingCustodyPubkey) {
+    throw new Error("Cannot swap a custody's token for itself");
+  }
+
+  const [receivingCustody, dispensingCustody] = await Promise.all([
+    client.getCustody(receivingCustodyPubkey),
+    client.getCustody(dispensingCustodyPubkey),
+  ]);
+
+  const quote = await quoteSwapForCustodies(
+    client,
+    receivingCustodyPubkey,
+    receivingCustody,
+    dispensingCustodyPubkey,
+    dispensingCustody,
+    amountIn,
+  );
+
+  const minAmountOut = getMinAmountOut(quote.amountOutAfterFees, slippageBps);
+
+  const fundingAccount = getAssociatedTokenAddressSync(receivingCustody.mint, owner);
+  const receivingAccount = getAssociatedTokenAddressSync(dispensingCustody.mint, owner);
+
+  const preInstructions: TransactionInstruction[] = [
+    createAssociatedTokenAccountIdempotentInstruction(
+      owner,
+      receivingAccount,
+      owner,
+      dispensingCustody.mint,
+    ),
+  ];
+  const postInstructions: TransactionInstruction[] = [];
+
+  // Wrap to wSOL if needed so we can treat SOL as an SPL token
+  // https://spl.solana.com/token#example-wrapping-sol-in-a-token
+  if (receivingCustody.mint.equals(NATIVE_MINT)) {
+    preInstructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(
+        owner,
+        fundingAccount,
+        owner,
+        NATIVE_MINT,
+      ),
+      SystemProgram.transfer({
+        fromPubkey: owner,
+        toPubkey: fundingAccount,
+        lamports: BigInt(amountIn.toString()),
+      }),
+      createSyncNativeInstruction(fundingAccount),
+    );
+
+    postInstructions.push(
+      createCloseAccountInstruction(fundingAccount, owner, owner),
+    );
+  }
+
+  if (dispensingCustody.mint.equals(NATIVE_MINT)) {
+    postInstructions.push(
+      createCloseAccountInstruction(receivingAccount, owner, owner),
+    );
+  }
+
+  const swapIx = await client.program.methods
+    .swap2({ amountIn, minAmountOut })
+    .accounts({
+      owner,
+      fundingAccount,
+      receivingAccount,
+      transferAuthority: generateTransferAuthorityPda().transferAuthority,
+      perpetuals: generatePerpetualsPda().perpetuals,
+      pool: JLP_POOL_ACCOUNT_PUBKEY,
+      receivingCustody: new PublicKey(receivingCustodyPubkey),
+      receivingCustodyDovesPriceAccount: receivingCustody.dovesOracle,
+      receivingCustodyPythnetPriceAccount: receivingCustody.oracle.oracleAccount,
+      receivingCustodyTokenAccount: receivingCustody.tokenAccount,
+      dispensingCustody: new PublicKey(dispensingCustodyPubkey),
+      dispensingCustodyDovesPriceAccount: dispensingCustody.dovesOracle,
+      dispensingCustodyPythnetPriceAccount: dispensingCustody.oracle.oracleAccount,
+      dispensingCustodyTokenAccount: dispensingCustody.tokenAccount,
+    })
+    .instruction();
+
+  const tx = await buildUnsignedTransaction({
+    connection: client.connection,
+    instructions: [...preInstructions, swapIx, ...postInstructions],
+    payer: owner,
+    recentBlockhash,
+  });
+
+  return { tx, quote, minAmountOut };
+}
+
+if (require.main === module) {
+  const client = new PerpsClient(new Connection(RPC_URL));
+
+  // Quote a 1 SOL -> USDC swap
+  quoteSwap(client, CUSTODY_PUBKEY.SOL, CUSTODY_PUBKEY.USDC, new BN(1_000_000_000)).then(
+    (quote) => {
+      console.log(
+        `1 ${getAssetNameFromCustody(CUSTODY_PUBKEY.SOL)} -> ${BNToUSDRepresentation(quote.amountOutAfterFees, USDC_DECIMALS)} ${getAssetNameFromCustody(CUSTODY_PUBKEY.USDC)}`,
+      );
+      console.log(`Swap value ($): ${BNToUSDRepresentation(quote.swapUsdAmount, USDC_DECIMALS)}`);
+      console.log(`Fee: ${quote.feeBps.toString()} BPS (${BNToUSDRepresentation(quote.fee, USDC_DECIMALS)} USDC)`);
+    },
+  );
+}
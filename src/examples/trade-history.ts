@@ -1,61 +1,53 @@
-import { DISCRIMINATOR_SIZE, IdlEvents, utils } from "@coral-xyz/anchor";
 import {
-  JUPITER_PERPETUALS_PROGRAM,
-  RPC_CONNECTION,
+  BPS_POWER,
+  RPC_URLS,
   USDC_DECIMALS,
   CUSTODY_PUBKEY,
 } from "../constants";
-import { PublicKey } from "@solana/web3.js";
-import { Perpetuals } from "../idl/jupiter-perpetuals-idl";
+import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
 import { inspect } from 'util';
-import { BN } from "@coral-xyz/anchor";
+import { BN, utils } from "@coral-xyz/anchor";
 import { BNToUSDRepresentation } from "../utils";
+import { PerpsClient } from "../client";
+import { DecodedEvent, decodeTransactionEvents, isEventOfType, sortEvents } from "../events";
+import { EventWithTx, toEventWithTx } from "../event-format";
+import { createPooledConnection } from "../rpc-pool";
+import { getTransactionsBatched } from "../transaction-fetcher";
+import {
+  getTradeLeverageBps,
+  getTradeRoiBps,
+  getTradeSizeUsd,
+  groupEventsIntoTrades,
+  Trade,
+} from "../trades";
 
-type AnchorIdlEvent<EventName extends keyof IdlEvents<Perpetuals>> = {
-  name: EventName;
-  data: IdlEvents<Perpetuals>[EventName];
-};
+const client = new PerpsClient(createPooledConnection(RPC_URLS).connection);
 
-// EventWithTx combines an event with its transaction data
-type EventWithTx = {
-  event: {
-    name: string;
-    data: any;
-  } | null;
-  tx: {
-    signature: string;
-    blockTime: string | null;
-    slot?: number;
-    fee: string;
-    feeInLamports: number;
+// The parameters of the `instantCreateTpsl` / `instantUpdateTpsl` instruction that emitted a TP/SL event
+interface TpslInstructionData {
+  instructionName: 'instantCreateTpsl' | 'instantUpdateTpsl';
+  params: {
+    collateralUsdDelta: BN;
+    sizeUsdDelta: BN;
+    triggerPrice: BN;
+    triggerAboveThreshold: boolean;
+    entirePosition: boolean;
+    counter: BN;
+    requestTime: BN;
+    takeProfitTriggerPrice: BN | null;
+    stopLossTriggerPrice: BN | null;
+    takeProfitSizePct: number;
+    stopLossSizePct: number;
   };
-} | null;  // Make nullable to match actual return type
-
-// Trade represents a complete trade lifecycle
-interface ITrade {
-  id: string; // unique ID combining positionKey and lifecycle count
-  positionKey: string;
-  positionSide: string; // "Long" or "Short"
-  status: "active" | "closed" | "liquidated";
-  owner: string;
-  asset?: string;
-  entryPrice: number;
-  exitPrice?: number;
-  sizeUsd: number;
-  finalSize?: number; // Size before closing (for completed trades)
-  maxSize?: number;   // Maximum size the position reached
-  notionalSize?: number; // Amount of the asset (not USD)
-  collateralUsd: number;
-  leverage: number;
-  pnl?: number;
-  roi?: number;
-  totalFees?: number; // Total fees paid for the position
-  openTime: string | null;
-  closeTime?: string | null;
-  events: EventWithTx[];
-  hasProfit?: boolean;
 }
 
+// A decoded event, with the TP/SL instruction parameters for TP/SL events
+type TradeHistoryEvent = DecodedEvent & {
+  tpslInstructionData?: TpslInstructionData | null;
+};
+
+type ITrade = Trade<TradeHistoryEvent>;
+
 // First, update the discriminators to match the standard Anchor format
 export const TPSL_INSTRUCTION_DISCRIMINATORS = {
   // For Anchor programs, the instruction discriminator is first 8 bytes of sha256 hash of the instruction name
@@ -74,65 +66,13 @@ export const LIMIT_ORDER_INSTRUCTION_DISCRIMINATORS = {
 // console.log("Create TPSL discriminator:", Array.from(TPSL_INSTRUCTION_DISCRIMINATORS.instantCreateTpsl));
 // console.log("Update TPSL discriminator:", Array.from(TPSL_INSTRUCTION_DISCRIMINATORS.instantUpdateTpsl));
 
-// Helper function to format event data to make it human-readable
-function formatEventData(event: any): any {
-  if (!event) return null;
-  
-  const { name, data } = event;
-  
-  // Create a new clean object instead of modifying the original
-  const cleanData: any = {};
-  
-  // Convert PublicKeys to strings and format numbers
-  Object.keys(data).forEach(key => {
-    const value = data[key];
-    
-    // Handle PublicKey objects
-    if (value instanceof PublicKey) {
-      cleanData[key] = value.toString();
-    }
-    // Handle BigNumbers (BN)
-    else if (value instanceof BN) {
-      if (key.includes('Usd') || key.includes('usd') || key.includes('Price') || key.includes('price') || key === 'pnlDelta') {
-        cleanData[key] = `$${BNToUSDRepresentation(value, USDC_DECIMALS)}`;
-      } else if (key.includes('Time')) {
-        cleanData[key] = new Date(value.toNumber() * 1000).toISOString();
-      } else {
-        cleanData[key] = value.toString();
-      }
-    }
-    // Handle arrays
-    else if (Array.isArray(value)) {
-      cleanData[key] = value;
-    }
-    // Handle side enum
-    else if (key === 'positionSide') {
-      cleanData[key] = value === 1 ? "Long" : "Short";
-    }
-    // Handle null values
-    else if (value === null) {
-      cleanData[key] = null;
-    }
-    // Handle regular values
-    else {
-      cleanData[key] = value;
-    }
-  });
-  
-  return {
-    name,
-    data: cleanData
-  };
-}
-
-// Update the getPositionEvents function to use fetchTransactionWithRetry
 export async function getPositionEvents() {
   // Use specific position PDA
   const positionPDA = new PublicKey("5RUuGzNkb6pnQdhpCTYfwf1TTnm1omVSvmZUHcXiuG6D");
   
   // Maximum transaction signatures to return (between 1 and 1,000).
   console.log("Getting signatures...");
-  const confirmedSignatureInfos = await RPC_CONNECTION.getSignaturesForAddress(
+  const confirmedSignatureInfos = await client.connection.getSignaturesForAddress(
     positionPDA,
     { limit: 10 } // Only fetch 10 transactions AND minContextSlot for custom timeinterval 
   );
@@ -144,8 +84,15 @@ export async function getPositionEvents() {
   
   console.log(`Found ${confirmedSignatureInfos.length} transactions`);
   
-  // Process ONE transaction at a time with longer delays
-  const allEvents = [];
+  // Fetch the transactions in JSON-RPC batches, failed transactions don't emit events
+  const signaturesToFetch = confirmedSignatureInfos
+    .filter((sigInfo) => !sigInfo.err)
+    .map((sigInfo) => sigInfo.signature);
+  const { transactions } = await getTransactionsBatched(client.connection, signaturesToFetch);
+  const transactionsBySignature = new Map(
+    signaturesToFetch.map((signature, index) => [signature, transactions[index]]),
+  );
+  const allEvents: TradeHistoryEvent[] = [];
   
   for (let i = 0; i < confirmedSignatureInfos.length; i++) {
     if (confirmedSignatureInfos[i].err) {
@@ -153,214 +100,26 @@ export async function getPositionEvents() {
       continue;
     }
     
-    // Add a delay between each transaction processing to avoid rate limits
-    if (i > 0) {
-      console.log(`Waiting 5 seconds before processing next transaction...`);
-      await new Promise(resolve => setTimeout(resolve, 5000));
-    }
-    
     try {
       console.log(`Processing transaction ${i+1}/${confirmedSignatureInfos.length}: ${confirmedSignatureInfos[i].signature}`);
       
-      // Use our retry function
-      const tx = await fetchTransactionWithRetry(confirmedSignatureInfos[i].signature);
+      const tx = transactionsBySignature.get(confirmedSignatureInfos[i].signature);
       
       if (!tx || !tx.meta || !tx.meta.innerInstructions) {
         console.log("No inner instructions found in transaction");
         continue;
       }
       
-      const txEvents = tx.meta.innerInstructions.flatMap((ix: { instructions: any[] }) => {
-        return ix.instructions.map((iix: { data: string }) => {
-          try {
-            const ixData = utils.bytes.bs58.decode(iix.data);
-            const eventData = utils.bytes.base64.encode(
-              ixData.subarray(DISCRIMINATOR_SIZE)
-            );
-            const decodedEvent = JUPITER_PERPETUALS_PROGRAM.coder.events.decode(eventData);
-            
-            // Debugging: Log event names
-            if (decodedEvent) {
-              console.log(`Found event: ${decodedEvent.name}`);
-            }
-            
-            // Format the event data for human readability
-            const formattedEvent = formatEventData(decodedEvent);
-            
-            // Get transaction fee (safe because we already checked tx.meta != null)
-            const feeInSOL = tx.meta!.fee / 1_000_000_000; // Convert lamports to SOL
-            
-            const eventWithTx = {
-              event: formattedEvent,
-              tx: {
-                signature: confirmedSignatureInfos[i].signature,
-                blockTime: tx.blockTime 
-                  ? new Date(tx.blockTime * 1000).toISOString()
-                  : null,
-                fee: `${feeInSOL} SOL`,
-                feeInLamports: tx.meta!.fee
-              }
-            };
-            
-            // For TP/SL events, fetch the instruction data immediately
-            if (formattedEvent && (
-                formattedEvent.name === 'InstantCreateTpslEvent' || 
-                formattedEvent.name === 'InstantUpdateTpslEvent')
-            ) {
-              // We'll try to extract TP/SL parameters from the transaction
-              let tpslData = null;
-              try {
-                // Get all instructions in the transaction - handle versioned transactions
-                let instructions;
-                let accountKeys;
-                
-                if ('message' in tx.transaction) {
-                  const message = tx.transaction.message;
-                  
-                  // For versioned transactions
-                  if ('version' in message) {
-                    // For MessageV0
-                    instructions = message.compiledInstructions;
-                    try {
-                      // For versioned transactions with lookup tables
-                      if (tx.meta?.loadedAddresses) {
-                        // Use staticAccountKeys and loaded addresses
-                        const staticKeys = message.staticAccountKeys || [];
-                        const writableKeys = tx.meta.loadedAddresses.writable || [];
-                        const readonlyKeys = tx.meta.loadedAddresses.readonly || [];
-                        accountKeys = [...staticKeys, ...writableKeys, ...readonlyKeys];
-                      } else {
-                        accountKeys = message.staticAccountKeys || [];
-                      }
-                    } catch (err) {
-                      console.log("Error getting account keys, using static keys:", err);
-                      accountKeys = message.staticAccountKeys || [];
-                    }
-                  } else {
-                    // For legacy transactions
-                    instructions = (message as any).instructions;
-                    accountKeys = (message as any).accountKeys;
-                  }
-                }
-                
-                if (instructions && accountKeys) {
-                  // Find the TP/SL instruction
-                  for (const ix of instructions) {
-                    // Skip if no programId index
-                    if (ix.programIdIndex === undefined) continue;
-                    
-                    // Get program ID
-                    const programId = accountKeys[ix.programIdIndex];
-                    
-                    // Check if this is a Jupiter Perpetuals instruction
-                    if (programId.toString() === JUPITER_PERPETUALS_PROGRAM.programId.toString()) {
-                      // Get the instruction data
-                      const data = Buffer.from(ix.data);
-                      
-                      // Check for TP/SL instruction discriminators
-                      const discriminator = data.slice(0, 8);
-                      
-                      const isCreateTpsl = Buffer.compare(discriminator, TPSL_INSTRUCTION_DISCRIMINATORS.instantCreateTpsl) === 0;
-                      const isUpdateTpsl = Buffer.compare(discriminator, TPSL_INSTRUCTION_DISCRIMINATORS.instantUpdateTpsl) === 0;
-                      
-                      if (isCreateTpsl || isUpdateTpsl) {
-                        console.log(`Found ${isCreateTpsl ? 'instantCreateTpsl' : 'instantUpdateTpsl'} instruction`);
-                        
-                        // Parse TP/SL parameters from buffer
-                        const instructionDataBuffer = data.slice(8);
-                        let offset = 0;
-                        
-                        // Read collateralUsdDelta (u64/BN)
-                        const collateralUsdDelta = new BN(instructionDataBuffer.slice(offset, offset + 8), 'le');
-                        offset += 8;
-                        
-                        // Read sizeUsdDelta (u64/BN)
-                        const sizeUsdDelta = new BN(instructionDataBuffer.slice(offset, offset + 8), 'le');
-                        offset += 8;
-                        
-                        // Read triggerPrice (u64/BN)
-                        const triggerPrice = new BN(instructionDataBuffer.slice(offset, offset + 8), 'le');
-                        offset += 8;
-                        
-                        // Read triggerAboveThreshold (bool) - 1 byte
-                        const triggerAboveThreshold = instructionDataBuffer[offset] === 1;
-                        offset += 1;
-                        
-                        // Read entirePosition (bool) - 1 byte
-                        const entirePosition = instructionDataBuffer[offset] === 1;
-                        offset += 1;
-                        
-                        // Read counter (u64/BN) if available
-                        let counter = new BN(0);
-                        if (offset + 8 <= instructionDataBuffer.length) {
-                          counter = new BN(instructionDataBuffer.slice(offset, offset + 8), 'le');
-                          offset += 8;
-                        }
-                        
-                        // Read requestTime (i64/BN) if available
-                        let requestTime = new BN(0);
-                        if (offset + 8 <= instructionDataBuffer.length) {
-                          requestTime = new BN(instructionDataBuffer.slice(offset, offset + 8), 'le');
-                        }
-                        
-                        // Create the TPSL data object - if triggerAboveThreshold is true, it's a Take Profit
-                        // If false, it's a Stop Loss
-                        tpslData = {
-                          instructionName: isCreateTpsl ? 'instantCreateTpsl' : 'instantUpdateTpsl',
-                          params: {
-                            collateralUsdDelta,
-                            sizeUsdDelta,
-                            triggerPrice,
-                            triggerAboveThreshold,
-                            entirePosition,
-                            counter,
-                            requestTime,
-                            // For convenience, also include the interpreted values
-                            takeProfitTriggerPrice: triggerAboveThreshold ? triggerPrice : null,
-                            stopLossTriggerPrice: !triggerAboveThreshold ? triggerPrice : null,
-                            takeProfitSizePct: entirePosition ? 10000 : 5000, // Default to 100% for entire position, 50% otherwise
-                            stopLossSizePct: entirePosition ? 10000 : 5000
-                          }
-                        };
-                        
-                        // Add TP/SL data to the event
-                        if (formattedEvent.data) {
-                          // Add to the event data
-                          if (triggerAboveThreshold) {
-                            formattedEvent.data.takeProfitPrice = `$${BNToUSDRepresentation(triggerPrice, USDC_DECIMALS)}`;
-                            formattedEvent.data.takeProfitSizePercent = entirePosition ? 10000 : 5000;
-                          } else {
-                            formattedEvent.data.stopLossPrice = `$${BNToUSDRepresentation(triggerPrice, USDC_DECIMALS)}`;
-                            formattedEvent.data.stopLossSizePercent = entirePosition ? 10000 : 5000;
-                          }
-                          
-                          // Add all raw instruction parameters to the event data
-                          formattedEvent.data.tpslInstructionData = tpslData;
-                          formattedEvent.data.tpslCollateralUsdDelta = `$${BNToUSDRepresentation(collateralUsdDelta, USDC_DECIMALS)}`;
-                          formattedEvent.data.tpslSizeUsdDelta = `$${BNToUSDRepresentation(sizeUsdDelta, USDC_DECIMALS)}`;
-                          formattedEvent.data.tpslTriggerPrice = `$${BNToUSDRepresentation(triggerPrice, USDC_DECIMALS)}`;
-                          formattedEvent.data.tpslTriggerAboveThreshold = triggerAboveThreshold;
-                          formattedEvent.data.tpslEntirePosition = entirePosition;
-                          formattedEvent.data.tpslCounter = counter.toString();
-                          formattedEvent.data.tpslRequestTime = new Date(requestTime.toNumber() * 1000).toISOString();
-                        }
-                        
-                        break;
-                      }
-                    }
-                  }
-                }
-              } catch (error) {
-                console.error("Error extracting TP/SL instruction data:", error);
-              }
-            }
-            
-            return eventWithTx;
-          } catch (error) {
-            console.log("Failed to decode instruction data");
-            return null;
-          }
-        }).filter(Boolean);
+      const txEvents = decodeTransactionEvents(tx).map((decodedEvent): TradeHistoryEvent => {
+        // Debugging: Log event names
+        console.log(`Found event: ${decodedEvent.event.name}`);
+        
+        // For TP/SL events, add the parameters from the TP/SL instruction
+        if (isEventOfType(decodedEvent, ['InstantCreateTpslEvent', 'InstantUpdateTpslEvent'])) {
+          return { ...decodedEvent, tpslInstructionData: parseTpslInstructionData(tx) };
+        }
+        
+        return decodedEvent;
       });
       
       allEvents.push(...txEvents);
@@ -373,22 +132,26 @@ export async function getPositionEvents() {
   
   console.log(`Found ${allEvents.length} total events`);
   
+  // Sort all events in the order they were emitted. The signatures are processed newest first, so reverse
+  // the events to order transactions within the same slot oldest first
+  const sortedEvents = sortEvents([...allEvents].reverse());
+  
   // Filter to only return position events
-  const filteredEvents = allEvents.filter(
-    (data) =>
-      data?.event?.name === "IncreasePositionEvent" ||
-      data?.event?.name === "InstantIncreasePositionEvent" ||
-      data?.event?.name === "DecreasePositionEvent" ||
-      data?.event?.name === "InstantDecreasePositionEvent" ||
-      data?.event?.name === "LiquidateFullPositionEvent" ||
-      data?.event?.name === "IncreasePositionPreSwapEvent" ||
-      data?.event?.name === "DecreasePositionPostSwapEvent" ||
-      data?.event?.name === "InstantCreateTpslEvent" ||
-      data?.event?.name === "InstantUpdateTpslEvent" ||
-      data?.event?.name === "InstantCreateLimitOrderEvent" ||
-      data?.event?.name === "InstantUpdateLimitOrderEvent" ||
-      data?.event?.name === "PoolSwapEvent" ||
-      data?.event?.name === "PoolSwapExactOutEvent"
+  const filteredEvents = sortedEvents.filter((evt) =>
+    isEventOfType(evt, [
+      "IncreasePositionEvent",
+      "InstantIncreasePositionEvent",
+      "DecreasePositionEvent",
+      "InstantDecreasePositionEvent",
+      "LiquidateFullPositionEvent",
+      "IncreasePositionPreSwapEvent",
+      "DecreasePositionPostSwapEvent",
+      "InstantCreateTpslEvent",
+      "InstantUpdateTpslEvent",
+      "InstantCreateLimitOrderEvent",
+      "PoolSwapEvent",
+      "PoolSwapExactOutEvent",
+    ])
   );
   
   console.log(`Found ${filteredEvents.length} relevant position events`);
@@ -396,44 +159,182 @@ export async function getPositionEvents() {
   return filteredEvents;
 }
 
-// Implement exponential backoff for RPC requests
-async function fetchTransactionWithRetry(signature: string, maxRetries = 5): Promise<any> {
-  let retries = 0;
-  let delay = 500; // Start with 500ms delay
-  
-  while (retries < maxRetries) {
-    try {
-      return await RPC_CONNECTION.getTransaction(
-        signature,
-        { 
-          commitment: "confirmed",
-          maxSupportedTransactionVersion: 0
-        }
-      );
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      // Check if it's a rate limit error
-      if (errorMessage.includes("429") || errorMessage.includes("Too Many Requests")) {
-        retries++;
-        
-        if (retries >= maxRetries) {
-          console.log(`Maximum retries (${maxRetries}) reached. Giving up.`);
-          throw error;
+// Extracts the TP/SL parameters from the transaction's `instantCreateTpsl` / `instantUpdateTpsl` instruction
+function parseTpslInstructionData(tx: VersionedTransactionResponse): TpslInstructionData | null {
+  // We'll try to extract TP/SL parameters from the transaction
+  let tpslData: TpslInstructionData | null = null;
+  try {
+    // Get all instructions in the transaction - handle versioned transactions
+    let instructions;
+    let accountKeys;
+
+    if ('message' in tx.transaction) {
+      const message = tx.transaction.message;
+
+      // For versioned transactions
+      if ('version' in message) {
+        // For MessageV0
+        instructions = message.compiledInstructions;
+        try {
+          // For versioned transactions with lookup tables
+          if (tx.meta?.loadedAddresses) {
+            // Use staticAccountKeys and loaded addresses
+            const staticKeys = message.staticAccountKeys || [];
+            const writableKeys = tx.meta.loadedAddresses.writable || [];
+            const readonlyKeys = tx.meta.loadedAddresses.readonly || [];
+            accountKeys = [...staticKeys, ...writableKeys, ...readonlyKeys];
+          } else {
+            accountKeys = message.staticAccountKeys || [];
+          }
+        } catch (err) {
+          console.log("Error getting account keys, using static keys:", err);
+          accountKeys = message.staticAccountKeys || [];
         }
-        
-        // Exponential backoff with jitter
-        const jitter = Math.random() * 0.3 + 0.85; // Random between 0.85 and 1.15
-        delay = Math.min(delay * 2 * jitter, 10000); // Cap at 10 seconds
-        
-        console.log(`Rate limited. Retry ${retries}/${maxRetries} after ${Math.round(delay)}ms delay...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
       } else {
-        // For non-rate-limit errors, just throw
-        throw error;
+        // For legacy transactions
+        instructions = (message as any).instructions;
+        accountKeys = (message as any).accountKeys;
+      }
+    }
+
+    if (instructions && accountKeys) {
+      // Find the TP/SL instruction
+      for (const ix of instructions) {
+        // Skip if no programId index
+        if (ix.programIdIndex === undefined) continue;
+
+        // Get program ID
+        const programId = accountKeys[ix.programIdIndex];
+
+        // Check if this is a Jupiter Perpetuals instruction
+        if (programId.toString() === client.program.programId.toString()) {
+          // Get the instruction data
+          const data = Buffer.from(ix.data);
+
+          // Check for TP/SL instruction discriminators
+          const discriminator = data.slice(0, 8);
+
+          const isCreateTpsl = Buffer.compare(discriminator, TPSL_INSTRUCTION_DISCRIMINATORS.instantCreateTpsl) === 0;
+          const isUpdateTpsl = Buffer.compare(discriminator, TPSL_INSTRUCTION_DISCRIMINATORS.instantUpdateTpsl) === 0;
+
+          if (isCreateTpsl || isUpdateTpsl) {
+            console.log(`Found ${isCreateTpsl ? 'instantCreateTpsl' : 'instantUpdateTpsl'} instruction`);
+
+            // Parse TP/SL parameters from buffer
+            const instructionDataBuffer = data.slice(8);
+            let offset = 0;
+
+            // Read collateralUsdDelta (u64/BN)
+            const collateralUsdDelta = new BN(instructionDataBuffer.slice(offset, offset + 8), 'le');
+            offset += 8;
+
+            // Read sizeUsdDelta (u64/BN)
+            const sizeUsdDelta = new BN(instructionDataBuffer.slice(offset, offset + 8), 'le');
+            offset += 8;
+
+            // Read triggerPrice (u64/BN)
+            const triggerPrice = new BN(instructionDataBuffer.slice(offset, offset + 8), 'le');
+            offset += 8;
+
+            // Read triggerAboveThreshold (bool) - 1 byte
+            const triggerAboveThreshold = instructionDataBuffer[offset] === 1;
+            offset += 1;
+
+            // Read entirePosition (bool) - 1 byte
+            const entirePosition = instructionDataBuffer[offset] === 1;
+            offset += 1;
+
+            // Read counter (u64/BN) if available
+            let counter = new BN(0);
+            if (offset + 8 <= instructionDataBuffer.length) {
+              counter = new BN(instructionDataBuffer.slice(offset, offset + 8), 'le');
+              offset += 8;
+            }
+
+            // Read requestTime (i64/BN) if available
+            let requestTime = new BN(0);
+            if (offset + 8 <= instructionDataBuffer.length) {
+              requestTime = new BN(instructionDataBuffer.slice(offset, offset + 8), 'le');
+            }
+
+            // Create the TPSL data object - if triggerAboveThreshold is true, it's a Take Profit
+            // If false, it's a Stop Loss
+            tpslData = {
+              instructionName: isCreateTpsl ? 'instantCreateTpsl' : 'instantUpdateTpsl',
+              params: {
+                collateralUsdDelta,
+                sizeUsdDelta,
+                triggerPrice,
+                triggerAboveThreshold,
+                entirePosition,
+                counter,
+                requestTime,
+                // For convenience, also include the interpreted values
+                takeProfitTriggerPrice: triggerAboveThreshold ? triggerPrice : null,
+                stopLossTriggerPrice: !triggerAboveThreshold ? triggerPrice : null,
+                takeProfitSizePct: entirePosition ? 10000 : 5000, // Default to 100% for entire position, 50% otherwise
+                stopLossSizePct: entirePosition ? 10000 : 5000
+              }
+            };
+
+            break;
+          }
+        }
       }
     }
+  } catch (error) {
+    console.error("Error extracting TP/SL instruction data:", error);
   }
+
+  return tpslData;
+}
+
+// Formats a trade event for display, adding the TP/SL instruction parameters to TP/SL events
+function formatTradeEvent(evt: TradeHistoryEvent): EventWithTx {
+  const eventWithTx = toEventWithTx(evt);
+  const formattedEvent = eventWithTx.event;
+
+  if (evt.tpslInstructionData) {
+    const {
+      collateralUsdDelta,
+      sizeUsdDelta,
+      triggerPrice,
+      triggerAboveThreshold,
+      entirePosition,
+      counter,
+      requestTime,
+    } = evt.tpslInstructionData.params;
+    const tpslData = evt.tpslInstructionData;
+
+    // Add TP/SL data to the event
+    if (triggerAboveThreshold) {
+      formattedEvent.data.takeProfitPrice = `$${BNToUSDRepresentation(triggerPrice, USDC_DECIMALS)}`;
+      formattedEvent.data.takeProfitSizePercent = entirePosition ? 10000 : 5000;
+    } else {
+      formattedEvent.data.stopLossPrice = `$${BNToUSDRepresentation(triggerPrice, USDC_DECIMALS)}`;
+      formattedEvent.data.stopLossSizePercent = entirePosition ? 10000 : 5000;
+    }
+
+    // Add all raw instruction parameters to the event data
+    formattedEvent.data.tpslInstructionData = tpslData;
+    formattedEvent.data.tpslCollateralUsdDelta = `$${BNToUSDRepresentation(collateralUsdDelta, USDC_DECIMALS)}`;
+    formattedEvent.data.tpslSizeUsdDelta = `$${BNToUSDRepresentation(sizeUsdDelta, USDC_DECIMALS)}`;
+    formattedEvent.data.tpslTriggerPrice = `$${BNToUSDRepresentation(triggerPrice, USDC_DECIMALS)}`;
+    formattedEvent.data.tpslTriggerAboveThreshold = triggerAboveThreshold;
+    formattedEvent.data.tpslEntirePosition = entirePosition;
+    formattedEvent.data.tpslCounter = counter.toString();
+    formattedEvent.data.tpslRequestTime = new Date(requestTime.toNumber() * 1000).toISOString();
+  }
+
+  return eventWithTx;
+}
+
+// Rate limits are retried by the connection's RPC scheduler
+function fetchTransaction(signature: string) {
+  return client.connection.getTransaction(signature, {
+    commitment: "confirmed",
+    maxSupportedTransactionVersion: 0,
+  });
 }
 
 /**
@@ -442,9 +343,8 @@ async function fetchTransactionWithRetry(signature: string, maxRetries = 5): Pro
  */
 async function getTpslInstructionData(txSignature: string): Promise<any> {
   try {
-    // Fetch the transaction with retry
     console.log(`Fetching transaction ${txSignature} to decode TP/SL instruction data...`);
-    const tx = await fetchTransactionWithRetry(txSignature);
+    const tx = await fetchTransaction(txSignature);
     
     if (!tx || !tx.transaction) {
       console.log("Transaction not found or has no data");
@@ -508,7 +408,7 @@ async function getTpslInstructionData(txSignature: string): Promise<any> {
       const programIdStr = programId.toString();
       
       // Check if this is a Jupiter Perpetuals instruction
-      if (programIdStr === JUPITER_PERPETUALS_PROGRAM.programId.toString()) {
+      if (programIdStr === client.program.programId.toString()) {
         console.log(`Found Jupiter Perpetuals instruction #${i+1}`);
         
         try {
@@ -647,7 +547,7 @@ async function getTpslInstructionData(txSignature: string): Promise<any> {
               try {
                 // Decode the instruction data after the discriminator
                 const dataAfterDiscriminator = data.slice(8);
-                const args = JUPITER_PERPETUALS_PROGRAM.coder.types.decode(
+                const args = client.program.coder.types.decode(
                   isCreateTpsl ? "InstantCreateTpslParams" : "InstantUpdateTpslParams", 
                   dataAfterDiscriminator
                 );
@@ -741,7 +641,7 @@ async function getTpslInstructionData(txSignature: string): Promise<any> {
                 try {
                   // Use the BorshCoder directly to decode the args
                   const dataAfterDiscriminator = data.slice(8);
-                  const args = JUPITER_PERPETUALS_PROGRAM.coder.types.decode(
+                  const args = client.program.coder.types.decode(
                     isCreateTpsl ? "InstantCreateTpslParams" : "InstantUpdateTpslParams",
                     dataAfterDiscriminator
                   );
@@ -844,9 +744,8 @@ async function getTpslInstructionData(txSignature: string): Promise<any> {
  */
 async function getLimitOrderInstructionData(txSignature: string): Promise<any> {
   try {
-    // Fetch the transaction with retry
     console.log(`Fetching transaction ${txSignature} to decode limit order instruction data...`);
-    const tx = await fetchTransactionWithRetry(txSignature);
+    const tx = await fetchTransaction(txSignature);
     
     if (!tx || !tx.transaction) {
       console.log("Transaction not found or has no data");
@@ -905,7 +804,7 @@ async function getLimitOrderInstructionData(txSignature: string): Promise<any> {
       const programIdStr = programId.toString();
       
       // Check if this is a Jupiter Perpetuals instruction
-      if (programIdStr === JUPITER_PERPETUALS_PROGRAM.programId.toString()) {
+      if (programIdStr === client.program.programId.toString()) {
         // Get the instruction data
         const data = Buffer.from(ix.data);
         
@@ -957,7 +856,7 @@ async function getLimitOrderInstructionData(txSignature: string): Promise<any> {
             
             try {
               // Decode the instruction data after the discriminator
-              const args = JUPITER_PERPETUALS_PROGRAM.coder.types.decode(
+              const args = client.program.coder.types.decode(
                 isCreateLimitOrder ? "InstantCreateLimitOrderParams" : "InstantUpdateLimitOrderParams", 
                 dataAfterDiscriminator
               );
@@ -1012,327 +911,6 @@ async function getLimitOrderInstructionData(txSignature: string): Promise<any> {
   }
 }
 
-/**
- * Helper function to parse USD value from string format
- */
-function parseUsdValue(value: string): number {
-  if (!value) return 0;
-  return parseFloat(value.replace('$', '').replace(',', ''));
-}
-
-/**
- * Group events into trades based on position lifecycle
- */
-export function groupEventsIntoTrades(events: EventWithTx[]): { activeTrades: ITrade[]; completedTrades: ITrade[] } {
-  // Filter out null events first
-  const nonNullEvents = events.filter((evt): evt is NonNullable<EventWithTx> => evt !== null);
-  
-  // Sort events chronologically
-  const sortedEvents = [...nonNullEvents].sort((a, b) => {
-    const aTime = a.tx.blockTime ? new Date(a.tx.blockTime).getTime() : 0;
-    const bTime = b.tx.blockTime ? new Date(b.tx.blockTime).getTime() : 0;
-    return aTime - bTime;
-  });
-
-  // Create an array of execution events (only the main position events)
-  const positionEvents = sortedEvents.filter(evt => 
-    evt.event?.name === 'IncreasePositionEvent' ||
-    evt.event?.name === 'DecreasePositionEvent' ||
-    evt.event?.name === 'InstantIncreasePositionEvent' ||
-    evt.event?.name === 'InstantDecreasePositionEvent' ||
-    evt.event?.name === 'LiquidateFullPositionEvent' ||
-    evt.event?.name === 'InstantCreateTpslEvent' || // Add TP/SL events
-    evt.event?.name === 'InstantUpdateTpslEvent' || // Add TP/SL events
-    evt.event?.name === 'FillLimitOrderEvent'  // Add FillLimitOrderEvent as a main event
-  );
-
-  // Create a map to associate auxiliary events (pre-swap, swap) with position events by timestamp
-  const eventsByTimestamp: Map<string, EventWithTx[]> = new Map();
-  
-  // Group all events by their timestamp
-  sortedEvents.forEach(evt => {
-    if (evt.tx.blockTime) {
-      const key = evt.tx.blockTime;
-      if (!eventsByTimestamp.has(key)) {
-        eventsByTimestamp.set(key, []);
-      }
-      eventsByTimestamp.get(key)?.push(evt);
-    }
-  });
-
-  // Maps to track active trades and lifecycle counters
-  const activeTrades: Map<string, ITrade> = new Map();
-  const completedTrades: ITrade[] = [];
-  const lifecycleCounters: Map<string, number> = new Map();
-
-  // Process each execution event
-  for (const eventWithTx of positionEvents) {
-    // Skip null events
-    if (!eventWithTx.event) continue;
-    
-    const { event, tx } = eventWithTx;
-    const { data, name } = event;
-    
-    // Get position key
-    const positionKey = data.positionKey;
-    
-    // Initialize lifecycle counter if needed
-    if (!lifecycleCounters.has(positionKey)) {
-      lifecycleCounters.set(positionKey, 0);
-    }
-    
-    const lifecycleCount = lifecycleCounters.get(positionKey) || 0;
-    const tradeId = `${positionKey}-${lifecycleCount}`;
-
-    // Check if we have an active trade for this position
-    const activeTrade = activeTrades.get(tradeId);
-
-    // Get all events with the same timestamp to include auxiliary events
-    const allEventsAtTimestamp = eventsByTimestamp.get(tx.blockTime || '') || [];
-
-    // Process based on event type
-    if (name === 'IncreasePositionEvent' || name === 'InstantIncreasePositionEvent') {
-      const sizeUsdDelta = parseUsdValue(data.sizeUsdDelta);
-      const positionSizeUsd = parseUsdValue(data.positionSizeUsd);
-      const collateralUsdDelta = parseUsdValue(data.collateralUsdDelta);
-      const price = parseUsdValue(data.price);
-      const fee = parseUsdValue(data.feeUsd || '0');
-      
-      // Check if this is a new position (first increase) or adding to an existing position
-      if (!activeTrade) {
-        // Get asset symbol from the custody address
-        const assetSymbol = getAssetNameFromCustody(data.positionCustody || "");
-        
-        // This is a new trade
-        const newTrade: ITrade = {
-          id: tradeId,
-          positionKey,
-          positionSide: data.positionSide,
-          status: "active",
-          owner: data.owner,
-          asset: assetSymbol,
-          entryPrice: price,
-          sizeUsd: sizeUsdDelta,
-          maxSize: sizeUsdDelta, // Initialize maxSize
-          collateralUsd: collateralUsdDelta,
-          leverage: sizeUsdDelta / collateralUsdDelta,
-          totalFees: fee, // Track initial fee
-          openTime: tx.blockTime,
-          events: [],
-        };
-        
-        // Add all events with the same timestamp (including preswap and swap events)
-        newTrade.events = allEventsAtTimestamp;
-        
-        activeTrades.set(tradeId, newTrade);
-      } else {
-        // This is adding to an existing position
-        const newCollateralUsd = activeTrade.collateralUsd + collateralUsdDelta;
-        const newSizeUsd = activeTrade.sizeUsd + sizeUsdDelta;
-        
-        // Update the trade
-        activeTrade.sizeUsd = newSizeUsd;
-        activeTrade.maxSize = Math.max(newSizeUsd, activeTrade.maxSize || 0);
-        activeTrade.collateralUsd = newCollateralUsd;
-        activeTrade.leverage = newSizeUsd / newCollateralUsd;
-        activeTrade.totalFees = (activeTrade.totalFees || 0) + fee; // Add to total fees
-        
-        // Add all events from this timestamp that aren't already in the trade's events
-        allEventsAtTimestamp.forEach(evt => {
-          if (evt && evt.event && evt.tx && evt.event.name) {
-            // Check if this event is already in the trade's events
-            const isDuplicate = activeTrade.events.some(existingEvt => 
-              existingEvt?.tx.signature === evt.tx?.signature && 
-              existingEvt?.event?.name === evt.event?.name
-            );
-            
-            if (!isDuplicate) {
-              activeTrade.events.push(evt);
-            }
-          }
-        });
-      }
-    } else if (name === 'DecreasePositionEvent' || name === 'InstantDecreasePositionEvent') {
-      const sizeUsdDelta = parseUsdValue(data.sizeUsdDelta);
-      const positionSizeUsd = parseUsdValue(data.positionSizeUsd);
-      const price = parseUsdValue(data.price);
-      const pnlDelta = parseUsdValue(data.pnlDelta);
-      const fee = parseUsdValue(data.feeUsd || '0');
-      
-      if (!activeTrade) {
-        // We have a decrease event but no matching active trade
-        console.error(`Error: Found decrease event for position ${positionKey} but no active trade was found. The opening event is likely missing from the data.`);
-        continue;
-      }
-      
-      // Add all events from this timestamp
-      allEventsAtTimestamp.forEach(evt => {
-        if (evt && evt.event && evt.tx && evt.event.name) {
-          // Check if this event is already in the trade's events
-          const isDuplicate = activeTrade.events.some(existingEvt => 
-            existingEvt?.tx.signature === evt.tx?.signature && 
-            existingEvt?.event?.name === evt.event?.name
-          );
-          
-          if (!isDuplicate) {
-            activeTrade.events.push(evt);
-          }
-        }
-      });
-      
-      // Update the trade with the latest data
-      activeTrade.exitPrice = price;
-      activeTrade.pnl = (activeTrade.pnl || 0) + pnlDelta;
-      activeTrade.hasProfit = data.hasProfit;
-      activeTrade.totalFees = (activeTrade.totalFees || 0) + fee; // Add to total fees
-      
-      // Calculate ROI based on PnL and collateral
-      if (activeTrade.pnl !== undefined) {
-        activeTrade.roi = (activeTrade.pnl / activeTrade.collateralUsd) * 100;
-      }
-      
-      // Check if position is fully closed
-      if (positionSizeUsd === 0) {
-        // Store the maximum size the position reached, not just the last decrease
-        activeTrade.finalSize = activeTrade.maxSize || activeTrade.sizeUsd + sizeUsdDelta;
-        
-        // This position is fully closed - move it to completed trades
-        activeTrade.status = "closed";
-        activeTrade.closeTime = tx.blockTime;
-        activeTrade.sizeUsd = 0; // Set size to 0 as it's fully closed
-        
-        completedTrades.push({ ...activeTrade });
-        activeTrades.delete(tradeId);
-        
-        // Increment lifecycle counter for this position
-        lifecycleCounters.set(positionKey, lifecycleCount + 1);
-      } else {
-        // This is a partial decrease
-        activeTrade.sizeUsd -= sizeUsdDelta;
-      }
-    } else if (name === 'LiquidateFullPositionEvent') {
-      const price = parseUsdValue(data.price);
-      const pnlDelta = parseUsdValue(data.pnlDelta);
-      const fee = parseUsdValue(data.feeUsd || '0');  // Extract fee from liquidation event
-      const liquidationFee = parseUsdValue(data.liquidationFeeUsd || '0');
-      
-      if (!activeTrade) {
-        // We have a liquidation event but no matching active trade
-        console.error(`Error: Found liquidation event for position ${positionKey} but no active trade was found. The opening event is likely missing from the data.`);
-        continue;
-      }
-      
-      // Add all events from this timestamp
-      allEventsAtTimestamp.forEach(evt => {
-        if (evt && evt.event && evt.tx && evt.event.name) {
-          // Check if this event is already in the trade's events
-          const isDuplicate = activeTrade.events.some(existingEvt => 
-            existingEvt?.tx.signature === evt.tx?.signature && 
-            existingEvt?.event?.name === evt.event?.name
-          );
-          
-          if (!isDuplicate) {
-            activeTrade.events.push(evt);
-          }
-        }
-      });
-      
-      // Update the trade with liquidation data
-      activeTrade.status = "liquidated";
-      activeTrade.exitPrice = price;
-      activeTrade.closeTime = tx.blockTime;
-      activeTrade.pnl = (activeTrade.pnl || 0) + pnlDelta;
-      activeTrade.hasProfit = data.hasProfit;
-      activeTrade.totalFees = (activeTrade.totalFees || 0) + fee + liquidationFee;  // Add liquidation fee to total
-      
-      // Store the maximum size the position reached
-      activeTrade.finalSize = activeTrade.maxSize || activeTrade.sizeUsd;
-      activeTrade.sizeUsd = 0; // Set size to 0 as it's fully liquidated
-      
-      // Calculate ROI based on PnL and collateral
-      if (activeTrade.pnl !== undefined) {
-        activeTrade.roi = (activeTrade.pnl / activeTrade.collateralUsd) * 100;
-      }
-      
-      // Move to completed trades
-      completedTrades.push({ ...activeTrade });
-      activeTrades.delete(tradeId);
-      
-      // Increment lifecycle counter for this position
-      lifecycleCounters.set(positionKey, lifecycleCount + 1);
-    }
-    // Handle TP/SL events
-    else if (name === 'InstantCreateTpslEvent' || name === 'InstantUpdateTpslEvent') {
-      // For TP/SL events, we need to find the active trade for this position
-      if (!activeTrade) {
-        console.error(`Error: Found TP/SL event for position ${positionKey} but no active trade was found.`);
-        continue;
-      }
-
-      // Add all events from this timestamp
-      allEventsAtTimestamp.forEach(evt => {
-        if (evt && evt.event && evt.tx && evt.event.name) {
-          // Check if this event is already in the trade's events
-          const isDuplicate = activeTrade.events.some(existingEvt => 
-            existingEvt?.tx.signature === evt.tx?.signature && 
-            existingEvt?.event?.name === evt.event?.name
-          );
-          
-          if (!isDuplicate) {
-            activeTrade.events.push(evt);
-          }
-        }
-      });
-    }
-  }
-
-  // Sort events chronologically within each trade
-  const sortTradeEvents = (trade: ITrade) => {
-    trade.events.sort((a, b) => {
-      const aTime = a?.tx.blockTime ? new Date(a.tx.blockTime).getTime() : 0;
-      const bTime = b?.tx.blockTime ? new Date(b.tx.blockTime).getTime() : 0;
-      
-      // If timestamps are the same, use event type to determine order
-      if (aTime === bTime) {
-        // Prioritize decrease position events over pool swap events
-        if (a?.event?.name === 'DecreasePositionEvent' && b?.event?.name === 'PoolSwapEvent') {
-          return -1; // a comes before b
-        }
-        if (a?.event?.name === 'PoolSwapEvent' && b?.event?.name === 'DecreasePositionEvent') {
-          return 1; // b comes before a
-        }
-        
-        // Same logic for instant decrease position events
-        if (a?.event?.name === 'InstantDecreasePositionEvent' && b?.event?.name === 'PoolSwapEvent') {
-          return -1;
-        }
-        if (a?.event?.name === 'PoolSwapEvent' && b?.event?.name === 'InstantDecreasePositionEvent') {
-          return 1;
-        }
-      }
-      
-      // Default to sorting by timestamp
-      return aTime - bTime;
-    });
-    return trade;
-  };
-
-  // Convert maps to arrays for return
-  const activeTradesArray = Array.from(activeTrades.values()).map(sortTradeEvents);
-  
-  // Sort completed trades by recency (newest first)
-  completedTrades.sort((a, b) => {
-    const aTime = a.closeTime ? new Date(a.closeTime).getTime() : 0;
-    const bTime = b.closeTime ? new Date(b.closeTime).getTime() : 0;
-    return bTime - aTime;
-  });
-  
-  return {
-    activeTrades: activeTradesArray,
-    completedTrades: completedTrades.map(sortTradeEvents),
-  };
-}
-
 // Enhance formatting for TP/SL instruction data when extracted from event
 function formatTpslInstructionData(data: any): string {
   if (!data || !data.params) return "Not available";
@@ -1361,7 +939,7 @@ export async function getPositionTradeHistory(): Promise<{ activeTrades: ITrade[
   
   // Display raw events first
   console.log("\n======== RAW EVENTS ========");
-  events.forEach((evt, i) => {
+  events.map(formatTradeEvent).forEach((evt, i) => {
     if (evt && evt.event) {
       console.log(`\nEvent ${i+1}:`);
       console.log(`Type: ${evt.event.name}`);
@@ -1501,8 +1079,16 @@ export async function getPositionTradeHistory(): Promise<{ activeTrades: ITrade[
   });
   console.log("============================\n");
   
-  // Group events into trades
-  return groupEventsIntoTrades(events);
+  // Group events into trades, splitting their fees with the current custody fee parameters
+  const trades = groupEventsIntoTrades(events, { custodies: await client.getCustodies() });
+
+  trades.unmatchedEvents.forEach((evt) => {
+    console.error(
+      `Error: Found ${evt.event.name} in ${evt.signature} but no active trade was found. The opening event is likely missing from the data.`,
+    );
+  });
+
+  return trades;
 }
 
 // Helper function to format limit order data
@@ -1556,56 +1142,76 @@ async function analyzeTradeHistory() {
 
 // Update the printDetailedTradeInfo function to better display TP/SL data and add limit order info
 async function printDetailedTradeInfo(trade: ITrade, index: number) {
-  const side = trade.positionSide;
+  const side = trade.positionSide === "long" ? "Long" : "Short";
   const status = trade.status === "liquidated" ? "LIQUIDATED" : (trade.status === "closed" ? "CLOSED" : "ACTIVE");
-  const pnl = trade.pnl ? `$${trade.pnl.toFixed(2)}` : "N/A";
-  const roi = trade.roi ? `${trade.roi.toFixed(2)}%` : "N/A";
+  const asset = getAssetNameFromCustody(trade.positionCustody.toString());
+  const pnl = `$${BNToUSDRepresentation(trade.pnlUsd, USDC_DECIMALS)}`;
+  const roi = `${BNToUSDRepresentation(getTradeRoiBps(trade), 2)}%`;
   
-  console.log(`\nTrade #${index + 1} (ID: ${trade.id}):`);
+  // Format the events for display
+  const events = trade.events.map(formatTradeEvent);
   
-  // Debug - Check if InstantCreateTpslEvent is in the events array
+  console.log(`\nTrade #${index + 1} (ID: ${trade.id}):`);
   
   // Replace Position field with Symbol
-  if (trade.asset) {
-    console.log(`Symbol: ${trade.asset}`);
-  }
+  console.log(`Symbol: ${asset}`);
   
   // Show just Long or Short as Direction
   console.log(`Direction: ${side}`);
   
   console.log(`Status: ${status}`);
-  console.log(`Entry Price: $${trade.entryPrice.toFixed(2)}`);
+  console.log(`Entry Price: $${BNToUSDRepresentation(trade.entryPrice, USDC_DECIMALS)}`);
   
   if (trade.exitPrice) {
-    console.log(`Exit Price: $${trade.exitPrice.toFixed(2)}`);
+    console.log(`Exit Price: $${BNToUSDRepresentation(trade.exitPrice, USDC_DECIMALS)}`);
   }
   
   // Show finalSize for completed trades if available, otherwise show sizeUsd
-  const displaySize = (trade.status !== "active" && trade.finalSize) ? 
-    trade.finalSize : trade.sizeUsd;
-  console.log(`Size: $${displaySize.toFixed(2)}`);
+  const displaySize = getTradeSizeUsd(trade);
+  console.log(`Size: $${BNToUSDRepresentation(displaySize, USDC_DECIMALS)}`);
   
   // Calculate and display notional size
-  if (trade.entryPrice > 0) {
-    const notionalSize = displaySize / trade.entryPrice;
-    console.log(`Notional Size: ${notionalSize.toFixed(6)} ${trade.asset || ''}`);
+  if (!trade.entryPrice.isZero()) {
+    const notionalSize = displaySize.mul(new BN(10).pow(new BN(6))).div(trade.entryPrice);
+    console.log(`Notional Size: ${BNToUSDRepresentation(notionalSize, 6, 6)} ${asset}`);
   }
   
-  console.log(`Collateral: $${trade.collateralUsd.toFixed(2)}`);
-  console.log(`Leverage: ${trade.leverage.toFixed(2)}x`);
+  console.log(`Collateral: $${BNToUSDRepresentation(trade.collateralUsd, USDC_DECIMALS)}`);
+  console.log(`Leverage: ${BNToUSDRepresentation(getTradeLeverageBps(trade), 4)}x`);
   
   // Display total fees
-  if (trade.totalFees !== undefined) {
-    console.log(`Total Fees: $${trade.totalFees.toFixed(2)}`);
+  console.log(`Total Fees: $${BNToUSDRepresentation(trade.totalFeesUsd, USDC_DECIMALS)}`);
+
+  if (trade.fees) {
+    const formatFee = (value: BN) => `$${BNToUSDRepresentation(value, USDC_DECIMALS)}`;
+
+    console.log(`  Open Fees: ${formatFee(trade.fees.openFeeUsd)}`);
+    console.log(`  Close Fees: ${formatFee(trade.fees.closeFeeUsd)}`);
+    console.log(`  Price Impact Fees: ${formatFee(trade.fees.priceImpactFeeUsd)}`);
+    console.log(`  Borrow Fees: ${formatFee(trade.fees.borrowFeeUsd)}`);
+
+    if (!trade.fees.liquidationFeeUsd.isZero()) {
+      console.log(`  Liquidation Fee: ${formatFee(trade.fees.liquidationFeeUsd)}`);
+    }
+
+    if (!trade.fees.swapFeeUsd.isZero()) {
+      console.log(`  Swap Fees: ${formatFee(trade.fees.swapFeeUsd)} (total incl. swaps: ${formatFee(trade.fees.totalFeeUsd)})`);
+    }
+
+    trade.fees.discrepancies.forEach(({ fill, reportedFeeUsd, expectedFeeUsd }) => {
+      console.log(
+        `  Warning: ${fill.side} in ${fill.event.signature} paid ${formatFee(reportedFeeUsd)} but the fee formulas expect at least ${formatFee(expectedFeeUsd)}, its split is an estimate`,
+      );
+    });
   }
   
-  if (trade.pnl !== undefined) {
+  if (trade.status !== "active" || !trade.pnlUsd.isZero()) {
     console.log(`PnL: ${pnl} (${roi})`);
-    console.log(`Profitable: ${trade.hasProfit ? "Yes" : "No"}`);
+    console.log(`Profitable: ${trade.pnlUsd.gtn(0) ? "Yes" : "No"}`);
   }
   
   // Add token information for the position
-  const firstEvent = trade.events.find(evt => 
+  const firstEvent = events.find(evt => 
     evt?.event?.name === 'IncreasePositionEvent' || 
     evt?.event?.name === 'InstantIncreasePositionEvent'
   );
@@ -1616,16 +1222,16 @@ async function printDetailedTradeInfo(trade: ITrade, index: number) {
   }
   
   // Check for swaps in the trade
-  const hasOpeningSwap = trade.events.some(evt => evt?.event?.name === 'IncreasePositionPreSwapEvent');
-  const hasClosingSwap = trade.events.some(evt => evt?.event?.name === 'DecreasePositionPostSwapEvent');
+  const hasOpeningSwap = events.some(evt => evt?.event?.name === 'IncreasePositionPreSwapEvent');
+  const hasClosingSwap = events.some(evt => evt?.event?.name === 'DecreasePositionPostSwapEvent');
   
   // Add token comparison detection for swaps
-  const firstIncreaseEvent = trade.events.find(evt => 
+  const firstIncreaseEvent = events.find(evt => 
     evt?.event?.name === 'IncreasePositionEvent' || 
     evt?.event?.name === 'InstantIncreasePositionEvent'
   );
 
-  const lastDecreaseEvent = trade.events.find(evt => 
+  const lastDecreaseEvent = events.find(evt => 
     (evt?.event?.name === 'DecreasePositionEvent' || 
     evt?.event?.name === 'InstantDecreasePositionEvent' ||
     evt?.event?.name === 'LiquidateFullPositionEvent') &&
@@ -1702,17 +1308,14 @@ async function printDetailedTradeInfo(trade: ITrade, index: number) {
   // Add payout information for closed/liquidated positions
   if (trade.status !== "active") {
     const lastEvent = trade.events.find(evt => 
-      evt?.event?.name === 'DecreasePositionEvent' || 
-      evt?.event?.name === 'InstantDecreasePositionEvent' ||
-      evt?.event?.name === 'LiquidateFullPositionEvent'
+      isEventOfType(evt, ['DecreasePositionEvent', 'InstantDecreasePositionEvent', 'LiquidateFullPositionEvent'])
     );
     
-    if (lastEvent?.event?.data) {
-      const data = lastEvent.event.data;
+    if (lastEvent) {
+      const data = formatTradeEvent(lastEvent).event.data;
+      const { transferAmountUsd } = lastEvent.event.data;
       
-      if (data.transferAmountUsd) {
-        console.log(`Payout (USD): $${parseUsdValue(data.transferAmountUsd).toFixed(2)}`);
-      }
+      console.log(`Payout (USD): ${data.transferAmountUsd}`);
       
       if (data.transferToken) {
         const tokenAmount = Number(data.transferToken);
@@ -1739,35 +1342,34 @@ async function printDetailedTradeInfo(trade: ITrade, index: number) {
         console.log(`Payout (Token): ${formattedAmount} ${tokenSymbol}`);
         
         // If we have both USD and token amounts, calculate implied swap fee
-        if (data.transferAmountUsd && parseUsdValue(data.transferAmountUsd) > 0) {
-          const usdAmount = parseUsdValue(data.transferAmountUsd);
-          const tokenInUsd = tokenAmount / Math.pow(10, decimals);
+        if (transferAmountUsd.gtn(0) && tokenSymbol === "USDC") {
+          const impliedFee = transferAmountUsd.sub(new BN(data.transferToken));
           
-          // If there's a significant difference, it might indicate swap fees
-          if (Math.abs(usdAmount - tokenInUsd) > 0.1 && tokenSymbol === "USDC") {
-            const impliedFee = usdAmount - tokenInUsd;
-            console.log(`Implied Swap Fee: $${impliedFee.toFixed(2)} (${(impliedFee/usdAmount*100).toFixed(2)}%)`);
+          // If there's a significant difference (more than $0.10), it might indicate swap fees
+          if (impliedFee.abs().gtn(100_000)) {
+            const impliedFeeBps = impliedFee.mul(BPS_POWER).div(transferAmountUsd);
+            console.log(`Implied Swap Fee: $${BNToUSDRepresentation(impliedFee, USDC_DECIMALS)} (${BNToUSDRepresentation(impliedFeeBps, 2)}%)`);
           }
         }
       }
     }
   }
   
-  console.log(`Opened: ${trade.openTime}`);
+  console.log(`Opened: ${trade.openTime ? new Date(trade.openTime * 1000).toISOString() : null}`);
   
   if (trade.closeTime) {
-    console.log(`Closed: ${trade.closeTime}`);
+    console.log(`Closed: ${new Date(trade.closeTime * 1000).toISOString()}`);
   }
   
   // Check for TP/SL events in the trade
-  const hasTpslEvent = trade.events.some(evt => 
+  const hasTpslEvent = events.some(evt => 
     evt?.event?.name === 'InstantCreateTpslEvent' || 
     evt?.event?.name === 'InstantUpdateTpslEvent'
   );
 
   if (hasTpslEvent) {
     // Find the most recent TP/SL event to show current values
-    const tpslEvent = [...trade.events]
+    const tpslEvent = [...events]
       .reverse()
       .find(evt => 
         evt?.event?.name === 'InstantCreateTpslEvent' || 
@@ -1810,7 +1412,7 @@ async function printDetailedTradeInfo(trade: ITrade, index: number) {
   }
   
   // Check for limit order events in the trade
-  const hasLimitOrderEvent = trade.events.some(evt => 
+  const hasLimitOrderEvent = events.some(evt => 
     evt?.event?.name === 'InstantCreateLimitOrderEvent' || 
     evt?.event?.name === 'InstantUpdateLimitOrderEvent' ||
     evt?.event?.name === 'FillLimitOrderEvent'
@@ -1818,7 +1420,7 @@ async function printDetailedTradeInfo(trade: ITrade, index: number) {
 
   if (hasLimitOrderEvent) {
     // Find the most recent limit order event to show current values
-    const limitOrderEvent = [...trade.events]
+    const limitOrderEvent = [...events]
       .reverse()
       .find(evt => 
         evt?.event?.name === 'InstantCreateLimitOrderEvent' || 
@@ -1865,11 +1467,11 @@ async function printDetailedTradeInfo(trade: ITrade, index: number) {
     }
   }
   
-  console.log(`Events in trade: ${trade.events.length}`);
+  console.log(`Events in trade: ${events.length}`);
   
   // Enhanced events summary
   console.log("\nEvents:");
-  trade.events.forEach((evt, i) => {
+  events.forEach((evt, i) => {
     if (evt && evt.event) {
       const eventData = evt.event.data;
       const eventType = evt.event.name;
@@ -1962,9 +1564,9 @@ async function printDetailedTradeInfo(trade: ITrade, index: number) {
         // Determine if buy or sell
         let action = "";
         if (eventType.includes('Increase')) {
-          action = trade.positionSide === "Long" ? "Buy" : "Sell";
+          action = trade.positionSide === "long" ? "Buy" : "Sell";
         } else if (eventType.includes('Decrease') || eventType.includes('Liquidate')) {
-          action = trade.positionSide === "Long" ? "Sell" : "Buy";
+          action = trade.positionSide === "long" ? "Sell" : "Buy";
         }
         
         // Determine if market or limit based on positionRequestType and event name
@@ -1998,29 +1600,23 @@ async function printDetailedTradeInfo(trade: ITrade, index: number) {
           console.log(`     Using: ${symbol}${eventData.positionRequestMint ? ` (${eventData.positionRequestMint.substring(0, 8)}...)` : ''}`);
         }
         
-        // Get sizes - with special handling for liquidation events
-        let sizeUsd = 0;
-        if (eventType.includes('Liquidate')) {
-          // For liquidation events, use positionSizeUsd instead of sizeUsdDelta
-          sizeUsd = parseUsdValue(eventData.positionSizeUsd || "0");
-        } else {
-          sizeUsd = parseUsdValue(eventData.sizeUsdDelta || "0");
-        }
-        
-        const price = parseUsdValue(eventData.price || "0");
-        const notionalSize = price > 0 ? sizeUsd / price : 0;
-        
         // Only show notional size for non-liquidation events
-        if (!eventType.includes('Liquidate')) {
-          console.log(`     Size (Notional): ${notionalSize.toFixed(6)} ${trade.asset || ''}`);
+        const rawEvent = trade.events[i];
+        if (isEventOfType(rawEvent, ['IncreasePositionEvent', 'InstantIncreasePositionEvent', 'DecreasePositionEvent', 'InstantDecreasePositionEvent'])) {
+          const { sizeUsdDelta, price } = rawEvent.event.data;
+          const notionalSize = price.isZero() ? new BN(0) : sizeUsdDelta.mul(new BN(10).pow(new BN(6))).div(price);
+          console.log(`     Size (Notional): ${BNToUSDRepresentation(notionalSize, 6, 6)} ${asset}`);
         }
-        console.log(`     Size (USD): $${sizeUsd.toFixed(2)}`);
+        
+        // Get sizes - for liquidation events, use positionSizeUsd instead of sizeUsdDelta
+        const sizeUsd = eventType.includes('Liquidate') ? eventData.positionSizeUsd : eventData.sizeUsdDelta;
+        console.log(`     Size (USD): ${sizeUsd || '$0.00'}`);
         console.log(`     Price: ${eventData.price || "N/A"}`);
         
         // Add payout information for decrease/liquidation events
         if (eventType.includes('Decrease') || eventType.includes('Liquidate')) {
           if (eventData.transferAmountUsd) {
-            console.log(`     Payout (USD): $${parseUsdValue(eventData.transferAmountUsd).toFixed(2)}`);
+            console.log(`     Payout (USD): ${eventData.transferAmountUsd}`);
           }
           
           if (eventData.transferToken) {
@@ -2050,24 +1646,20 @@ async function printDetailedTradeInfo(trade: ITrade, index: number) {
         }
         
         // Handle fees display - with special handling for liquidation events
-        const fee = parseUsdValue(eventData.feeUsd || "0");
-        console.log(`     Fee: $${fee.toFixed(2)}`);
+        console.log(`     Fee: ${eventData.feeUsd || '$0.00'}`);
         
         if (eventType.includes('Liquidate') && eventData.liquidationFeeUsd) {
-          const liquidationFee = parseUsdValue(eventData.liquidationFeeUsd);
-          console.log(`     Liquidation Fee: $${liquidationFee.toFixed(2)}`);
+          console.log(`     Liquidation Fee: ${eventData.liquidationFeeUsd}`);
         }
         
         // Add collateral information for relevant events - simplified
         if (eventType.includes('Increase') || eventType.includes('Decrease')) {
-          const collateralUsd = parseUsdValue(eventData.collateralUsdDelta || "0");
-          console.log(`     Collateral (USD): $${collateralUsd.toFixed(2)}`);
+          console.log(`     Collateral (USD): ${eventData.collateralUsdDelta || '$0.00'}`);
         }
         
         // Show profit/loss information for decrease events
         if ((eventType.includes('Decrease') || eventType.includes('Liquidate')) && eventData.pnlDelta) {
-          const pnlDelta = parseUsdValue(eventData.pnlDelta);
-          console.log(`     PnL: $${pnlDelta.toFixed(2)} (${eventData.hasProfit ? 'Profit' : 'Loss'})`);
+          console.log(`     PnL: ${eventData.pnlDelta} (${eventData.hasProfit ? 'Profit' : 'Loss'})`);
         }
       }
     }
@@ -0,0 +1,105 @@
+import { BN } from "@coral-xyz/anchor";
+import { BPS_POWER, RATE_POWER } from "./constants";
+import { Custody } from "./types";
+import { divCeil } from "./utils";
+
+const HOURS_IN_A_YEAR = 24 * 365;
+
+export const getCumulativeInterest = (custody: Custody, curtime: BN) => {
+  if (curtime.gt(custody.fundingRateState.lastUpdate)) {
+    const fundingRate = getFundingRate(custody, curtime);
+    return custody.fundingRateState.cumulativeInterestRate.add(fundingRate);
+  } else {
+    return custody.fundingRateState.cumulativeInterestRate;
+  }
+};
+
+export const getHourlyBorrowRate = (custody: Custody) => {
+  const { minRateBps, maxRateBps, targetRateBps, targetUtilizationRate } =
+    custody.jumpRateState;
+
+  const utilizationRate =
+    custody.assets.owned.gtn(0) && custody.assets.locked.gtn(0)
+      ? custody.assets.locked.mul(RATE_POWER).div(custody.assets.owned)
+      : new BN(0);
+
+  let yearlyRate: BN;
+
+  if (utilizationRate.lte(targetUtilizationRate)) {
+    yearlyRate = targetRateBps
+      .sub(minRateBps)
+      .mul(utilizationRate)
+      .div(targetUtilizationRate)
+      .add(minRateBps)
+      .mul(RATE_POWER)
+      .div(BPS_POWER);
+  } else {
+    const rateDiff = maxRateBps.sub(targetRateBps);
+    const utilDiff = utilizationRate.sub(targetUtilizationRate);
+    const denom = RATE_POWER.sub(targetUtilizationRate);
+
+    yearlyRate = rateDiff
+      .mul(utilDiff)
+      .div(denom)
+      .add(targetRateBps)
+      .mul(RATE_POWER)
+      .div(BPS_POWER);
+  }
+
+  return yearlyRate.divn(HOURS_IN_A_YEAR);
+};
+
+export function getBorrowRatePct(custody: Custody): number {
+  return (
+    getHourlyBorrowRate(custody).muln(100).toNumber() / RATE_POWER.toNumber()
+  );
+}
+
+export const getFundingRate = (custody: Custody, curtime: BN) => {
+  if (custody.assets.owned.eqn(0)) return new BN(0);
+
+  const interval = curtime.sub(custody.fundingRateState.lastUpdate);
+  const currentFundingRate = getHourlyBorrowRate(custody);
+
+  return divCeil(currentFundingRate.mul(interval), new BN(3600));
+};
+
+// Outstanding borrow fee for a position of `sizeUsd` that last settled its interest at `cumulativeInterestSnapshot`
+export const getBorrowFeeUsd = (
+  custody: Custody,
+  sizeUsd: BN,
+  cumulativeInterestSnapshot: BN,
+  curtime: BN,
+) => {
+  if (sizeUsd.eqn(0)) return new BN(0);
+
+  const cumulativeInterest = getCumulativeInterest(custody, curtime);
+  const positionInterest = cumulativeInterest.sub(cumulativeInterestSnapshot);
+
+  return divCeil(positionInterest.mul(sizeUsd), RATE_POWER);
+};
+
+// Base fee charged for opening (`increasePositionBps`) or closing (`decreasePositionBps`) `tradeSizeUsd`
+export const getBaseFeeUsd = (
+  custody: Custody,
+  tradeSizeUsd: BN,
+  isOpen: boolean,
+) => {
+  const baseFeeBps = isOpen
+    ? custody.increasePositionBps
+    : custody.decreasePositionBps;
+
+  return tradeSizeUsd.mul(baseFeeBps).div(BPS_POWER);
+};
+
+// Price impact fee which scales linearly with the trade size relative to the custody's `tradeImpactFeeScalar`
+export const getPriceImpactFeeUsd = (custody: Custody, tradeSizeUsd: BN) => {
+  const priceImpactFeeBps = divCeil(
+    tradeSizeUsd.mul(BPS_POWER),
+    custody.pricing.tradeImpactFeeScalar,
+  );
+
+  return tradeSizeUsd.mul(priceImpactFeeBps).div(BPS_POWER);
+};
+
+// Hourly Borrow Fee = Total Tokens Locked / Tokens in Pool (Utilization) × Hourly Borrow Rate × Position Size
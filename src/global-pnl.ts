@@ -0,0 +1,125 @@
+import { BN } from "@coral-xyz/anchor";
+import { tokenAmountToUsd } from "./liquidity-fees";
+import { Custody, PositionAccount } from "./types";
+import { getAssetNameFromCustody, getPnlForSize } from "./utils";
+
+// All PNL values are from the traders' perspective (positive when traders are in profit) in USD with 6 decimals
+export interface AssetUnrealizedPnl {
+  custody: string;
+  asset: string;
+  tokenPrice: BN;
+  // Exact PNL from scanning every open position
+  longPnlUsd: BN;
+  shortPnlUsd: BN;
+  // Estimates derived from the custody's `assets` without scanning positions
+  longPnlEstimateUsd: BN;
+  shortPnlEstimateUsd: BN;
+  // `estimate - exact`
+  longEstimateErrorUsd: BN;
+  shortEstimateErrorUsd: BN;
+}
+
+export interface GlobalUnrealizedPnl {
+  assets: AssetUnrealizedPnl[];
+  totalLongPnlUsd: BN;
+  totalShortPnlUsd: BN;
+  totalLongPnlEstimateUsd: BN;
+  totalShortPnlEstimateUsd: BN;
+}
+
+// Signed PNL of `position` if it were closed at `tokenPrice`
+const getSignedPnl = (position: PositionAccount, tokenPrice: BN) => {
+  const [hasProfit, pnl] = getPnlForSize(
+    position.account.sizeUsd,
+    position.account.price,
+    position.account.side.long ? "long" : "short",
+    tokenPrice,
+  );
+
+  return hasProfit ? pnl : pnl.neg();
+};
+
+// Long PNL estimate: the current value of the tokens locked for longs minus the USD the pool has guaranteed them
+export const getLongPnlEstimate = (custody: Custody, tokenPrice: BN) =>
+  tokenAmountToUsd(custody, custody.assets.locked, tokenPrice).sub(
+    custody.assets.guaranteedUsd,
+  );
+
+// Short PNL estimate: the PNL of one aggregate short of `globalShortSizes` opened at `globalShortAveragePrices`
+export const getShortPnlEstimate = (custody: Custody, tokenPrice: BN) => {
+  const { globalShortSizes, globalShortAveragePrices } = custody.assets;
+
+  if (globalShortAveragePrices.isZero()) return new BN(0);
+
+  const [hasProfit, pnl] = getPnlForSize(
+    globalShortSizes,
+    globalShortAveragePrices,
+    "short",
+    tokenPrice,
+  );
+
+  return hasProfit ? pnl : pnl.neg();
+};
+
+/**
+ * Computes the traders' unrealized PNL per asset, pricing every position with its own custody's price, and
+ * compares it with the estimates derived from the custodies' `assets`
+ *
+ * @param positions The open positions (`sizeUsd > 0`)
+ * @param custodies The traded custodies (non-stable), keyed by custody pubkey
+ * @param tokenPrices The token prices (6 decimals), keyed by custody pubkey
+ */
+export function computeGlobalUnrealizedPnl(
+  positions: PositionAccount[],
+  custodies: Record<string, Custody>,
+  tokenPrices: Record<string, BN>,
+): GlobalUnrealizedPnl {
+  const assets = Object.entries(custodies).map(([custodyPubkey, custody]) => {
+    const tokenPrice = tokenPrices[custodyPubkey];
+
+    if (!tokenPrice) {
+      throw new Error(`Missing price for custody ${custodyPubkey}`);
+    }
+
+    let longPnlUsd = new BN(0);
+    let shortPnlUsd = new BN(0);
+
+    positions
+      .filter((position) => position.account.custody.toBase58() === custodyPubkey)
+      .forEach((position) => {
+        const pnl = getSignedPnl(position, tokenPrice);
+
+        if (position.account.side.long) {
+          longPnlUsd = longPnlUsd.add(pnl);
+        } else {
+          shortPnlUsd = shortPnlUsd.add(pnl);
+        }
+      });
+
+    const longPnlEstimateUsd = getLongPnlEstimate(custody, tokenPrice);
+    const shortPnlEstimateUsd = getShortPnlEstimate(custody, tokenPrice);
+
+    return {
+      custody: custodyPubkey,
+      asset: getAssetNameFromCustody(custodyPubkey),
+      tokenPrice,
+      longPnlUsd,
+      shortPnlUsd,
+      longPnlEstimateUsd,
+      shortPnlEstimateUsd,
+      longEstimateErrorUsd: longPnlEstimateUsd.sub(longPnlUsd),
+      shortEstimateErrorUsd: shortPnlEstimateUsd.sub(shortPnlUsd),
+    };
+  });
+
+  const sum = (getValue: (asset: AssetUnrealizedPnl) => BN) =>
+    assets.reduce((total, asset) => total.add(getValue(asset)), new BN(0));
+
+  return {
+    assets,
+    totalLongPnlUsd: sum((asset) => asset.longPnlUsd),
+    totalShortPnlUsd: sum((asset) => asset.shortPnlUsd),
+    totalLongPnlEstimateUsd: sum((asset) => asset.longPnlEstimateUsd),
+    totalShortPnlEstimateUsd: sum((asset) => asset.shortPnlEstimateUsd),
+  };
+}
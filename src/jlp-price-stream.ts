@@ -0,0 +1,185 @@
+import { EventEmitter } from "events";
+import { BN } from "@coral-xyz/anchor";
+import { unpackMint } from "@solana/spl-token";
+import { AccountInfo } from "@solana/web3.js";
+import { JLP_MINT_PUBKEY, JLP_POOL_ACCOUNT_PUBKEY } from "./constants";
+import type { PerpsClient } from "./client";
+import { Pool } from "./types";
+import { getJlpVirtualPriceFromAum } from "./utils";
+
+export interface JlpVirtualPriceUpdate {
+  aumUsd: BN;
+  jlpSupply: BN;
+  virtualPrice: BN;
+  // The latest slot either the pool's AUM or the JLP supply was observed at
+  slot: number;
+}
+
+/**
+ * Streams the JLP virtual price as the pool account (AUM) or the JLP mint (supply) changes.
+ *
+ * Consume updates either with `stream.on("update", ...)` or with `for await (const update of stream)`.
+ * Call `unsubscribe()` to remove the account subscriptions, which also ends any pending iterators.
+ *
+ * The initial AUM and supply are read in the same `getMultipleAccountsInfo` call so the first update is
+ * paired at a single slot. Afterwards every update combines the latest AUM with the latest supply. New
+ * iterators start from the latest update so the initial value emitted by `start()` isn't missed.
+ */
+export class JlpVirtualPriceStream
+  extends EventEmitter
+  implements AsyncIterable<JlpVirtualPriceUpdate>
+{
+  private aumUsd = new BN(0);
+  private jlpSupply = new BN(0);
+  private aumSlot = 0;
+  private supplySlot = 0;
+  private subscriptionIds: number[] = [];
+  private closed = false;
+  private latest: JlpVirtualPriceUpdate | null = null;
+
+  constructor(private readonly client: PerpsClient) {
+    super();
+  }
+
+  // Fetches the initial state, emits it as the first update and subscribes to both accounts
+  async start() {
+    const { context, value } =
+      await this.client.connection.getMultipleAccountsInfoAndContext(
+        [JLP_POOL_ACCOUNT_PUBKEY, JLP_MINT_PUBKEY],
+        this.client.commitment,
+      );
+    const [poolInfo, mintInfo] = value;
+
+    if (!poolInfo || !mintInfo) {
+      throw new Error("Failed to fetch the JLP pool or the JLP mint account");
+    }
+
+    this.aumUsd = this.decodeAum(poolInfo);
+    this.jlpSupply = this.decodeSupply(mintInfo);
+    this.aumSlot = context.slot;
+    this.supplySlot = context.slot;
+    this.emitUpdate();
+
+    this.subscriptionIds.push(
+      this.client.connection.onAccountChange(
+        JLP_POOL_ACCOUNT_PUBKEY,
+        (accountInfo, { slot }) => {
+          this.aumUsd = this.decodeAum(accountInfo);
+          this.aumSlot = slot;
+          this.emitUpdate();
+        },
+        this.client.commitment,
+      ),
+      this.client.connection.onAccountChange(
+        JLP_MINT_PUBKEY,
+        (accountInfo, { slot }) => {
+          this.jlpSupply = this.decodeSupply(accountInfo);
+          this.supplySlot = slot;
+          this.emitUpdate();
+        },
+        this.client.commitment,
+      ),
+    );
+
+    return this;
+  }
+
+  get latestUpdate() {
+    return this.latest;
+  }
+
+  async unsubscribe() {
+    if (this.closed) return;
+
+    this.closed = true;
+
+    await Promise.all(
+      this.subscriptionIds.map((id) =>
+        this.client.connection.removeAccountChangeListener(id),
+      ),
+    );
+
+    this.subscriptionIds = [];
+    this.emit("close");
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<JlpVirtualPriceUpdate> {
+    const queue: JlpVirtualPriceUpdate[] = this.latest ? [this.latest] : [];
+    const waiting: ((result: IteratorResult<JlpVirtualPriceUpdate>) => void)[] =
+      [];
+
+    const onUpdate = (update: JlpVirtualPriceUpdate) => {
+      const resolve = waiting.shift();
+
+      if (resolve) {
+        resolve({ value: update, done: false });
+      } else {
+        queue.push(update);
+      }
+    };
+
+    const onClose = () => {
+      cleanup();
+      waiting.splice(0).forEach((resolve) =>
+        resolve({ value: undefined, done: true }),
+      );
+    };
+
+    const cleanup = () => {
+      this.off("update", onUpdate);
+      this.off("close", onClose);
+    };
+
+    this.on("update", onUpdate);
+    this.on("close", onClose);
+
+    return {
+      next: () => {
+        const update = queue.shift();
+
+        if (update) {
+          return Promise.resolve({ value: update, done: false });
+        }
+
+        if (this.closed) {
+          cleanup();
+          return Promise.resolve({ value: undefined, done: true });
+        }
+
+        return new Promise((resolve) => waiting.push(resolve));
+      },
+      // Called when a `for await` loop exits early, e.g. with `break`
+      return: () => {
+        cleanup();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+
+  private decodeAum(accountInfo: AccountInfo<Buffer>) {
+    const pool = this.client.program.coder.accounts.decode(
+      "pool",
+      accountInfo.data,
+    ) as Pool;
+
+    return pool.aumUsd;
+  }
+
+  private decodeSupply(accountInfo: AccountInfo<Buffer>) {
+    const mint = unpackMint(JLP_MINT_PUBKEY, accountInfo);
+
+    return new BN(mint.supply.toString());
+  }
+
+  private emitUpdate() {
+    const update: JlpVirtualPriceUpdate = {
+      aumUsd: this.aumUsd,
+      jlpSupply: this.jlpSupply,
+      virtualPrice: getJlpVirtualPriceFromAum(this.aumUsd, this.jlpSupply),
+      slot: Math.max(this.aumSlot, this.supplySlot),
+    };
+
+    this.latest = update;
+    this.emit("update", update);
+  }
+}
@@ -0,0 +1,184 @@
+import { BN } from "@coral-xyz/anchor";
+import { BPS_POWER } from "./constants";
+import { DecodedEvent, isEventOfType } from "./events";
+import { getBaseFeeUsd, getPriceImpactFeeUsd } from "./fees";
+import { getLiquidationPrice } from "./liquidation";
+import { getFillFeeBreakdown } from "./trade-fees";
+import { Trade, TradeFill } from "./trades";
+import { Custody } from "./types";
+
+// The position as reconstructed from its fills
+interface PositionState {
+  sizeUsd: BN;
+  collateralUsd: BN;
+  // The average entry price, weighted by the token quantity of each increase
+  entryPrice: BN;
+}
+
+// The distance between the mark price and the liquidation price right after a fill
+export interface FillLiquidationDistance<Event extends DecodedEvent = DecodedEvent> {
+  fill: TradeFill<Event>;
+  markPrice: BN;
+  // The position after the fill
+  sizeUsd: BN;
+  collateralUsd: BN;
+  entryPrice: BN;
+  liquidationPrice: BN;
+  // How far the mark price could move against the position before it's liquidated, in USD and in BPS of the mark
+  // price. Negative when the mark price is already past the liquidation price
+  distanceUsd: BN;
+  distanceBps: BN;
+}
+
+// All USD values are in USD with 6 decimals
+export interface LiquidationReport<Event extends DecodedEvent = DecodedEvent> {
+  fill: TradeFill<Event>;
+  slot: number;
+  // The oracle price the position was liquidated at
+  oraclePrice: BN;
+  // The position right before the liquidation
+  sizeUsd: BN;
+  collateralUsd: BN;
+  entryPrice: BN;
+  // The borrow fee accrued since the position was last changed, settled by the liquidation
+  borrowFeeUsd: BN;
+  closeFeeUsd: BN;
+  priceImpactFeeUsd: BN;
+  liquidationFeeUsd: BN;
+  // The liquidation price computed from the position and the fees charged by the liquidation
+  liquidationPrice: BN;
+  // The loss (including fees) the position could absorb before it was liquidated
+  maxLossUsd: BN;
+  pnlUsd: BN;
+  // The value returned to the owner
+  transferAmountUsd: BN;
+  // The mark to liquidation price distance after every fill before the liquidation
+  fillDistances: FillLiquidationDistance<Event>[];
+}
+
+// Scales the token quantities used to average the entry price
+const QUANTITY_PRECISION = new BN(10).pow(new BN(12));
+
+const getQuantity = (sizeUsd: BN, price: BN) =>
+  price.isZero() ? new BN(0) : sizeUsd.mul(QUANTITY_PRECISION).div(price);
+
+// How far `markPrice` can move against the position before reaching `liquidationPrice`
+function getDistance(side: Trade["positionSide"], markPrice: BN, liquidationPrice: BN) {
+  const distanceUsd =
+    side === "long" ? markPrice.sub(liquidationPrice) : liquidationPrice.sub(markPrice);
+
+  return {
+    distanceUsd,
+    distanceBps: markPrice.isZero() ? new BN(0) : distanceUsd.mul(BPS_POWER).div(markPrice),
+  };
+}
+
+/**
+ * Reconstructs the position's state before a liquidation and the liquidation price after each of its fills
+ *
+ * The events don't include the position's collateral or average entry price, so they're replayed from the fills:
+ * increases add their collateral less the fee, decreases remove the fee and the amount transferred to the owner
+ * and add the realized PNL. The liquidation price after each fill only includes the close and price impact fees,
+ * as the borrow fee is settled by every fill. Pass the custody as of the liquidation for exact values, the
+ * current custody gives an estimate if its fee parameters or `maxLeverage` changed since.
+ *
+ * @param custodies The custody accounts keyed by their public key
+ * @returns The report, or null if the trade wasn't liquidated
+ */
+export function getLiquidationReport<Event extends DecodedEvent>(
+  trade: Trade<Event>,
+  custodies: Record<string, Custody>,
+): LiquidationReport<Event> | null {
+  const fill = trade.fills[trade.fills.length - 1];
+
+  if (
+    trade.status !== "liquidated" ||
+    !fill ||
+    !isEventOfType(fill.event, ["LiquidateFullPositionEvent"])
+  ) {
+    return null;
+  }
+
+  const custody = custodies[trade.positionCustody.toBase58()];
+
+  if (!custody) {
+    throw new Error(`Missing custody ${trade.positionCustody.toBase58()} for trade ${trade.id}`);
+  }
+
+  const state: PositionState = {
+    sizeUsd: new BN(0),
+    collateralUsd: new BN(0),
+    entryPrice: new BN(0),
+  };
+  let quantity = new BN(0);
+
+  const fillDistances = trade.fills.slice(0, -1).map((earlierFill) => {
+    if (earlierFill.side === "increase") {
+      quantity = quantity.add(getQuantity(earlierFill.sizeUsd, earlierFill.price));
+      state.collateralUsd = state.collateralUsd
+        .add(earlierFill.collateralUsd)
+        .sub(earlierFill.feeUsd);
+    } else if (
+      isEventOfType(earlierFill.event, ["DecreasePositionEvent", "InstantDecreasePositionEvent"])
+    ) {
+      // Decreases keep the entry price, so the remaining quantity shrinks with the size
+      quantity = state.sizeUsd.isZero()
+        ? new BN(0)
+        : quantity.mul(earlierFill.positionSizeUsd).div(state.sizeUsd);
+      state.collateralUsd = state.collateralUsd
+        .add(earlierFill.pnlUsd)
+        .sub(earlierFill.feeUsd)
+        .sub(earlierFill.event.event.data.transferAmountUsd);
+    }
+
+    state.sizeUsd = earlierFill.positionSizeUsd;
+    state.entryPrice = quantity.isZero()
+      ? new BN(0)
+      : state.sizeUsd.mul(QUANTITY_PRECISION).div(quantity);
+
+    const { liquidationPrice } = state.sizeUsd.isZero()
+      ? { liquidationPrice: new BN(0) }
+      : getLiquidationPrice(
+          { side: trade.positionSide, ...state },
+          custody,
+          getBaseFeeUsd(custody, state.sizeUsd, false).add(
+            getPriceImpactFeeUsd(custody, state.sizeUsd),
+          ),
+        );
+
+    return {
+      fill: earlierFill,
+      markPrice: earlierFill.price,
+      ...state,
+      liquidationPrice,
+      ...getDistance(trade.positionSide, earlierFill.price, liquidationPrice),
+    };
+  });
+
+  const { data } = fill.event.event;
+  const fees = getFillFeeBreakdown(custody, fill);
+  const sizeUsd = data.positionSizeUsd;
+  const { liquidationPrice, maxLossUsd } = getLiquidationPrice(
+    { side: trade.positionSide, ...state, sizeUsd },
+    custody,
+    data.feeUsd,
+  );
+
+  return {
+    fill,
+    slot: fill.event.slot,
+    oraclePrice: data.price,
+    sizeUsd,
+    collateralUsd: state.collateralUsd,
+    entryPrice: state.entryPrice,
+    borrowFeeUsd: fees.borrowFeeUsd,
+    closeFeeUsd: fees.closeFeeUsd,
+    priceImpactFeeUsd: fees.priceImpactFeeUsd,
+    liquidationFeeUsd: data.liquidationFeeUsd,
+    liquidationPrice,
+    maxLossUsd,
+    pnlUsd: fill.pnlUsd,
+    transferAmountUsd: data.transferAmountUsd,
+    fillDistances,
+  };
+}
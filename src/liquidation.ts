@@ -0,0 +1,131 @@
+import { BN } from "@coral-xyz/anchor";
+import { BPS_POWER } from "./constants";
+import { getBaseFeeUsd, getBorrowFeeUsd, getPriceImpactFeeUsd } from "./fees";
+import { Custody, Position } from "./types";
+
+// Fees that would be charged if the position were closed at the liquidation price
+export interface LiquidationFeeBreakdown {
+  closeBaseFeeUsd: BN;
+  priceImpactFeeUsd: BN;
+  borrowFeeUsd: BN;
+  totalFeeUsd: BN;
+}
+
+export interface LiquidationPriceResult {
+  liquidationPrice: BN;
+  // Loss (including fees) the position can absorb before it is liquidated
+  maxLossUsd: BN;
+  fees: LiquidationFeeBreakdown;
+}
+
+// The position values the liquidation price is derived from, in USD with 6 decimals
+export interface LiquidationPriceInputs {
+  side: "long" | "short";
+  sizeUsd: BN;
+  collateralUsd: BN;
+  entryPrice: BN;
+}
+
+/**
+ * Calculate the liquidation price of a position's size, collateral and entry price
+ *
+ * @param custody The custody account of the position's asset
+ * @param totalFeeUsd The fees charged when closing the position (close base, price impact and borrow fees)
+ */
+export function getLiquidationPrice(
+  { side, sizeUsd, collateralUsd, entryPrice }: LiquidationPriceInputs,
+  custody: Custody,
+  totalFeeUsd: BN,
+): { liquidationPrice: BN; maxLossUsd: BN } {
+  const maxLossUsd = sizeUsd
+    .mul(BPS_POWER)
+    .div(custody.pricing.maxLeverage)
+    .add(totalFeeUsd);
+
+  const marginUsd = collateralUsd;
+
+  const maxPriceDiff = maxLossUsd
+    .sub(marginUsd)
+    .abs()
+    .mul(entryPrice)
+    .div(sizeUsd);
+
+  // When the fees alone exceed the margin the position is already underwater at its entry price,
+  // so the liquidation price sits on the "wrong" side of the entry price
+  const isFeeDominated = maxLossUsd.gt(marginUsd);
+
+  let liquidationPrice: BN;
+
+  if (side === "long") {
+    liquidationPrice = isFeeDominated
+      ? entryPrice.add(maxPriceDiff)
+      : entryPrice.sub(maxPriceDiff);
+  } else {
+    liquidationPrice = isFeeDominated
+      ? entryPrice.sub(maxPriceDiff)
+      : entryPrice.add(maxPriceDiff);
+  }
+
+  return {
+    // Low leverage longs can have a theoretical liquidation price below zero
+    liquidationPrice: liquidationPrice.isNeg() ? new BN(0) : liquidationPrice,
+    maxLossUsd,
+  };
+}
+
+/**
+ * Calculate the liquidation price for a position without touching the network
+ *
+ * A position is liquidated once its collateral minus PNL and fees falls below the maintenance margin
+ * implied by the custody's `maxLeverage`. Borrow fees are accrued up to `now` with `getCumulativeInterest`
+ * so positions that haven't been touched in a while include the interest that hasn't been settled yet.
+ *
+ * @param position The position account
+ * @param custody The custody account of the position's asset
+ * @param collateralCustody The custody account of the position's collateral (borrow fees accrue here)
+ * @param now The current unix timestamp in seconds
+ * @returns The liquidation price (USD, 6 decimals) and the fees used to derive it, or null if the position is closed
+ */
+export function computeLiquidationPrice(
+  position: Position,
+  custody: Custody,
+  collateralCustody: Custody,
+  now: BN,
+): LiquidationPriceResult | null {
+  // Old positions accounts are not closed, but have `sizeUsd = 0`
+  if (position.sizeUsd.isZero()) {
+    return null;
+  }
+
+  const closeBaseFeeUsd = getBaseFeeUsd(custody, position.sizeUsd, false);
+  const priceImpactFeeUsd = getPriceImpactFeeUsd(custody, position.sizeUsd);
+  const borrowFeeUsd = getBorrowFeeUsd(
+    collateralCustody,
+    position.sizeUsd,
+    position.cumulativeInterestSnapshot,
+    now,
+  );
+  const totalFeeUsd = closeBaseFeeUsd.add(priceImpactFeeUsd).add(borrowFeeUsd);
+
+  const { liquidationPrice, maxLossUsd } = getLiquidationPrice(
+    {
+      side: position.side.long ? "long" : "short",
+      sizeUsd: position.sizeUsd,
+      collateralUsd: position.collateralUsd,
+      entryPrice: position.price,
+    },
+    custody,
+    totalFeeUsd,
+  );
+
+  return {
+    liquidationPrice,
+    maxLossUsd,
+    fees: {
+      closeBaseFeeUsd,
+      priceImpactFeeUsd,
+      borrowFeeUsd,
+      totalFeeUsd,
+    },
+  };
+}
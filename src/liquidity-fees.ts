@@ -0,0 +1,203 @@
+import { BN } from "@coral-xyz/anchor";
+import { BPS_POWER } from "./constants";
+import { AmountAndFee, Custody, Pool } from "./types";
+
+/**
+ * Offline implementation of the pool's dynamic add/remove liquidity fee.
+ *
+ * Every deposit or withdrawal pays `pool.fees.addRemoveLiquidityBps`. On top of that, a tax of up to
+ * `pool.fees.taxBps` is charged when the trade moves the custody further away from its target weight
+ * (`custody.targetRatioBps` of the pool's AUM), scaled by how far from the target the custody ends up.
+ * Trades that move the custody towards its target get a rebate of up to `taxBps` instead.
+ *
+ * All prices and USD values use 6 decimals (the USDC decimals) like the program does.
+ */
+
+const getTokenScale = (custody: Custody) => new BN(10).pow(new BN(custody.decimals));
+
+export const tokenAmountToUsd = (custody: Custody, amount: BN, tokenPrice: BN) =>
+  amount.mul(tokenPrice).div(getTokenScale(custody));
+
+export const usdToTokenAmount = (custody: Custody, usd: BN, tokenPrice: BN) =>
+  usd.mul(getTokenScale(custody)).div(tokenPrice);
+
+// The USD value of the tokens the custody currently owns
+export const getCustodyValueUsd = (custody: Custody, tokenPrice: BN) =>
+  tokenAmountToUsd(custody, custody.assets.owned, tokenPrice);
+
+/**
+ * Fee (in BPS) for moving `amountUsd` in (`isIncrease`) or out of `custody`. The custody pays `baseFeeBps`
+ * plus up to `taxBps` depending on how far the trade moves it away from its target weight, or gets a rebate of
+ * up to `taxBps` if the trade moves it towards its target weight.
+ *
+ * @param poolAumUsd The pool's AUM, usually `pool.aumUsd`
+ * @param tokenPrice The custody token's price
+ */
+export function getCustodyFeeBps({
+  custody,
+  poolAumUsd,
+  tokenPrice,
+  amountUsd,
+  isIncrease,
+  baseFeeBps,
+  taxBps,
+}: {
+  custody: Custody;
+  poolAumUsd: BN;
+  tokenPrice: BN;
+  amountUsd: BN;
+  isIncrease: boolean;
+  baseFeeBps: BN;
+  taxBps: BN;
+}): BN {
+  const targetUsd = poolAumUsd.mul(custody.targetRatioBps).div(BPS_POWER);
+
+  if (targetUsd.isZero()) {
+    return baseFeeBps;
+  }
+
+  const currentUsd = getCustodyValueUsd(custody, tokenPrice);
+
+  if (!isIncrease && amountUsd.gt(currentUsd)) {
+    throw new Error(
+      `Cannot remove ${amountUsd.toString()} USD from a custody holding ${currentUsd.toString()} USD`,
+    );
+  }
+
+  const nextUsd = isIncrease
+    ? currentUsd.add(amountUsd)
+    : currentUsd.sub(amountUsd);
+
+  const initialDiff = currentUsd.sub(targetUsd).abs();
+  const nextDiff = nextUsd.sub(targetUsd).abs();
+
+  // The trade moves the custody towards its target weight so the fee is discounted
+  if (nextDiff.lt(initialDiff)) {
+    const rebateBps = taxBps.mul(initialDiff).div(targetUsd);
+
+    return rebateBps.gt(baseFeeBps) ? new BN(0) : baseFeeBps.sub(rebateBps);
+  }
+
+  let averageDiff = initialDiff.add(nextDiff).divn(2);
+
+  if (averageDiff.gt(targetUsd)) {
+    averageDiff = targetUsd;
+  }
+
+  return baseFeeBps.add(taxBps.mul(averageDiff).div(targetUsd));
+}
+
+/**
+ * Fee (in BPS) for adding or removing `amountUsd` worth of liquidity through `custody`
+ *
+ * @param poolAumUsd The pool's AUM, usually `pool.aumUsd`
+ * @param tokenPrice The custody token's price
+ * @param isAdd Whether the liquidity is being added (deposit) or removed (withdrawal)
+ */
+export function getAddRemoveLiquidityFeeBps({
+  pool,
+  isAdd,
+  ...params
+}: {
+  pool: Pool;
+  custody: Custody;
+  poolAumUsd: BN;
+  tokenPrice: BN;
+  amountUsd: BN;
+  isAdd: boolean;
+}): BN {
+  return getCustodyFeeBps({
+    ...params,
+    isIncrease: isAdd,
+    baseFeeBps: pool.fees.addRemoveLiquidityBps,
+    taxBps: pool.fees.taxBps,
+  });
+}
+
+/**
+ * Quotes the JLP minted for depositing `tokenAmountIn` of the custody's token, mirroring
+ * `getAddLiquidityAmountAndFee2` without an RPC simulation
+ *
+ * @returns The JLP amount minted, the fee charged in the deposited token and the fee in BPS
+ */
+export function quoteAddLiquidityOffline({
+  pool,
+  custody,
+  tokenPrice,
+  jlpSupply,
+  tokenAmountIn,
+  poolAumUsd = pool.aumUsd,
+}: {
+  pool: Pool;
+  custody: Custody;
+  tokenPrice: BN;
+  jlpSupply: BN;
+  tokenAmountIn: BN;
+  poolAumUsd?: BN;
+}): AmountAndFee {
+  const feeBps = getAddRemoveLiquidityFeeBps({
+    pool,
+    custody,
+    poolAumUsd,
+    tokenPrice,
+    amountUsd: tokenAmountToUsd(custody, tokenAmountIn, tokenPrice),
+    isAdd: true,
+  });
+
+  const fee = tokenAmountIn.mul(feeBps).div(BPS_POWER);
+  const amountInAfterFeeUsd = tokenAmountToUsd(
+    custody,
+    tokenAmountIn.sub(fee),
+    tokenPrice,
+  );
+
+  // The first deposit into an empty pool mints JLP 1:1 with the deposited USD value
+  const amount =
+    poolAumUsd.isZero() || jlpSupply.isZero()
+      ? amountInAfterFeeUsd
+      : amountInAfterFeeUsd.mul(jlpSupply).div(poolAumUsd);
+
+  return { amount, fee, feeBps };
+}
+
+/**
+ * Quotes the custody tokens received for burning `lpAmountIn` JLP, mirroring
+ * `getRemoveLiquidityAmountAndFee2` without an RPC simulation
+ *
+ * @returns The token amount received, the fee charged in the withdrawn token and the fee in BPS
+ */
+export function quoteRemoveLiquidityOffline({
+  pool,
+  custody,
+  tokenPrice,
+  jlpSupply,
+  lpAmountIn,
+  poolAumUsd = pool.aumUsd,
+}: {
+  pool: Pool;
+  custody: Custody;
+  tokenPrice: BN;
+  jlpSupply: BN;
+  lpAmountIn: BN;
+  poolAumUsd?: BN;
+}): AmountAndFee {
+  if (jlpSupply.isZero()) {
+    throw new Error("Cannot remove liquidity from a pool without JLP supply");
+  }
+
+  const amountOutUsd = lpAmountIn.mul(poolAumUsd).div(jlpSupply);
+
+  const feeBps = getAddRemoveLiquidityFeeBps({
+    pool,
+    custody,
+    poolAumUsd,
+    tokenPrice,
+    amountUsd: amountOutUsd,
+    isAdd: false,
+  });
+
+  const tokenAmountOut = usdToTokenAmount(custody, amountOutUsd, tokenPrice);
+  const fee = tokenAmountOut.mul(feeBps).div(BPS_POWER);
+
+  return { amount: tokenAmountOut.sub(fee), fee, feeBps };
+}
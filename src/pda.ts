@@ -0,0 +1,153 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import {
+  CUSTODY_PUBKEYS,
+  JLP_POOL_ACCOUNT_PUBKEY,
+  JUPITER_PERPETUALS_PROGRAM_ID,
+} from "./constants";
+import { getAssetNameFromCustody } from "./utils";
+
+// The `Perpetuals` PDA is the global config account that every pool and position instruction references
+export function generatePerpetualsPda() {
+  const [perpetuals, bump] = PublicKey.findProgramAddressSync(
+    [Buffer.from("perpetuals")],
+    JUPITER_PERPETUALS_PROGRAM_ID,
+  );
+
+  return { perpetuals, bump };
+}
+
+// The `transferAuthority` PDA signs for token transfers out of the custody token accounts
+export function generateTransferAuthorityPda() {
+  const [transferAuthority, bump] = PublicKey.findProgramAddressSync(
+    [Buffer.from("transfer_authority")],
+    JUPITER_PERPETUALS_PROGRAM_ID,
+  );
+
+  return { transferAuthority, bump };
+}
+
+// The `positionRequest` PDA holds the requests for all the perpetuals actions. Once the `positionRequest`
+// is submitted on chain, the keeper(s) will pick them up and execute the requests (hence the request
+// fulfillment model)
+//
+// https://station.jup.ag/guides/perpetual-exchange/onchain-accounts#positionrequest-account
+export function generatePositionRequestPda({
+  counter,
+  positionPubkey,
+  requestChange,
+}: {
+  counter?: BN;
+  positionPubkey: PublicKey;
+  requestChange: "increase" | "decrease";
+}) {
+  // The `counter` constant acts a random seed so we can generate a unique PDA every time the user
+  // creates a position request
+  if (!counter) {
+    counter = new BN(Math.floor(Math.random() * 1_000_000_000));
+  }
+
+  const requestChangeEnum = requestChange === "increase" ? [1] : [2];
+  const [positionRequest, bump] = PublicKey.findProgramAddressSync(
+    [
+      Buffer.from("position_request"),
+      new PublicKey(positionPubkey).toBuffer(),
+      counter.toArrayLike(Buffer, "le", 8),
+      Buffer.from(requestChangeEnum),
+    ],
+    JUPITER_PERPETUALS_PROGRAM_ID,
+  );
+
+  return { positionRequest, counter, bump };
+}
+
+// The `Position` PDA stores the position data for a trader's positions (both open and closed).
+// https://station.jup.ag/guides/perpetual-exchange/onchain-accounts#position-account
+export function generatePositionPda({
+  custody,
+  collateralCustody,
+  walletAddress,
+  side,
+}: {
+  custody: PublicKey;
+  collateralCustody: PublicKey;
+  walletAddress: PublicKey;
+  side: "long" | "short";
+}) {
+  const [position, bump] = PublicKey.findProgramAddressSync(
+    [
+      Buffer.from("position"),
+      walletAddress.toBuffer(),
+      JLP_POOL_ACCOUNT_PUBKEY.toBuffer(),
+      custody.toBuffer(),
+      collateralCustody.toBuffer(),
+      // @ts-ignore
+      side === "long" ? [1] : [2], // This is due to how the `Side` enum is structured in the contract
+    ],
+    JUPITER_PERPETUALS_PROGRAM_ID,
+  );
+
+  return { position, bump };
+}
+
+export interface PositionPdaInfo {
+  type: "Long" | "Short";
+  positionPda: PublicKey;
+  custody: PublicKey;
+  collateralCustody: PublicKey;
+  description: string;
+}
+
+// Each wallet has exactly 9 possible positions:
+// - Long SOL / ETH / BTC (using the asset itself as collateral)
+// - Short SOL / ETH / BTC (using USDC or USDT as collateral)
+export function generateAllPositionPdas(
+  walletAddress: PublicKey | string,
+): PositionPdaInfo[] {
+  const walletPubkey = new PublicKey(walletAddress);
+  const results: PositionPdaInfo[] = [];
+
+  // Loop through all custodies (SOL, BTC, ETH)
+  for (let i = 0; i < 3; i++) {
+    const assetCustody = CUSTODY_PUBKEYS[i];
+    const assetName = getAssetNameFromCustody(assetCustody.toBase58());
+
+    const longPosition = generatePositionPda({
+      custody: assetCustody,
+      collateralCustody: assetCustody, // For long, custody and collateralCustody are the same
+      walletAddress: walletPubkey,
+      side: "long",
+    });
+
+    results.push({
+      type: "Long",
+      positionPda: longPosition.position,
+      custody: assetCustody,
+      collateralCustody: assetCustody,
+      description: `Long ${assetName} (using ${assetName} as collateral)`,
+    });
+
+    // Generate Short positions with USDC and USDT as collateral
+    for (let j = 3; j < 5; j++) { // USDC and USDT are at index 3 and 4
+      const stableCustody = CUSTODY_PUBKEYS[j];
+      const stableName = getAssetNameFromCustody(stableCustody.toBase58());
+
+      const shortPosition = generatePositionPda({
+        custody: assetCustody,
+        collateralCustody: stableCustody,
+        walletAddress: walletPubkey,
+        side: "short",
+      });
+
+      results.push({
+        type: "Short",
+        positionPda: shortPosition.position,
+        custody: assetCustody,
+        collateralCustody: stableCustody,
+        description: `Short ${assetName} (using ${stableName} as collateral)`,
+      });
+    }
+  }
+
+  return results;
+}
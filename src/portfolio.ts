@@ -0,0 +1,103 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import type { PositionWithInfo } from "./client";
+import { computeLiquidationPrice, LiquidationPriceResult } from "./liquidation";
+import { AssetMarkPrices, Custody, MarkPrice } from "./types";
+import { getPnlForSize, toUsdcDecimalsPrice } from "./utils";
+
+// An open position with the accounts and prices it's valued with, all read at the snapshot's slot
+export interface PortfolioPosition {
+  position: PositionWithInfo;
+  custody: Custody;
+  collateralCustody: Custody;
+  // The Doves mark price of the position's asset, null if its oracle account wasn't found
+  markPrice: MarkPrice | null;
+  // PNL before fees if the position were closed at the mark price, in USD with 6 decimals
+  pnlUsd: BN | null;
+  liquidation: LiquidationPriceResult | null;
+}
+
+export interface PortfolioSnapshot {
+  wallet: PublicKey;
+  // The context slot every account of the snapshot was read at
+  slot: number;
+  openPositions: PortfolioPosition[];
+  // Old positions accounts are not closed, but have `sizeUsd = 0`
+  closedPositions: PositionWithInfo[];
+  custodies: Record<string, Custody>;
+  markPrices: AssetMarkPrices;
+  totalSizeUsd: BN;
+  totalCollateralUsd: BN;
+  // The sum of the PNL of the positions that have a mark price
+  totalPnlUsd: BN;
+}
+
+/**
+ * Values a wallet's positions with custodies and mark prices read at the same slot
+ *
+ * @param custodies Custody accounts keyed by their public key, including every position's collateral custody
+ * @param markPrices Mark prices keyed by custody public key
+ * @param now The unix timestamp in seconds to accrue borrow fees up to
+ */
+export function computePortfolioSnapshot(
+  wallet: PublicKey,
+  slot: number,
+  positions: PositionWithInfo[],
+  custodies: Record<string, Custody>,
+  markPrices: AssetMarkPrices,
+  now: BN,
+): PortfolioSnapshot {
+  const openPositions: PortfolioPosition[] = [];
+  const closedPositions: PositionWithInfo[] = [];
+
+  positions.forEach((position) => {
+    if (!position.account.sizeUsd.gtn(0)) {
+      closedPositions.push(position);
+      return;
+    }
+
+    const custody = custodies[position.positionInfo.custody];
+    const collateralCustody = custodies[position.positionInfo.collateralCustody];
+
+    if (!custody || !collateralCustody) {
+      throw new Error(`Missing custody accounts for position ${position.publicKey.toBase58()}`);
+    }
+
+    const markPrice = markPrices[position.positionInfo.custody] ?? null;
+    let pnlUsd: BN | null = null;
+
+    if (markPrice) {
+      const [hasProfit, pnl] = getPnlForSize(
+        position.account.sizeUsd,
+        position.account.price,
+        position.account.side.long ? "long" : "short",
+        toUsdcDecimalsPrice(markPrice.price, markPrice.expo),
+      );
+
+      pnlUsd = hasProfit ? pnl : pnl.neg();
+    }
+
+    openPositions.push({
+      position,
+      custody,
+      collateralCustody,
+      markPrice,
+      pnlUsd,
+      liquidation: computeLiquidationPrice(position.account, custody, collateralCustody, now),
+    });
+  });
+
+  const sum = (values: BN[]) => values.reduce((total, value) => total.add(value), new BN(0));
+
+  return {
+    wallet,
+    slot,
+    openPositions,
+    closedPositions,
+    custodies,
+    markPrices,
+    totalSizeUsd: sum(openPositions.map(({ position }) => position.account.sizeUsd)),
+    totalCollateralUsd: sum(openPositions.map(({ position }) => position.account.collateralUsd)),
+    totalPnlUsd: sum(openPositions.flatMap(({ pnlUsd }) => (pnlUsd ? [pnlUsd] : []))),
+  };
+}
@@ -0,0 +1,214 @@
+import { Connection, ConnectionConfig } from "@solana/web3.js";
+import { RpcScheduler, defaultRpcScheduler } from "./rpc-scheduler";
+
+export interface RpcPoolOptions {
+  // How often every endpoint's slot is polled to measure how far it lags behind the others
+  probeIntervalMs?: number;
+  // The weight of a new latency or error sample in the endpoint's moving averages
+  smoothing?: number;
+  // Endpoints that failed this many requests in a row are skipped for `cooldownMs`
+  maxConsecutiveErrors?: number;
+  cooldownMs?: number;
+}
+
+export interface RpcEndpointHealth {
+  url: string;
+  // Moving average of the response time of successful requests
+  latencyMs: number;
+  // Moving average of the share of failed requests, between 0 and 1
+  errorRate: number;
+  consecutiveErrors: number;
+  cooldownUntil: number;
+  // The endpoint's last polled slot, and how many slots it was behind the most recent endpoint
+  slot: number | null;
+  slotLag: number;
+}
+
+// How much an error rate of 1 and a lagging slot weigh against a millisecond of latency when scoring endpoints
+const ERROR_RATE_PENALTY_MS = 2_000;
+const SLOT_LAG_PENALTY_MS = 400;
+
+// Failed requests are retried on another endpoint, except client errors which would fail there too
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Sends RPC requests to the healthiest of several endpoints, failing over to the next one when a request fails
+ *
+ * Endpoints are scored on their latency, error rate and slot lag (lower is healthier). The slot lag is measured by
+ * polling `getSlot` on every endpoint. Pass `fetch` to a `Connection` (see `createPooledConnection`) so every
+ * function that takes a connection or a `PerpsClient` uses the pool. Subscriptions are not pooled, they use the
+ * connection's endpoint.
+ */
+export class RpcPool {
+  private readonly health: RpcEndpointHealth[];
+  private readonly smoothing: number;
+  private readonly maxConsecutiveErrors: number;
+  private readonly cooldownMs: number;
+  private readonly probeTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    urls: string[],
+    {
+      probeIntervalMs = 10_000,
+      smoothing = 0.2,
+      maxConsecutiveErrors = 3,
+      cooldownMs = 30_000,
+    }: RpcPoolOptions = {},
+  ) {
+    if (urls.length === 0) {
+      throw new Error("RpcPool needs at least one endpoint");
+    }
+
+    this.health = urls.map((url) => ({
+      url,
+      latencyMs: 0,
+      errorRate: 0,
+      consecutiveErrors: 0,
+      cooldownUntil: 0,
+      slot: null,
+      slotLag: 0,
+    }));
+    this.smoothing = smoothing;
+    this.maxConsecutiveErrors = maxConsecutiveErrors;
+    this.cooldownMs = cooldownMs;
+
+    // A single endpoint has no slot to lag behind
+    if (urls.length > 1) {
+      this.probe();
+      // Don't keep the process alive just to poll the endpoints
+      this.probeTimer = setInterval(() => this.probe(), probeIntervalMs);
+      this.probeTimer.unref();
+    }
+  }
+
+  // The endpoints from the healthiest to the least healthy
+  get endpoints(): RpcEndpointHealth[] {
+    const now = Date.now();
+    const score = (endpoint: RpcEndpointHealth) =>
+      endpoint.latencyMs +
+      endpoint.errorRate * ERROR_RATE_PENALTY_MS +
+      endpoint.slotLag * SLOT_LAG_PENALTY_MS;
+
+    // Endpoints on cooldown go last, but are still tried when every other endpoint failed
+    return [...this.health].sort(
+      (a, b) =>
+        Number(a.cooldownUntil > now) - Number(b.cooldownUntil > now) || score(a) - score(b),
+    );
+  }
+
+  // A `fetch` that sends the request to the healthiest endpoint, whatever URL it's called with
+  readonly fetch: typeof fetch = async (_input, init) => {
+    const endpoints = this.endpoints;
+    let lastError: unknown;
+
+    for (let i = 0; i < endpoints.length; i++) {
+      const endpoint = endpoints[i];
+      const startTime = Date.now();
+
+      try {
+        const response = await fetch(endpoint.url, init);
+
+        if (!isRetryableStatus(response.status)) {
+          this.recordSuccess(endpoint, Date.now() - startTime);
+          return response;
+        }
+
+        this.recordError(endpoint);
+
+        // The last endpoint's response is returned so the caller handles it as usual
+        if (i === endpoints.length - 1) return response;
+
+        await response.body?.cancel();
+      } catch (error) {
+        this.recordError(endpoint);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  };
+
+  // Polls every endpoint's slot and updates their slot lag
+  async probe() {
+    await Promise.all(
+      this.health.map(async (endpoint) => {
+        const startTime = Date.now();
+
+        try {
+          const response = await fetch(endpoint.url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              jsonrpc: "2.0",
+              id: 1,
+              method: "getSlot",
+              params: [{ commitment: "confirmed" }],
+            }),
+          });
+          const { result } = (await response.json()) as { result?: number };
+
+          if (!response.ok || typeof result !== "number") {
+            throw new Error(`getSlot failed with status ${response.status}`);
+          }
+
+          endpoint.slot = result;
+          this.recordSuccess(endpoint, Date.now() - startTime);
+        } catch {
+          this.recordError(endpoint);
+        }
+      }),
+    );
+
+    const maxSlot = Math.max(...this.health.map(({ slot }) => slot ?? 0));
+
+    this.health.forEach((endpoint) => {
+      // Endpoints that never answered are scored on their errors instead
+      endpoint.slotLag = endpoint.slot === null ? 0 : maxSlot - endpoint.slot;
+    });
+  }
+
+  // Stops polling the endpoints
+  close() {
+    if (this.probeTimer) clearInterval(this.probeTimer);
+  }
+
+  private recordSuccess(endpoint: RpcEndpointHealth, latencyMs: number) {
+    endpoint.latencyMs =
+      endpoint.latencyMs === 0
+        ? latencyMs
+        : endpoint.latencyMs + this.smoothing * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate -= this.smoothing * endpoint.errorRate;
+    endpoint.consecutiveErrors = 0;
+  }
+
+  private recordError(endpoint: RpcEndpointHealth) {
+    endpoint.errorRate += this.smoothing * (1 - endpoint.errorRate);
+    endpoint.consecutiveErrors++;
+
+    if (endpoint.consecutiveErrors >= this.maxConsecutiveErrors) {
+      endpoint.cooldownUntil = Date.now() + this.cooldownMs;
+    }
+  }
+}
+
+/**
+ * Creates a `Connection` whose HTTP requests are sent to the healthiest of `urls`, paced by `scheduler`
+ *
+ * The connection's endpoint (and its websocket for subscriptions) is the first URL.
+ *
+ * @returns The connection and its pool, to read the endpoints' health and to `close` the pool when done
+ */
+export function createPooledConnection(
+  urls: string[],
+  config: ConnectionConfig = {},
+  scheduler: RpcScheduler = defaultRpcScheduler,
+): { connection: Connection; pool: RpcPool } {
+  const pool = new RpcPool(urls);
+  const connection = new Connection(urls[0], {
+    ...config,
+    fetch: scheduler.wrapFetch(pool.fetch),
+    disableRetryOnRateLimit: true,
+  });
+
+  return { connection, pool };
+}
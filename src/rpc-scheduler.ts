@@ -0,0 +1,235 @@
+import { Connection, ConnectionConfig } from "@solana/web3.js";
+
+export interface RpcSchedulerOptions {
+  // The rate requests are sent at to begin with, raised while the endpoint keeps up and halved when it rate limits
+  requestsPerSecond?: number;
+  minRequestsPerSecond?: number;
+  maxRequestsPerSecond?: number;
+  // The number of requests that can be in flight at once
+  maxConcurrency?: number;
+  // Retries of a rate limited request before its error is returned
+  maxRetries?: number;
+  // The backoff of a rate limited request without a `Retry-After` header, doubled on every retry and jittered
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+// Thrown by scheduled requests that were rate limited (HTTP 429)
+export class RateLimitError extends Error {
+  constructor(
+    // The delay requested by the endpoint's `Retry-After` header, if any
+    readonly retryAfterMs: number | null,
+    // The endpoint's response, returned by `RpcScheduler.fetch` once the retries are exhausted
+    readonly response?: Response,
+  ) {
+    super("Server responded with 429 Too Many Requests");
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// `Retry-After` is either a number of seconds or an HTTP date
+function parseRetryAfterMs(retryAfter: string | null): number | null {
+  if (!retryAfter) return null;
+
+  const seconds = Number(retryAfter);
+
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(retryAfter);
+
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Errors raised by web3.js for rate limited requests only carry the status in their message
+export const isRateLimitError = (error: unknown) =>
+  error instanceof RateLimitError ||
+  (error instanceof Error &&
+    (error.message.includes("429") || error.message.includes("Too Many Requests")));
+
+/**
+ * Schedules RPC requests with a token bucket and a concurrency limit, retrying rate limited requests
+ *
+ * The bucket's rate adapts to the endpoint: it grows by about one request per second for every second of requests
+ * that succeed, and is halved whenever a request is rate limited. A `Retry-After` header pauses every request
+ * for the requested time, otherwise the rate limited request is retried after a jittered exponential backoff.
+ *
+ * Pass `fetch` to a `Connection` (see `createScheduledConnection`) to schedule all of its HTTP requests, or wrap
+ * another `fetch` with `wrapFetch` (see `createPooledConnection`).
+ */
+export class RpcScheduler {
+  private readonly minRequestsPerSecond: number;
+  private readonly maxRequestsPerSecond: number;
+  private readonly maxConcurrency: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+
+  private requestsPerSecond: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private activeRequests = 0;
+  private readonly slotWaiters: (() => void)[] = [];
+
+  constructor({
+    requestsPerSecond = 10,
+    minRequestsPerSecond = 1,
+    maxRequestsPerSecond = 100,
+    maxConcurrency = 8,
+    maxRetries = 5,
+    baseDelayMs = 500,
+    maxDelayMs = 15_000,
+  }: RpcSchedulerOptions = {}) {
+    this.requestsPerSecond = requestsPerSecond;
+    this.minRequestsPerSecond = minRequestsPerSecond;
+    this.maxRequestsPerSecond = maxRequestsPerSecond;
+    this.maxConcurrency = maxConcurrency;
+    this.maxRetries = maxRetries;
+    this.baseDelayMs = baseDelayMs;
+    this.maxDelayMs = maxDelayMs;
+    this.tokens = requestsPerSecond;
+  }
+
+  // The current rate of the token bucket
+  get rate() {
+    return this.requestsPerSecond;
+  }
+
+  /**
+   * Runs `request` once the bucket and the concurrency limit allow it, retrying it while it's rate limited
+   */
+  async schedule<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+
+      let result: T;
+
+      try {
+        result = await request();
+      } catch (error) {
+        this.release();
+
+        if (!isRateLimitError(error) || attempt >= this.maxRetries) throw error;
+
+        await this.onRateLimited(
+          attempt,
+          error instanceof RateLimitError ? error.retryAfterMs : null,
+        );
+        continue;
+      }
+
+      this.release();
+      this.onSuccess();
+
+      return result;
+    }
+  }
+
+  /**
+   * Wraps `fetchFn` so every request it sends is scheduled. Rate limited responses are retried, and returned once
+   * the retries are exhausted so the caller handles them as usual
+   */
+  wrapFetch(fetchFn: typeof fetch): typeof fetch {
+    return async (input, init) => {
+      try {
+        return await this.schedule(async () => {
+          const response = await fetchFn(input, init);
+
+          if (response.status === 429) {
+            throw new RateLimitError(
+              parseRetryAfterMs(response.headers.get("Retry-After")),
+              response,
+            );
+          }
+
+          return response;
+        });
+      } catch (error) {
+        if (error instanceof RateLimitError && error.response) return error.response;
+        throw error;
+      }
+    };
+  }
+
+  // A `fetch` that schedules every request, see `wrapFetch`
+  readonly fetch = this.wrapFetch(fetch);
+
+  private refill(now: number) {
+    this.tokens = Math.min(
+      this.requestsPerSecond,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond,
+    );
+    this.lastRefill = now;
+  }
+
+  private async acquire() {
+    for (;;) {
+      if (this.activeRequests >= this.maxConcurrency) {
+        await new Promise<void>((resolve) => this.slotWaiters.push(resolve));
+        continue;
+      }
+
+      const now = Date.now();
+      this.refill(now);
+
+      if (now >= this.pausedUntil && this.tokens >= 1) {
+        this.tokens -= 1;
+        this.activeRequests++;
+        return;
+      }
+
+      await sleep(
+        Math.max(this.pausedUntil - now, ((1 - this.tokens) / this.requestsPerSecond) * 1000),
+      );
+    }
+  }
+
+  private release() {
+    this.activeRequests--;
+    this.slotWaiters.shift()?.();
+  }
+
+  private onSuccess() {
+    this.requestsPerSecond = Math.min(
+      this.maxRequestsPerSecond,
+      this.requestsPerSecond + 1 / this.requestsPerSecond,
+    );
+  }
+
+  private async onRateLimited(attempt: number, retryAfterMs: number | null) {
+    this.requestsPerSecond = Math.max(this.minRequestsPerSecond, this.requestsPerSecond / 2);
+    this.tokens = Math.min(this.tokens, this.requestsPerSecond);
+
+    if (retryAfterMs !== null) {
+      // The endpoint limits all of our requests, so hold them all back
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfterMs);
+      return;
+    }
+
+    const backoffMs = Math.min(this.baseDelayMs * 2 ** attempt, this.maxDelayMs);
+    const jitter = 0.5 + Math.random();
+
+    await sleep(backoffMs * jitter);
+  }
+}
+
+// Shared by the connections created with `createScheduledConnection`, so they're limited together
+export const defaultRpcScheduler = new RpcScheduler();
+
+/**
+ * Creates a `Connection` whose HTTP requests go through `scheduler`
+ *
+ * The connection's own retries on rate limits are disabled, as the scheduler handles them.
+ */
+export function createScheduledConnection(
+  endpoint: string,
+  config: ConnectionConfig = {},
+  scheduler: RpcScheduler = defaultRpcScheduler,
+) {
+  return new Connection(endpoint, {
+    ...config,
+    fetch: scheduler.fetch,
+    disableRetryOnRateLimit: true,
+  });
+}
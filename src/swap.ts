@@ -0,0 +1,132 @@
+import { BN } from "@coral-xyz/anchor";
+import { BPS_POWER } from "./constants";
+import {
+  getCustodyFeeBps,
+  tokenAmountToUsd,
+  usdToTokenAmount,
+} from "./liquidity-fees";
+import { Custody, Pool } from "./types";
+
+// Mirrors the amounts emitted in `PoolSwapEvent`
+export interface SwapQuote {
+  // The USD value of `amountIn`
+  swapUsdAmount: BN;
+  // The dispensed token amount before fees
+  amountOut: BN;
+  // The dispensed token amount the user receives
+  amountOutAfterFees: BN;
+  // The fee charged, in the dispensed token
+  fee: BN;
+  feeBps: BN;
+}
+
+/**
+ * Fee (in BPS) for swapping `swapUsdAmount` from `receivingCustody` (the custody the user's tokens go into) to
+ * `dispensingCustody` (the custody the user's tokens come out of).
+ *
+ * Stable to stable swaps use the cheaper `stableSwapBps` / `stableSwapTaxBps`, everything else `swapBps` /
+ * `taxBps`. Both legs of the swap are priced with the pool's target weight fee curve and the larger fee is charged.
+ */
+export function getSwapFeeBps({
+  pool,
+  receivingCustody,
+  dispensingCustody,
+  receivingTokenPrice,
+  dispensingTokenPrice,
+  swapUsdAmount,
+  poolAumUsd = pool.aumUsd,
+}: {
+  pool: Pool;
+  receivingCustody: Custody;
+  dispensingCustody: Custody;
+  receivingTokenPrice: BN;
+  dispensingTokenPrice: BN;
+  swapUsdAmount: BN;
+  poolAumUsd?: BN;
+}): BN {
+  const isStableSwap = receivingCustody.isStable && dispensingCustody.isStable;
+  const baseFeeBps = isStableSwap ? pool.fees.stableSwapBps : pool.fees.swapBps;
+  const taxBps = isStableSwap ? pool.fees.stableSwapTaxBps : pool.fees.taxBps;
+
+  const receivingFeeBps = getCustodyFeeBps({
+    custody: receivingCustody,
+    poolAumUsd,
+    tokenPrice: receivingTokenPrice,
+    amountUsd: swapUsdAmount,
+    isIncrease: true,
+    baseFeeBps,
+    taxBps,
+  });
+
+  const dispensingFeeBps = getCustodyFeeBps({
+    custody: dispensingCustody,
+    poolAumUsd,
+    tokenPrice: dispensingTokenPrice,
+    amountUsd: swapUsdAmount,
+    isIncrease: false,
+    baseFeeBps,
+    taxBps,
+  });
+
+  return BN.max(receivingFeeBps, dispensingFeeBps);
+}
+
+/**
+ * Quotes a `swap2` of `amountIn` from `receivingCustody` to `dispensingCustody` without an RPC simulation
+ *
+ * @param receivingTokenPrice The input token's price (6 decimals)
+ * @param dispensingTokenPrice The output token's price (6 decimals)
+ */
+export function quoteSwapOffline({
+  pool,
+  receivingCustody,
+  dispensingCustody,
+  receivingTokenPrice,
+  dispensingTokenPrice,
+  amountIn,
+  poolAumUsd = pool.aumUsd,
+}: {
+  pool: Pool;
+  receivingCustody: Custody;
+  dispensingCustody: Custody;
+  receivingTokenPrice: BN;
+  dispensingTokenPrice: BN;
+  amountIn: BN;
+  poolAumUsd?: BN;
+}): SwapQuote {
+  const swapUsdAmount = tokenAmountToUsd(
+    receivingCustody,
+    amountIn,
+    receivingTokenPrice,
+  );
+
+  const amountOut = usdToTokenAmount(
+    dispensingCustody,
+    swapUsdAmount,
+    dispensingTokenPrice,
+  );
+
+  if (amountOut.gt(dispensingCustody.assets.owned.sub(dispensingCustody.assets.locked))) {
+    throw new Error("Not enough unlocked liquidity in the dispensing custody");
+  }
+
+  const feeBps = getSwapFeeBps({
+    pool,
+    receivingCustody,
+    dispensingCustody,
+    receivingTokenPrice,
+    dispensingTokenPrice,
+    swapUsdAmount,
+    poolAumUsd,
+  });
+
+  const fee = amountOut.mul(feeBps).div(BPS_POWER);
+
+  return {
+    swapUsdAmount,
+    amountOut,
+    amountOutAfterFees: amountOut.sub(fee),
+    fee,
+    feeBps,
+  };
+}
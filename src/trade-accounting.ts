@@ -0,0 +1,245 @@
+import { BN } from "@coral-xyz/anchor";
+import { DecodedEvent } from "./events";
+import { FillFeeBreakdown, getFillFeeBreakdown } from "./trade-fees";
+import { Trade, TradeFill } from "./trades";
+import { Custody } from "./types";
+
+export type LotMethod = "fifo" | "average-cost";
+
+// An increase fill, reduced as decreases are allocated against it
+export interface Lot<Event extends DecodedEvent = DecodedEvent> {
+  fill: TradeFill<Event>;
+  entryPrice: BN;
+  // The lot's size that's still open
+  sizeUsd: BN;
+  // The lot's open and price impact fees that haven't been allocated to a close yet
+  openFeeUsd: BN;
+  // The borrow fee settled by the lot's increase that hasn't been allocated to a close yet
+  fundingUsd: BN;
+}
+
+// The part of a close allocated against a single lot. Lots keep shrinking as later closes are allocated, so only
+// the lot's increase and its own entry price are kept
+export interface LotAllocation<Event extends DecodedEvent = DecodedEvent> {
+  lotFill: TradeFill<Event>;
+  lotEntryPrice: BN;
+  sizeUsd: BN;
+  // The lot's entry price for FIFO, the position's average entry price for average-cost
+  entryPrice: BN;
+  pnlUsd: BN;
+  openFeeUsd: BN;
+  fundingUsd: BN;
+}
+
+// A decrease or liquidation with its realized PNL, fees and funding attributed
+export interface RealizedClose<Event extends DecodedEvent = DecodedEvent> {
+  fill: TradeFill<Event>;
+  allocations: LotAllocation<Event>[];
+  // The closed size that couldn't be allocated because the lots are missing, e.g. when the opening increase is
+  // older than the fetched events
+  unallocatedSizeUsd: BN;
+  // The price PNL of the allocated lots
+  realizedPnlUsd: BN;
+  // The PNL reported by the program, based on the position's average entry price
+  reportedPnlUsd: BN;
+  // The split of the fill's fee, see `getFillFeeBreakdown`
+  fees: FillFeeBreakdown;
+  // The open fees of the allocated lots
+  openFeeUsd: BN;
+  // The close, price impact and liquidation fees of the fill
+  closeFeeUsd: BN;
+  // The borrow fees settled by the fill and by the increases of the allocated lots
+  fundingUsd: BN;
+  // `realizedPnlUsd` less the open fees, close fee and funding
+  netPnlUsd: BN;
+}
+
+export interface TradeAccounting<Event extends DecodedEvent = DecodedEvent> {
+  trade: Trade<Event>;
+  method: LotMethod;
+  closes: RealizedClose<Event>[];
+  // The lots still open, with their remaining size
+  openLots: Lot<Event>[];
+  realizedPnlUsd: BN;
+  feesUsd: BN;
+  fundingUsd: BN;
+  netPnlUsd: BN;
+}
+
+export interface TradeAccountingOptions {
+  method?: LotMethod;
+}
+
+// Scales the token quantities used to average the entry prices
+const QUANTITY_PRECISION = new BN(10).pow(new BN(12));
+
+// The price PNL of `sizeUsd` (USD notional at entry) opened at `entryPrice` and closed at `exitPrice`
+function getPricePnl(
+  sizeUsd: BN,
+  entryPrice: BN,
+  exitPrice: BN,
+  positionSide: Trade["positionSide"],
+) {
+  if (entryPrice.isZero()) return new BN(0);
+
+  const pnl = sizeUsd.mul(exitPrice.sub(entryPrice)).div(entryPrice);
+
+  return positionSide === "long" ? pnl : pnl.neg();
+}
+
+// The average entry price weighted by the lots' token quantities, as the program averages a position's price
+function getAverageEntryPrice(lots: Lot[]) {
+  const totalSizeUsd = lots.reduce((acc, lot) => acc.add(lot.sizeUsd), new BN(0));
+  const totalQuantity = lots.reduce(
+    (acc, lot) =>
+      lot.entryPrice.isZero()
+        ? acc
+        : acc.add(lot.sizeUsd.mul(QUANTITY_PRECISION).div(lot.entryPrice)),
+    new BN(0),
+  );
+
+  return totalQuantity.isZero()
+    ? new BN(0)
+    : totalSizeUsd.mul(QUANTITY_PRECISION).div(totalQuantity);
+}
+
+// Splits `sizeUsd` across the lots: oldest first for FIFO, pro rata to their open size for average-cost
+function allocateSize(lots: Lot[], sizeUsd: BN, method: LotMethod) {
+  const openSizeUsd = lots.reduce((acc, lot) => acc.add(lot.sizeUsd), new BN(0));
+  const allocatedSizeUsd = BN.min(sizeUsd, openSizeUsd);
+
+  if (method === "fifo") {
+    let remaining = allocatedSizeUsd;
+
+    return lots.map((lot) => {
+      const size = BN.min(lot.sizeUsd, remaining);
+      remaining = remaining.sub(size);
+      return size;
+    });
+  }
+
+  let remaining = allocatedSizeUsd;
+
+  return lots.map((lot, i) => {
+    // The last lot takes the rounding remainder
+    const size =
+      i === lots.length - 1
+        ? remaining
+        : allocatedSizeUsd.mul(lot.sizeUsd).div(openSizeUsd);
+    remaining = remaining.sub(size);
+    return size;
+  });
+}
+
+/**
+ * Allocates a trade's decreases and liquidation against its increases (lots), attributing realized PNL, fees and
+ * funding to every partial close
+ *
+ * With `fifo` each close is realized against the oldest open lots at their own entry price. With `average-cost`
+ * it's realized pro rata against every open lot at the position's average entry price, which matches the PNL
+ * reported by the program. A close that leaves the position empty closes every open lot.
+ *
+ * The events report a fill's fees as a single `feeUsd`, which is split into trading fees and funding (borrow
+ * fees) with `getFillFeeBreakdown`, so the accounting agrees with `getTradeFeeBreakdown`.
+ *
+ * @param custodies The custody accounts keyed by their public key, as of the trade for exact fee splits
+ */
+export function getTradeAccounting<Event extends DecodedEvent>(
+  trade: Trade<Event>,
+  custodies: Record<string, Custody>,
+  { method = "fifo" }: TradeAccountingOptions = {},
+): TradeAccounting<Event> {
+  const custody = custodies[trade.positionCustody.toBase58()];
+
+  if (!custody) {
+    throw new Error(`Missing custody ${trade.positionCustody.toBase58()} for trade ${trade.id}`);
+  }
+
+  let openLots: Lot<Event>[] = [];
+  const closes: RealizedClose<Event>[] = [];
+
+  trade.fills.forEach((fill) => {
+    const fees = getFillFeeBreakdown(custody, fill);
+
+    if (fill.side === "increase") {
+      openLots.push({
+        fill,
+        entryPrice: fill.price,
+        sizeUsd: fill.sizeUsd,
+        openFeeUsd: fees.openFeeUsd.add(fees.priceImpactFeeUsd),
+        fundingUsd: fees.borrowFeeUsd,
+      });
+      return;
+    }
+
+    const closesPosition = fill.positionSizeUsd.isZero();
+    const openSizeUsd = openLots.reduce((acc, lot) => acc.add(lot.sizeUsd), new BN(0));
+    const sizeUsd = closesPosition ? BN.max(fill.sizeUsd, openSizeUsd) : fill.sizeUsd;
+    const averageEntryPrice = getAverageEntryPrice(openLots);
+
+    const allocations = allocateSize(openLots, sizeUsd, method).flatMap(
+      (allocatedSizeUsd, i): LotAllocation<Event>[] => {
+        const lot = openLots[i];
+
+        if (allocatedSizeUsd.isZero()) return [];
+
+        const entryPrice = method === "fifo" ? lot.entryPrice : averageEntryPrice;
+        const allocate = (value: BN) =>
+          allocatedSizeUsd.eq(lot.sizeUsd) ? value : value.mul(allocatedSizeUsd).div(lot.sizeUsd);
+        const openFeeUsd = allocate(lot.openFeeUsd);
+        const fundingUsd = allocate(lot.fundingUsd);
+
+        lot.sizeUsd = lot.sizeUsd.sub(allocatedSizeUsd);
+        lot.openFeeUsd = lot.openFeeUsd.sub(openFeeUsd);
+        lot.fundingUsd = lot.fundingUsd.sub(fundingUsd);
+
+        return [
+          {
+            lotFill: lot.fill,
+            lotEntryPrice: lot.entryPrice,
+            sizeUsd: allocatedSizeUsd,
+            entryPrice,
+            pnlUsd: getPricePnl(allocatedSizeUsd, entryPrice, fill.price, trade.positionSide),
+            openFeeUsd,
+            fundingUsd,
+          },
+        ];
+      },
+    );
+
+    openLots = openLots.filter((lot) => !lot.sizeUsd.isZero());
+
+    const closeFeeUsd = fees.closeFeeUsd.add(fees.priceImpactFeeUsd).add(fees.liquidationFeeUsd);
+    const realizedPnlUsd = allocations.reduce((acc, a) => acc.add(a.pnlUsd), new BN(0));
+    const openFeeUsd = allocations.reduce((acc, a) => acc.add(a.openFeeUsd), new BN(0));
+    const fundingUsd = allocations.reduce((acc, a) => acc.add(a.fundingUsd), fees.borrowFeeUsd);
+    const allocatedSizeUsd = allocations.reduce((acc, a) => acc.add(a.sizeUsd), new BN(0));
+
+    closes.push({
+      fill,
+      allocations,
+      unallocatedSizeUsd: sizeUsd.sub(allocatedSizeUsd),
+      realizedPnlUsd,
+      reportedPnlUsd: fill.pnlUsd,
+      fees,
+      openFeeUsd,
+      closeFeeUsd,
+      fundingUsd,
+      netPnlUsd: realizedPnlUsd.sub(openFeeUsd).sub(closeFeeUsd).sub(fundingUsd),
+    });
+  });
+
+  const sum = (getValue: (close: RealizedClose<Event>) => BN) =>
+    closes.reduce((acc, close) => acc.add(getValue(close)), new BN(0));
+
+  return {
+    trade,
+    method,
+    closes,
+    openLots,
+    realizedPnlUsd: sum((close) => close.realizedPnlUsd),
+    feesUsd: sum((close) => close.openFeeUsd.add(close.closeFeeUsd)),
+    fundingUsd: sum((close) => close.fundingUsd),
+    netPnlUsd: sum((close) => close.netPnlUsd),
+  };
+}
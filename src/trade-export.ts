@@ -0,0 +1,174 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { USDC_DECIMALS } from "./constants";
+import { isEventOfType } from "./events";
+import { getFillFeeBreakdown } from "./trade-fees";
+import { Trade, TradeFill } from "./trades";
+import { Custody } from "./types";
+import { BNToUSDRepresentation, getAssetNameFromCustody } from "./utils";
+
+export type ExportFormat = "csv" | "json";
+
+// One row per fill. USD values are decimal strings, token amounts are in the token's atomic units
+export interface FillExportRow {
+  // ISO timestamp of the fill's block, empty when the RPC node didn't have the block time
+  timestamp: string;
+  tradeId: string;
+  asset: string;
+  side: Trade["positionSide"];
+  action: TradeFill["side"];
+  orderType: TradeFill["orderType"];
+  sizeUsd: string;
+  price: string;
+  openFeeUsd: string;
+  closeFeeUsd: string;
+  priceImpactFeeUsd: string;
+  borrowFeeUsd: string;
+  liquidationFeeUsd: string;
+  totalFeeUsd: string;
+  realizedPnlUsd: string;
+  // The token the trader paid the collateral with, for increases
+  tokenInMint: string;
+  tokenInAmount: string;
+  // The token the trader received, for decreases and liquidations
+  tokenOutMint: string;
+  tokenOutAmount: string;
+  signature: string;
+}
+
+const FILL_EXPORT_COLUMNS: (keyof FillExportRow)[] = [
+  "timestamp",
+  "tradeId",
+  "asset",
+  "side",
+  "action",
+  "orderType",
+  "sizeUsd",
+  "price",
+  "openFeeUsd",
+  "closeFeeUsd",
+  "priceImpactFeeUsd",
+  "borrowFeeUsd",
+  "liquidationFeeUsd",
+  "totalFeeUsd",
+  "realizedPnlUsd",
+  "tokenInMint",
+  "tokenInAmount",
+  "tokenOutMint",
+  "tokenOutAmount",
+  "signature",
+];
+
+const formatUsd = (value: BN) =>
+  BNToUSDRepresentation(value, USDC_DECIMALS, USDC_DECIMALS);
+
+// The tokens transferred by the fill. Requests can be paid and settled in another token than the collateral, in
+// which case the program swaps them
+function getFillTokens(fill: TradeFill, collateralCustody: Custody | undefined) {
+  const token = (mint: PublicKey | undefined, amount: BN | null) => ({
+    mint: mint?.toBase58() ?? "",
+    amount: amount?.toString() ?? "",
+  });
+  const none = token(undefined, null);
+  const { event } = fill;
+
+  if (isEventOfType(event, ["IncreasePositionEvent"])) {
+    const { positionRequestMint, positionRequestCollateralDelta } = event.event.data;
+    return { tokenIn: token(positionRequestMint, positionRequestCollateralDelta), tokenOut: none };
+  }
+
+  if (isEventOfType(event, ["InstantIncreasePositionEvent"])) {
+    const { collateralTokenDelta } = event.event.data;
+    return { tokenIn: token(collateralCustody?.mint, collateralTokenDelta), tokenOut: none };
+  }
+
+  if (isEventOfType(event, ["DecreasePositionEvent"])) {
+    const { positionRequestMint, transferToken } = event.event.data;
+    return { tokenIn: none, tokenOut: token(positionRequestMint, transferToken) };
+  }
+
+  if (isEventOfType(event, ["InstantDecreasePositionEvent"])) {
+    const { desiredMint, transferToken } = event.event.data;
+    return { tokenIn: none, tokenOut: token(desiredMint, transferToken) };
+  }
+
+  if (isEventOfType(event, ["LiquidateFullPositionEvent"])) {
+    const { positionCollateralMint, transferToken } = event.event.data;
+    return { tokenIn: none, tokenOut: token(positionCollateralMint, transferToken) };
+  }
+
+  return { tokenIn: none, tokenOut: none };
+}
+
+/**
+ * Flattens trades into one row per fill, oldest first
+ *
+ * @param custodies The custody accounts keyed by their public key, used to split the fees (see
+ * `getFillFeeBreakdown`) and to resolve the collateral mint of instant increases
+ */
+export function getFillExportRows(
+  trades: Trade[],
+  custodies: Record<string, Custody>,
+): FillExportRow[] {
+  return trades
+    .flatMap((trade) => trade.fills.map((fill) => ({ trade, fill })))
+    // A trade's fills are already in order, so a stable sort by slot is enough
+    .sort((a, b) => a.fill.event.slot - b.fill.event.slot)
+    .map(({ trade, fill }) => {
+      const custody = custodies[trade.positionCustody.toBase58()];
+
+      if (!custody) {
+        throw new Error(`Missing custody ${trade.positionCustody.toBase58()} for trade ${trade.id}`);
+      }
+
+      const fees = getFillFeeBreakdown(custody, fill);
+      const { tokenIn, tokenOut } = getFillTokens(
+        fill,
+        custodies[trade.positionCollateralCustody.toBase58()],
+      );
+      const { blockTime, signature } = fill.event;
+
+      return {
+        timestamp: blockTime ? new Date(blockTime * 1000).toISOString() : "",
+        tradeId: trade.id,
+        asset: getAssetNameFromCustody(trade.positionCustody.toBase58()),
+        side: trade.positionSide,
+        action: fill.side,
+        orderType: fill.orderType,
+        sizeUsd: formatUsd(fill.sizeUsd),
+        price: formatUsd(fill.price),
+        openFeeUsd: formatUsd(fees.openFeeUsd),
+        closeFeeUsd: formatUsd(fees.closeFeeUsd),
+        priceImpactFeeUsd: formatUsd(fees.priceImpactFeeUsd),
+        borrowFeeUsd: formatUsd(fees.borrowFeeUsd),
+        liquidationFeeUsd: formatUsd(fees.liquidationFeeUsd),
+        totalFeeUsd: formatUsd(fill.feeUsd),
+        realizedPnlUsd: formatUsd(fill.pnlUsd),
+        tokenInMint: tokenIn.mint,
+        tokenInAmount: tokenIn.amount,
+        tokenOutMint: tokenOut.mint,
+        tokenOutAmount: tokenOut.amount,
+        signature,
+      };
+    });
+}
+
+// Quotes the values that contain a delimiter, quote or newline (RFC 4180)
+const escapeCsvValue = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function formatFillExportRows(
+  rows: FillExportRow[],
+  format: ExportFormat,
+): string {
+  if (format === "json") {
+    return JSON.stringify(rows, null, 2);
+  }
+
+  return [
+    FILL_EXPORT_COLUMNS.join(","),
+    ...rows.map((row) =>
+      FILL_EXPORT_COLUMNS.map((column) => escapeCsvValue(row[column])).join(","),
+    ),
+  ].join("\n");
+}
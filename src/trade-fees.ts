@@ -0,0 +1,125 @@
+import { BN } from "@coral-xyz/anchor";
+import { BPS_POWER } from "./constants";
+import { DecodedEvent, isEventOfType } from "./events";
+import { getBaseFeeUsd, getPriceImpactFeeUsd } from "./fees";
+import { Trade, TradeFill } from "./trades";
+import { Custody } from "./types";
+
+export interface FillFeeBreakdown {
+  openFeeUsd: BN;
+  closeFeeUsd: BN;
+  priceImpactFeeUsd: BN;
+  borrowFeeUsd: BN;
+  liquidationFeeUsd: BN;
+  // The base and price impact fees computed with the custody, before they're capped by the fill's fee
+  expectedFeeUsd: BN;
+}
+
+// A fill whose reported fee is lower than the base and price impact fees computed for it, meaning the custody's
+// fee parameters changed since the fill or the fee formulas don't match the program
+export interface FeeDiscrepancy<Event extends DecodedEvent = DecodedEvent> {
+  fill: TradeFill<Event>;
+  // The fill's fee less the liquidation fee
+  reportedFeeUsd: BN;
+  expectedFeeUsd: BN;
+}
+
+export interface TradeFeeBreakdown<Event extends DecodedEvent = DecodedEvent> {
+  openFeeUsd: BN;
+  closeFeeUsd: BN;
+  priceImpactFeeUsd: BN;
+  borrowFeeUsd: BN;
+  liquidationFeeUsd: BN;
+  // Fees of the swaps between the request's token and the collateral token, not included in `totalFeesUsd`
+  swapFeeUsd: BN;
+  // The trade's `totalFeesUsd` and the swap fees
+  totalFeeUsd: BN;
+  fills: FillFeeBreakdown[];
+  discrepancies: FeeDiscrepancy<Event>[];
+}
+
+/**
+ * Splits a fill's fee into its base (open or close), price impact, borrow and liquidation fees
+ *
+ * The events only report the total fee (and the liquidation fee), so the base and price impact fees are computed
+ * from the custody's `increasePositionBps` / `decreasePositionBps` and `tradeImpactFeeScalar`, and the rest of
+ * the fee is the borrow fee settled by the fill. Pass the custody as of the fill for exact values, the current
+ * custody gives an estimate if its fee parameters changed since.
+ */
+export function getFillFeeBreakdown(
+  custody: Custody,
+  fill: TradeFill,
+): FillFeeBreakdown {
+  const liquidationFeeUsd = isEventOfType(fill.event, ["LiquidateFullPositionEvent"])
+    ? fill.event.event.data.liquidationFeeUsd
+    : new BN(0);
+  const isOpen = fill.side === "increase";
+  const expectedBaseFeeUsd = getBaseFeeUsd(custody, fill.sizeUsd, isOpen);
+  const expectedPriceImpactFeeUsd = getPriceImpactFeeUsd(custody, fill.sizeUsd);
+
+  // Each component is capped by what's left of the fee so the components always add up to it
+  let remainingFeeUsd = fill.feeUsd.sub(liquidationFeeUsd);
+  const baseFeeUsd = BN.min(remainingFeeUsd, expectedBaseFeeUsd);
+  remainingFeeUsd = remainingFeeUsd.sub(baseFeeUsd);
+  const priceImpactFeeUsd = BN.min(remainingFeeUsd, expectedPriceImpactFeeUsd);
+
+  return {
+    openFeeUsd: isOpen ? baseFeeUsd : new BN(0),
+    closeFeeUsd: isOpen ? new BN(0) : baseFeeUsd,
+    priceImpactFeeUsd,
+    borrowFeeUsd: remainingFeeUsd.sub(priceImpactFeeUsd),
+    liquidationFeeUsd,
+    expectedFeeUsd: expectedBaseFeeUsd.add(expectedPriceImpactFeeUsd),
+  };
+}
+
+// The fee of a pool swap: the swapped USD amount at the swap's fee rate
+export const getSwapFeeUsd = (evt: DecodedEvent) =>
+  isEventOfType(evt, ["PoolSwapEvent", "PoolSwapExactOutEvent"])
+    ? evt.event.data.swapUsdAmount.mul(evt.event.data.feeBps).div(BPS_POWER)
+    : new BN(0);
+
+/**
+ * Sums the fee breakdowns of a trade's fills (see `getFillFeeBreakdown`) and adds the fees of the swaps executed
+ * with them
+ *
+ * Each fill's breakdown is checked against the base and price impact fee formulas: fills that paid less than the
+ * formulas expect are returned in `discrepancies`, as their split is an estimate.
+ *
+ * @param custodies The custody accounts keyed by their public key
+ */
+export function getTradeFeeBreakdown<Event extends DecodedEvent>(
+  trade: Trade<Event>,
+  custodies: Record<string, Custody>,
+): TradeFeeBreakdown<Event> {
+  const custody = custodies[trade.positionCustody.toBase58()];
+
+  if (!custody) {
+    throw new Error(`Missing custody ${trade.positionCustody.toBase58()} for trade ${trade.id}`);
+  }
+
+  const fills = trade.fills.map((fill) => getFillFeeBreakdown(custody, fill));
+  const discrepancies = trade.fills.flatMap((fill, i): FeeDiscrepancy<Event>[] => {
+    const reportedFeeUsd = fill.feeUsd.sub(fills[i].liquidationFeeUsd);
+
+    return reportedFeeUsd.lt(fills[i].expectedFeeUsd)
+      ? [{ fill, reportedFeeUsd, expectedFeeUsd: fills[i].expectedFeeUsd }]
+      : [];
+  });
+
+  const sum = (getValue: (fees: FillFeeBreakdown) => BN) =>
+    fills.reduce((acc, fees) => acc.add(getValue(fees)), new BN(0));
+  const swapFeeUsd = trade.events.reduce((acc, evt) => acc.add(getSwapFeeUsd(evt)), new BN(0));
+
+  return {
+    openFeeUsd: sum((fees) => fees.openFeeUsd),
+    closeFeeUsd: sum((fees) => fees.closeFeeUsd),
+    priceImpactFeeUsd: sum((fees) => fees.priceImpactFeeUsd),
+    borrowFeeUsd: sum((fees) => fees.borrowFeeUsd),
+    liquidationFeeUsd: sum((fees) => fees.liquidationFeeUsd),
+    swapFeeUsd,
+    totalFeeUsd: trade.totalFeesUsd.add(swapFeeUsd),
+    fills,
+    discrepancies,
+  };
+}
@@ -0,0 +1,454 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { BPS_POWER } from "./constants";
+import { DecodedEvent, isEventOfType, sortEvents } from "./events";
+import { LiquidationReport, getLiquidationReport } from "./liquidation-report";
+import { TradeFeeBreakdown, getTradeFeeBreakdown } from "./trade-fees";
+import { Custody } from "./types";
+
+export type TradeStatus = "active" | "closed" | "liquidated";
+
+// How a fill was executed. `trigger` fills are executed by the keepers for limit orders (increases) and TP/SL
+// orders (decreases), `market` fills for market position requests and `instant` fills by the instant
+// instructions
+export type FillOrderType = "market" | "trigger" | "instant";
+
+// A single execution that changed the position's size
+export interface TradeFill<Event extends DecodedEvent = DecodedEvent> {
+  side: "increase" | "decrease" | "liquidation";
+  orderType: FillOrderType;
+  sizeUsd: BN;
+  // The collateral added by increases, zero for decreases and liquidations
+  collateralUsd: BN;
+  price: BN;
+  feeUsd: BN;
+  // Realized PNL, negative for losses. Zero for increases
+  pnlUsd: BN;
+  // The position's size after the fill
+  positionSizeUsd: BN;
+  event: Event;
+}
+
+// A TP/SL order attached to a trade, updated in place by `InstantUpdateTpslEvent`
+export interface TpslOrder {
+  positionRequestKey: PublicKey;
+  sizeUsdDelta: BN;
+  entirePosition: boolean;
+  createdTime: number | null;
+  updatedTime: number | null;
+}
+
+// All USD values are in USD with 6 decimals, as emitted by the program
+export interface Trade<Event extends DecodedEvent = DecodedEvent> {
+  // Unique ID combining the position key and the position's lifecycle count, as a position PDA is reused
+  // once it's closed
+  id: string;
+  positionKey: PublicKey;
+  positionSide: "long" | "short";
+  status: TradeStatus;
+  owner: PublicKey;
+  positionCustody: PublicKey;
+  positionCollateralCustody: PublicKey;
+  entryPrice: BN;
+  exitPrice: BN | null;
+  sizeUsd: BN;
+  // The maximum size the position reached
+  maxSizeUsd: BN;
+  // The size reported for a completed trade (the maximum size the position reached)
+  finalSizeUsd: BN | null;
+  collateralUsd: BN;
+  // Realized PNL, negative for losses
+  pnlUsd: BN;
+  totalFeesUsd: BN;
+  // `totalFeesUsd` split into its components, null unless the custodies are passed to `groupEventsIntoTrades`
+  fees: TradeFeeBreakdown<Event> | null;
+  // Set for liquidated trades when the custodies are passed to `groupEventsIntoTrades`
+  liquidationReport: LiquidationReport<Event> | null;
+  openTime: number | null;
+  closeTime: number | null;
+  fills: TradeFill<Event>[];
+  tpslOrders: TpslOrder[];
+  // The trade's events including auxiliary events (swaps, TP/SL and limit order requests)
+  events: Event[];
+}
+
+export type TradeTransition =
+  | "opened"
+  | "increased"
+  | "decreased"
+  | "closed"
+  | "liquidated"
+  | "tpslCreated"
+  | "tpslUpdated";
+
+export interface TradeUpdate<Event extends DecodedEvent = DecodedEvent> {
+  transition: TradeTransition;
+  trade: Trade<Event>;
+}
+
+export const POSITION_EVENT_NAMES = [
+  "IncreasePositionEvent",
+  "InstantIncreasePositionEvent",
+  "DecreasePositionEvent",
+  "InstantDecreasePositionEvent",
+  "LiquidateFullPositionEvent",
+  "InstantCreateTpslEvent",
+  "InstantUpdateTpslEvent",
+  "InstantCreateLimitOrderEvent",
+] as const;
+
+// The program emits `positionSide` as 1 for longs and 2 for shorts
+const toPositionSide = (positionSide: number) =>
+  positionSide === 1 ? "long" : "short";
+
+// `positionRequestType` follows the IDL's `RequestType` enum: 0 for market and 1 for trigger requests
+const toOrderType = (positionRequestType: number): FillOrderType =>
+  positionRequestType === 1 ? "trigger" : "market";
+
+const toSignedPnl = (hasProfit: boolean, pnlDelta: BN) =>
+  hasProfit ? pnlDelta : pnlDelta.neg();
+
+/**
+ * A trade lifecycle state machine for the events of any number of positions
+ *
+ * Feed the events in the order they were emitted (see `sortEvents`) to `process`, which returns the transition
+ * the event caused. A trade spans from the increase that opens a position to the decrease or liquidation that
+ * closes it. Once closed, the next increase on the same position PDA opens a new trade. Limit orders placed
+ * before the position is opened are attached to the trade their fill opens.
+ */
+export class TradeTracker<Event extends DecodedEvent = DecodedEvent> {
+  // Keyed by the position key, a position has at most one active trade
+  private readonly active = new Map<string, Trade<Event>>();
+  private readonly completed: Trade<Event>[] = [];
+  private readonly lifecycleCounters = new Map<string, number>();
+  private readonly pendingLimitOrders = new Map<string, Event[]>();
+
+  get activeTrades() {
+    return Array.from(this.active.values());
+  }
+
+  get completedTrades() {
+    return [...this.completed];
+  }
+
+  getActiveTrade(positionKey: PublicKey | string) {
+    return this.active.get(new PublicKey(positionKey).toBase58()) ?? null;
+  }
+
+  /**
+   * Applies a position event to its trade
+   *
+   * @returns The resulting transition, or `null` for events that don't belong to a trade: auxiliary events,
+   * limit orders waiting to be filled and decrease, liquidation or TP/SL events without an opening increase
+   * (which is likely missing from the events)
+   */
+  process(evt: Event): TradeUpdate<Event> | null {
+    if (!isEventOfType(evt, POSITION_EVENT_NAMES)) return null;
+
+    const { event, blockTime } = evt;
+    const positionKey = event.data.positionKey.toBase58();
+    const trade = this.active.get(positionKey);
+
+    switch (event.name) {
+      case "IncreasePositionEvent":
+      case "InstantIncreasePositionEvent": {
+        const { data } = event;
+        const fill: TradeFill<Event> = {
+          side: "increase",
+          orderType:
+            event.name === "IncreasePositionEvent"
+              ? toOrderType(event.data.positionRequestType)
+              : "instant",
+          sizeUsd: data.sizeUsdDelta,
+          collateralUsd: data.collateralUsdDelta,
+          price: data.price,
+          feeUsd: data.feeUsd,
+          pnlUsd: new BN(0),
+          positionSizeUsd: data.positionSizeUsd,
+          event: evt,
+        };
+
+        if (trade) {
+          trade.sizeUsd = trade.sizeUsd.add(data.sizeUsdDelta);
+          trade.maxSizeUsd = BN.max(trade.maxSizeUsd, trade.sizeUsd);
+          trade.collateralUsd = trade.collateralUsd.add(data.collateralUsdDelta);
+          trade.totalFeesUsd = trade.totalFeesUsd.add(data.feeUsd);
+          trade.fills.push(fill);
+          trade.events.push(evt);
+
+          return { transition: "increased", trade };
+        }
+
+        const newTrade: Trade<Event> = {
+          id: `${positionKey}-${this.lifecycleCounters.get(positionKey) ?? 0}`,
+          positionKey: data.positionKey,
+          positionSide: toPositionSide(data.positionSide),
+          status: "active",
+          owner: data.owner,
+          positionCustody: data.positionCustody,
+          positionCollateralCustody: data.positionCollateralCustody,
+          entryPrice: data.price,
+          exitPrice: null,
+          sizeUsd: data.sizeUsdDelta,
+          maxSizeUsd: data.sizeUsdDelta,
+          finalSizeUsd: null,
+          collateralUsd: data.collateralUsdDelta,
+          pnlUsd: new BN(0),
+          totalFeesUsd: data.feeUsd,
+          fees: null,
+          liquidationReport: null,
+          openTime: blockTime,
+          closeTime: null,
+          fills: [fill],
+          tpslOrders: [],
+          events: [...(this.pendingLimitOrders.get(positionKey) ?? []), evt],
+        };
+
+        this.pendingLimitOrders.delete(positionKey);
+        this.active.set(positionKey, newTrade);
+
+        return { transition: "opened", trade: newTrade };
+      }
+
+      case "DecreasePositionEvent":
+      case "InstantDecreasePositionEvent": {
+        if (!trade) return null;
+
+        const { data } = event;
+        const pnlUsd = toSignedPnl(data.hasProfit, data.pnlDelta);
+
+        trade.exitPrice = data.price;
+        trade.pnlUsd = trade.pnlUsd.add(pnlUsd);
+        trade.totalFeesUsd = trade.totalFeesUsd.add(data.feeUsd);
+        trade.fills.push({
+          side: "decrease",
+          orderType:
+            event.name === "DecreasePositionEvent"
+              ? toOrderType(event.data.positionRequestType)
+              : "instant",
+          sizeUsd: data.sizeUsdDelta,
+          collateralUsd: new BN(0),
+          price: data.price,
+          feeUsd: data.feeUsd,
+          pnlUsd,
+          positionSizeUsd: data.positionSizeUsd,
+          event: evt,
+        });
+        trade.events.push(evt);
+
+        if (!data.positionSizeUsd.isZero()) {
+          trade.sizeUsd = trade.sizeUsd.sub(data.sizeUsdDelta);
+
+          return { transition: "decreased", trade };
+        }
+
+        trade.status = "closed";
+        this.complete(trade, blockTime);
+
+        return { transition: "closed", trade };
+      }
+
+      case "LiquidateFullPositionEvent": {
+        if (!trade) return null;
+
+        const { data } = event;
+        const pnlUsd = toSignedPnl(data.hasProfit, data.pnlDelta);
+
+        trade.status = "liquidated";
+        trade.exitPrice = data.price;
+        trade.pnlUsd = trade.pnlUsd.add(pnlUsd);
+        trade.totalFeesUsd = trade.totalFeesUsd
+          .add(data.feeUsd)
+          .add(data.liquidationFeeUsd);
+        trade.fills.push({
+          side: "liquidation",
+          orderType: "market",
+          sizeUsd: data.positionSizeUsd,
+          collateralUsd: new BN(0),
+          price: data.price,
+          feeUsd: data.feeUsd.add(data.liquidationFeeUsd),
+          pnlUsd,
+          positionSizeUsd: new BN(0),
+          event: evt,
+        });
+        trade.events.push(evt);
+        this.complete(trade, blockTime);
+
+        return { transition: "liquidated", trade };
+      }
+
+      case "InstantCreateTpslEvent":
+      case "InstantUpdateTpslEvent": {
+        if (!trade) return null;
+
+        const { data } = event;
+        const existingOrder = trade.tpslOrders.find((order) =>
+          order.positionRequestKey.equals(data.positionRequestKey),
+        );
+        const time =
+          event.name === "InstantCreateTpslEvent"
+            ? event.data.openTime.toNumber()
+            : event.data.updateTime.toNumber();
+
+        trade.events.push(evt);
+
+        if (existingOrder) {
+          existingOrder.sizeUsdDelta = data.sizeUsdDelta;
+          existingOrder.entirePosition = data.entirePosition;
+          existingOrder.updatedTime = time;
+
+          return { transition: "tpslUpdated", trade };
+        }
+
+        trade.tpslOrders.push({
+          positionRequestKey: data.positionRequestKey,
+          sizeUsdDelta: data.sizeUsdDelta,
+          entirePosition: data.entirePosition,
+          createdTime: event.name === "InstantCreateTpslEvent" ? time : null,
+          updatedTime: event.name === "InstantUpdateTpslEvent" ? time : null,
+        });
+
+        return {
+          transition:
+            event.name === "InstantCreateTpslEvent" ? "tpslCreated" : "tpslUpdated",
+          trade,
+        };
+      }
+
+      case "InstantCreateLimitOrderEvent": {
+        // A limit order on an open position increases it when filled, otherwise the fill opens a new trade
+        if (trade) {
+          trade.events.push(evt);
+        } else {
+          this.pendingLimitOrders.set(positionKey, [
+            ...(this.pendingLimitOrders.get(positionKey) ?? []),
+            evt,
+          ]);
+        }
+
+        return null;
+      }
+    }
+  }
+
+  private complete(trade: Trade<Event>, closeTime: number | null) {
+    const positionKey = trade.positionKey.toBase58();
+
+    trade.closeTime = closeTime;
+    trade.finalSizeUsd = trade.maxSizeUsd;
+    trade.sizeUsd = new BN(0);
+
+    this.completed.push(trade);
+    this.active.delete(positionKey);
+    this.lifecycleCounters.set(
+      positionKey,
+      (this.lifecycleCounters.get(positionKey) ?? 0) + 1,
+    );
+  }
+}
+
+/**
+ * Groups a position's events into trades with a `TradeTracker`
+ *
+ * Events are processed in the order they were emitted (see `sortEvents`). Auxiliary events (swaps, position
+ * requests and so on) are attached to the trade of the position event emitted by the same transaction.
+ * Decrease, liquidation and TP/SL events without a preceding open are returned as `unmatchedEvents`, as the
+ * opening event is likely missing from `events`.
+ *
+ * @param custodies The custody accounts keyed by their public key (see `PerpsClient.getCustodies`). When passed,
+ * every trade's fees are split with `getTradeFeeBreakdown` and liquidated trades get a `getLiquidationReport`
+ * @returns The open trades, the completed trades (newest first) and the position events that matched no trade
+ */
+export function groupEventsIntoTrades<Event extends DecodedEvent>(
+  events: Event[],
+  { custodies }: { custodies?: Record<string, Custody> } = {},
+): {
+  activeTrades: Trade<Event>[];
+  completedTrades: Trade<Event>[];
+  unmatchedEvents: Event[];
+} {
+  const sortedEvents = sortEvents(events);
+  const eventOrder = new Map(sortedEvents.map((evt, i) => [evt, i]));
+  const tracker = new TradeTracker<Event>();
+  const unmatchedEvents: Event[] = [];
+
+  // Auxiliary events are linked to their position event through the transaction signature
+  const auxiliaryEventsBySignature = new Map<string, Event[]>();
+
+  sortedEvents.forEach((evt) => {
+    if (isEventOfType(evt, POSITION_EVENT_NAMES)) return;
+
+    auxiliaryEventsBySignature.set(evt.signature, [
+      ...(auxiliaryEventsBySignature.get(evt.signature) ?? []),
+      evt,
+    ]);
+  });
+
+  for (const evt of sortedEvents) {
+    const update = tracker.process(evt);
+
+    if (!update) {
+      if (
+        isEventOfType(evt, POSITION_EVENT_NAMES) &&
+        evt.event.name !== "InstantCreateLimitOrderEvent"
+      ) {
+        unmatchedEvents.push(evt);
+      }
+
+      continue;
+    }
+
+    const { trade } = update;
+
+    (auxiliaryEventsBySignature.get(evt.signature) ?? []).forEach((auxEvt) => {
+      // Skip requests for other positions submitted in the same transaction
+      const belongsToOtherPosition =
+        "positionKey" in auxEvt.event.data &&
+        !auxEvt.event.data.positionKey.equals(trade.positionKey);
+
+      if (!belongsToOtherPosition && !trade.events.includes(auxEvt)) {
+        trade.events.push(auxEvt);
+      }
+    });
+  }
+
+  const finalizeTrade = (trade: Trade<Event>) => {
+    trade.events.sort((a, b) => (eventOrder.get(a) ?? 0) - (eventOrder.get(b) ?? 0));
+
+    if (custodies) {
+      trade.fees = getTradeFeeBreakdown(trade, custodies);
+      trade.liquidationReport = getLiquidationReport(trade, custodies);
+    }
+
+    return trade;
+  };
+
+  // Newest first
+  const completedTrades = tracker.completedTrades.sort(
+    (a, b) => (b.closeTime ?? 0) - (a.closeTime ?? 0),
+  );
+
+  return {
+    activeTrades: tracker.activeTrades.map(finalizeTrade),
+    completedTrades: completedTrades.map(finalizeTrade),
+    unmatchedEvents,
+  };
+}
+
+// The size used for display and for the leverage: the maximum size for completed trades, the current size otherwise
+export const getTradeSizeUsd = (trade: Trade) =>
+  trade.status !== "active" && trade.finalSizeUsd
+    ? trade.finalSizeUsd
+    : trade.sizeUsd;
+
+// Leverage in BPS, e.g. 25_000 for 2.5x
+export const getTradeLeverageBps = (trade: Trade) =>
+  trade.collateralUsd.isZero()
+    ? new BN(0)
+    : getTradeSizeUsd(trade).mul(BPS_POWER).div(trade.collateralUsd);
+
+// Realized PNL relative to the collateral in BPS, negative for losses
+export const getTradeRoiBps = (trade: Trade) =>
+  trade.collateralUsd.isZero()
+    ? new BN(0)
+    : trade.pnlUsd.mul(BPS_POWER).div(trade.collateralUsd);
@@ -0,0 +1,200 @@
+import { readFileSync, readdirSync } from "fs";
+import { extname, join } from "path";
+import { utils } from "@coral-xyz/anchor";
+import {
+  ConfirmedTransactionMeta,
+  Message,
+  MessageV0,
+  PublicKey,
+  VersionedMessage,
+  VersionedTransaction,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { DecodedEvent, decodeTransactionEvents } from "./events";
+
+// A `getTransaction` result as returned by the RPC with the "json" encoding
+interface RawJsonMessage {
+  header: Message["header"];
+  accountKeys: string[];
+  recentBlockhash: string;
+  instructions: { programIdIndex: number; accounts: number[]; data: string }[];
+  addressTableLookups?: {
+    accountKey: string;
+    writableIndexes: number[];
+    readonlyIndexes: number[];
+  }[];
+}
+
+interface RawTransactionResponse {
+  slot: number;
+  blockTime?: number | null;
+  version?: "legacy" | 0;
+  meta: (Omit<ConfirmedTransactionMeta, "loadedAddresses"> & {
+    loadedAddresses?: { writable: string[]; readonly: string[] };
+  }) | null;
+  // `[data, "base64"]` when the transaction was fetched with the "base64" encoding
+  transaction:
+    | { message: RawJsonMessage; signatures: string[] }
+    | [string, "base64"];
+}
+
+function toVersionedMessage(
+  message: RawJsonMessage,
+  version: RawTransactionResponse["version"],
+): VersionedMessage {
+  if (version === 0) {
+    return new MessageV0({
+      header: message.header,
+      staticAccountKeys: message.accountKeys.map((key) => new PublicKey(key)),
+      recentBlockhash: message.recentBlockhash,
+      compiledInstructions: message.instructions.map((ix) => ({
+        programIdIndex: ix.programIdIndex,
+        accountKeyIndexes: ix.accounts,
+        data: utils.bytes.bs58.decode(ix.data),
+      })),
+      addressTableLookups: (message.addressTableLookups ?? []).map((lookup) => ({
+        ...lookup,
+        accountKey: new PublicKey(lookup.accountKey),
+      })),
+    });
+  }
+
+  return new Message({
+    header: message.header,
+    accountKeys: message.accountKeys,
+    recentBlockhash: message.recentBlockhash,
+    instructions: message.instructions,
+  });
+}
+
+/**
+ * Converts a saved `getTransaction` response into the `VersionedTransactionResponse` returned by
+ * `Connection.getTransaction`, so it can be passed to `decodeTransactionEvents`
+ *
+ * Accepts either the bare result or the full JSON-RPC response (`{ jsonrpc, id, result }`), fetched with the
+ * "json" or "base64" encoding. The "jsonParsed" encoding isn't supported as it drops the instruction data of
+ * inner instructions it can parse.
+ *
+ * @returns `null` when the saved response has no result, i.e. the transaction wasn't found
+ */
+export function parseTransactionResponse(
+  json: unknown,
+): VersionedTransactionResponse | null {
+  const raw = (
+    json && typeof json === "object" && "jsonrpc" in json && "result" in json
+      ? json.result
+      : json
+  ) as RawTransactionResponse | null;
+
+  if (!raw) {
+    return null;
+  }
+
+  if (!raw.transaction || !("slot" in raw)) {
+    throw new Error("Not a getTransaction response");
+  }
+
+  let transaction: VersionedTransactionResponse["transaction"];
+
+  if (Array.isArray(raw.transaction)) {
+    const [data, encoding] = raw.transaction;
+
+    if (encoding !== "base64") {
+      throw new Error(`Unsupported transaction encoding: ${encoding}`);
+    }
+
+    const tx = VersionedTransaction.deserialize(Buffer.from(data, "base64"));
+    transaction = {
+      message: tx.message,
+      signatures: tx.signatures.map((signature) =>
+        utils.bytes.bs58.encode(signature),
+      ),
+    };
+  } else {
+    transaction = {
+      message: toVersionedMessage(raw.transaction.message, raw.version),
+      signatures: raw.transaction.signatures,
+    };
+  }
+
+  const meta: ConfirmedTransactionMeta | null = raw.meta && {
+    ...raw.meta,
+    loadedAddresses: raw.meta.loadedAddresses && {
+      writable: raw.meta.loadedAddresses.writable.map((key) => new PublicKey(key)),
+      readonly: raw.meta.loadedAddresses.readonly.map((key) => new PublicKey(key)),
+    },
+  };
+
+  return {
+    slot: raw.slot,
+    blockTime: raw.blockTime,
+    version: raw.version,
+    meta,
+    transaction,
+  };
+}
+
+function readArchiveFile(path: string): unknown[] {
+  const contents = readFileSync(path, "utf8");
+
+  if (extname(path) === ".jsonl") {
+    return contents.split("\n").flatMap((line, i) => {
+      if (!line.trim()) return [];
+
+      try {
+        return [JSON.parse(line)];
+      } catch (error) {
+        throw new Error(`Invalid JSON in ${path} on line ${i + 1}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  }
+
+  const json = JSON.parse(contents);
+
+  return Array.isArray(json) ? json : [json];
+}
+
+/**
+ * Reads the saved `getTransaction` responses from the `.json` and `.jsonl` files in `directory`
+ *
+ * A `.json` file holds one response or an array of responses, a `.jsonl` file holds one response per line.
+ * Files are read in name order. Transactions saved more than once are only returned once.
+ */
+export function readTransactionArchive(
+  directory: string,
+): VersionedTransactionResponse[] {
+  const files = readdirSync(directory)
+    .filter((file) => [".json", ".jsonl"].includes(extname(file)))
+    .sort();
+
+  const seenSignatures = new Set<string>();
+  const transactions: VersionedTransactionResponse[] = [];
+
+  files.forEach((file) => {
+    const path = join(directory, file);
+
+    readArchiveFile(path).forEach((json) => {
+      let tx: VersionedTransactionResponse | null;
+
+      try {
+        tx = parseTransactionResponse(json);
+      } catch (error) {
+        throw new Error(`Failed to parse a transaction in ${path}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      if (!tx || seenSignatures.has(tx.transaction.signatures[0])) {
+        return;
+      }
+
+      seenSignatures.add(tx.transaction.signatures[0]);
+      transactions.push(tx);
+    });
+  });
+
+  return transactions;
+}
+
+// Decodes the events of every transaction in the archive, see `decodeTransactionEvents`
+export function decodeArchiveEvents(directory: string): DecodedEvent[] {
+  return readTransactionArchive(directory).flatMap(decodeTransactionEvents);
+}
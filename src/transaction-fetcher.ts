@@ -0,0 +1,70 @@
+import {
+  Connection,
+  Finality,
+  TransactionSignature,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { isRateLimitError } from "./rpc-scheduler";
+
+export interface GetTransactionsBatchedOptions {
+  // The number of `getTransaction` requests sent in a single JSON-RPC batch
+  batchSize?: number;
+  commitment?: Finality;
+}
+
+export interface GetTransactionsBatchedResult {
+  // In the order of the signatures, null for the transactions that weren't found
+  transactions: (VersionedTransactionResponse | null)[];
+  // The error of the batch request that made the rest of the transactions fall back to single requests, if any
+  batchError: Error | null;
+}
+
+export const DEFAULT_TRANSACTION_BATCH_SIZE = 20;
+
+/**
+ * Fetches transactions with JSON-RPC batch requests of `batchSize` `getTransaction` calls
+ *
+ * Endpoints that don't support batches (or fail a batch because one of its transactions failed) get the batch's
+ * transactions as single `getTransaction` calls instead, and every following batch is sent as single calls too.
+ * The single calls are sent concurrently, so pace them with a scheduled connection (see `rpc-scheduler.ts`).
+ * Rate limited batches are thrown rather than falling back, as the RPC scheduler retries them.
+ */
+export async function getTransactionsBatched(
+  connection: Connection,
+  signatures: TransactionSignature[],
+  {
+    batchSize = DEFAULT_TRANSACTION_BATCH_SIZE,
+    commitment = "confirmed",
+  }: GetTransactionsBatchedOptions = {},
+): Promise<GetTransactionsBatchedResult> {
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error(`batchSize must be a positive integer, got ${batchSize}`);
+  }
+
+  const config = { commitment, maxSupportedTransactionVersion: 0 };
+  const transactions: (VersionedTransactionResponse | null)[] = [];
+  let batchError: Error | null = null;
+
+  const getSingleTransactions = (batch: TransactionSignature[]) =>
+    Promise.all(batch.map((signature) => connection.getTransaction(signature, config)));
+
+  for (let start = 0; start < signatures.length; start += batchSize) {
+    const batch = signatures.slice(start, start + batchSize);
+
+    if (batchError || batch.length === 1) {
+      transactions.push(...(await getSingleTransactions(batch)));
+      continue;
+    }
+
+    try {
+      transactions.push(...(await connection.getTransactions(batch, config)));
+    } catch (error) {
+      if (isRateLimitError(error)) throw error;
+
+      batchError = error instanceof Error ? error : new Error(String(error));
+      transactions.push(...(await getSingleTransactions(batch)));
+    }
+  }
+
+  return { transactions, batchError };
+}
@@ -0,0 +1,117 @@
+import {
+  Blockhash,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+// Get the estimated compute unit price from RPC or a provider like Triton for production usage
+export const DEFAULT_COMPUTE_UNIT_PRICE = 100_000;
+
+/**
+ * Compiles `instructions` into an unsigned v0 transaction with the compute budget instructions prepended.
+ * The compute unit limit is estimated by simulating the instructions first.
+ *
+ * @param connection The connection used to simulate the instructions
+ * @param instructions The instructions to include in the transaction
+ * @param payer The fee payer (and usually the signer) of the transaction
+ * @param recentBlockhash The blockhash the transaction is compiled against
+ * @param computeUnitPrice The priority fee in micro-lamports per compute unit
+ */
+export async function buildUnsignedTransaction({
+  connection,
+  instructions,
+  payer,
+  recentBlockhash,
+  computeUnitPrice = DEFAULT_COMPUTE_UNIT_PRICE,
+}: {
+  connection: Connection;
+  instructions: TransactionInstruction[];
+  payer: PublicKey;
+  recentBlockhash: Blockhash;
+  computeUnitPrice?: number;
+}) {
+  const allInstructions = [
+    ComputeBudgetProgram.setComputeUnitPrice({
+      microLamports: computeUnitPrice,
+    }),
+    ...instructions,
+  ];
+
+  const simulateTx = new VersionedTransaction(
+    new TransactionMessage({
+      instructions: allInstructions,
+      // `payerKey` for simulation can be any account as long as it has enough SOL to cover the gas fees
+      payerKey: PublicKey.default,
+      // We don't need to pass in a real blockhash here since the `replaceRecentBlockhash`
+      // option in `simulateTransaction` gets the latest blockhash from the RPC's internal cache
+      // Reference: https://github.com/anza-xyz/agave/blob/master/rpc/src/rpc.rs#L3890-L3907
+      recentBlockhash: PublicKey.default.toString(),
+    }).compileToV0Message([]),
+  );
+
+  const simulation = await connection.simulateTransaction(simulateTx, {
+    replaceRecentBlockhash: true,
+    sigVerify: false,
+  });
+
+  allInstructions.unshift(
+    ComputeBudgetProgram.setComputeUnitLimit({
+      units: simulation.value.unitsConsumed || 1_400_000,
+    }),
+  );
+
+  const txMessage = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash,
+    instructions: allInstructions,
+  }).compileToV0Message();
+
+  return new VersionedTransaction(txMessage);
+}
+
+/**
+ * Simulates a view instruction (one that only sets return data, e.g. `getAddLiquidityAmountAndFee2`) and returns
+ * the raw return data so it can be decoded with the program's coder.
+ *
+ * @param payer Any account with enough SOL to cover the gas fees, usually the user's wallet
+ */
+export async function simulateReturnData({
+  connection,
+  instruction,
+  payer,
+}: {
+  connection: Connection;
+  instruction: TransactionInstruction;
+  payer: PublicKey;
+}) {
+  const simulateTx = new VersionedTransaction(
+    new TransactionMessage({
+      instructions: [instruction],
+      payerKey: payer,
+      recentBlockhash: PublicKey.default.toString(),
+    }).compileToV0Message([]),
+  );
+
+  const simulation = await connection.simulateTransaction(simulateTx, {
+    replaceRecentBlockhash: true,
+    sigVerify: false,
+  });
+
+  if (simulation.value.err) {
+    throw new Error(
+      `Simulation failed: ${JSON.stringify(simulation.value.err)}\n${(simulation.value.logs || []).join("\n")}`,
+    );
+  }
+
+  const returnData = simulation.value.returnData;
+
+  if (!returnData || !returnData.programId || !returnData.data?.[0]) {
+    throw new Error("Simulation did not return any data");
+  }
+
+  return Buffer.from(returnData.data[0], "base64");
+}
@@ -1,5 +1,6 @@
-import type { IdlAccounts, ProgramAccount, IdlTypes } from "@coral-xyz/anchor";
+import type { BN, IdlAccounts, ProgramAccount, IdlTypes } from "@coral-xyz/anchor";
 import { Perpetuals } from "./idl/jupiter-perpetuals-idl";
+import { Doves } from "./idl/doves-idl";
 
 export type Position = IdlAccounts<Perpetuals>["position"];
 export type PositionAccount = ProgramAccount<Position>;
@@ -13,3 +14,20 @@ export type CustodyAccount = ProgramAccount<Custody>;
 export type ContractTypes = IdlTypes<Perpetuals>;
 export type Pool = IdlAccounts<Perpetuals>["pool"];
 export type PoolApr = ContractTypes["PoolApr"];
+
+export type PriceFeed = IdlAccounts<Doves>["priceFeed"];
+
+export interface MarkPrice {
+  price: BN;
+  priceUsd: string;
+  timestamp: number;
+  formattedTimestamp: string;
+  expo: number;
+}
+
+// Mark prices keyed by custody pubkey
+export type AssetMarkPrices = {
+  [key: string]: MarkPrice;
+};
+
+export type AmountAndFee = ContractTypes["AmountAndFee"];
@@ -1,4 +1,5 @@
 import { BN } from "@coral-xyz/anchor";
+import { CUSTODY_PUBKEY, USDC_DECIMALS } from "./constants";
 
 // Helper function to format `bn` values into the string USD representation
 export function BNToUSDRepresentation(
@@ -23,3 +24,72 @@ export const divCeil = (a: BN, b: BN) => {
   // Round up
   return dm.div.ltn(0) ? dm.div.isubn(1) : dm.div.iaddn(1);
 };
+
+// Rescales an oracle price with exponent `expo` (e.g. a Doves `priceFeed`) to the 6 decimal USD
+// representation the program uses for prices
+export function toUsdcDecimalsPrice(price: BN, expo: number): BN {
+  const decimals = Math.abs(expo);
+
+  if (decimals === USDC_DECIMALS) return price;
+
+  return decimals > USDC_DECIMALS
+    ? price.div(new BN(10).pow(new BN(decimals - USDC_DECIMALS)))
+    : price.mul(new BN(10).pow(new BN(USDC_DECIMALS - decimals)));
+}
+
+// Helper function to get asset name from custody pubkey
+export function getAssetNameFromCustody(custodyPubkey: string): string {
+  switch (custodyPubkey) {
+    case CUSTODY_PUBKEY.SOL:
+      return "SOL";
+    case CUSTODY_PUBKEY.ETH:
+      return "ETH";
+    case CUSTODY_PUBKEY.BTC:
+      return "BTC";
+    case CUSTODY_PUBKEY.USDC:
+      return "USDC";
+    case CUSTODY_PUBKEY.USDT:
+      return "USDT";
+    default:
+      return "Unknown";
+  }
+}
+
+// Returns whether the position is in profit and the absolute PNL (before fees) for `sizeUsdDelta`
+// if it were closed at `tokenPrice`
+export function getPnlForSize(
+  sizeUsdDelta: BN,
+  positionAvgPrice: BN,
+  positionSide: "long" | "short",
+  tokenPrice: BN,
+): [boolean, BN] {
+  if (sizeUsdDelta.eqn(0)) return [false, new BN(0)];
+
+  const hasProfit =
+    positionSide === "long"
+      ? tokenPrice.gt(positionAvgPrice)
+      : positionAvgPrice.gt(tokenPrice);
+
+  const tokenPriceDelta = tokenPrice.sub(positionAvgPrice).abs();
+
+  const pnl = sizeUsdDelta.mul(tokenPriceDelta).div(positionAvgPrice);
+
+  return [hasProfit, pnl];
+}
+
+// The JLP virtual price (AUM per JLP) scaled to `USDC_DECIMALS`
+export function getJlpVirtualPriceFromAum(aumUsd: BN, jlpSupply: BN): BN {
+  if (jlpSupply.isZero()) return new BN(0);
+
+  return (
+    aumUsd
+      // Give some buffer to the numerator so that we don't get a quotient that is large enough to give us precision for the JLP virtual price
+      .muln(Math.pow(10, USDC_DECIMALS))
+      .div(jlpSupply)
+  );
+}
+
+export const compoundToAPY = (apr: number, frequency = 365) => {
+  const apy = (Math.pow(apr / 100 / frequency + 1, frequency) - 1) * 100;
+  return apy;
+};